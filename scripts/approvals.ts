@@ -0,0 +1,67 @@
+#!/usr/bin/env bun
+
+/**
+ * List Writes Waiting for Approval, With Their Tokens
+ *
+ * The approval token is what approve_action needs, so it is never shown to
+ * the agent: mindbody://approvals/pending lists the actions without it. A
+ * person reviews the action there or here and passes the token on.
+ *
+ * Usage:
+ *   bun run approvals
+ *   bun run approvals 555                  # a site from MBO_SITES_FILE
+ *   DATA_DIR=./data bun run approvals
+ */
+
+import { Database } from "bun:sqlite";
+import { existsSync } from "fs";
+import { join } from "path";
+
+interface PendingRow {
+  id: number;
+  token: string;
+  method: string;
+  endpoint: string;
+  risk_level: string;
+  reasons: string;
+  record_count: number;
+  created_at: string;
+  expires_at: string;
+}
+
+const DATA_DIR = process.env.DATA_DIR ?? "./data";
+const [siteId] = process.argv.slice(2);
+const DB_PATH = join(siteId ? join(DATA_DIR, "sites", siteId) : DATA_DIR, "mindbody.db");
+
+if (!existsSync(DB_PATH)) {
+  console.log(`ℹ️  No database at ${DB_PATH}`);
+  process.exit(0);
+}
+
+const db = new Database(DB_PATH, { readonly: true });
+
+try {
+  const rows = db.query(`
+    SELECT id, token, method, endpoint, risk_level, reasons, record_count, created_at, expires_at
+    FROM pending_actions
+    WHERE status = 'pending' AND expires_at > datetime('now')
+    ORDER BY id ASC
+  `).all() as PendingRow[];
+
+  console.log(`Database: ${DB_PATH}`);
+  if (rows.length === 0) {
+    console.log("✅ Nothing is waiting for approval");
+  }
+  for (const row of rows) {
+    const reasons = (JSON.parse(row.reasons) as string[]).join("; ");
+    console.log(`\n#${row.id} ${row.method} ${row.endpoint} (${row.risk_level}, ${row.record_count} record(s))`);
+    console.log(`  Reasons: ${reasons}`);
+    console.log(`  Staged:  ${row.created_at}, expires ${row.expires_at}`);
+    console.log(`  Token:   ${row.token}`);
+  }
+} catch (error) {
+  console.error("❌ Could not read pending approvals:", error instanceof Error ? error.message : error);
+  process.exit(1);
+} finally {
+  db.close();
+}
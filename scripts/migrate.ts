@@ -0,0 +1,51 @@
+#!/usr/bin/env bun
+
+/**
+ * Apply SQLite Schema Migrations
+ *
+ * The server migrates on startup; this script lets you inspect or apply
+ * pending migrations for a data directory without starting it.
+ *
+ * Usage:
+ *   bun run db:migrate --dry-run     # report pending migrations only
+ *   DATA_DIR=./data bun run db:migrate
+ */
+
+import { Database } from "bun:sqlite";
+import { join } from "path";
+import { existsSync } from "fs";
+import { applyMigrations, planMigrations } from "../src/db/migrations.js";
+
+const DATA_DIR = process.env.DATA_DIR ?? "./data";
+const DB_PATH = join(DATA_DIR, "mindbody.db");
+const dryRun = process.argv.includes("--dry-run");
+
+if (dryRun && !existsSync(DB_PATH)) {
+  console.log(`ℹ️  No database at ${DB_PATH}; every migration would run on first start`);
+  process.exit(0);
+}
+
+const db = new Database(DB_PATH);
+
+try {
+  const plan = dryRun ? planMigrations(db) : applyMigrations(db);
+
+  console.log(`Database: ${DB_PATH}`);
+  console.log(`Schema version: ${plan.currentVersion} -> ${plan.targetVersion}`);
+
+  if (plan.pending.length === 0) {
+    console.log("✅ Schema is up to date");
+  } else {
+    for (const migration of plan.pending) {
+      console.log(`${dryRun ? "⏳ Pending" : "✅ Applied"}: ${migration.version} ${migration.name}`);
+      if (dryRun) {
+        console.log(migration.sql.replace(/^/gm, "    "));
+      }
+    }
+  }
+} catch (error) {
+  console.error("❌ Migration failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+} finally {
+  db.close();
+}
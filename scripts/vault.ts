@@ -0,0 +1,157 @@
+#!/usr/bin/env bun
+
+/**
+ * Manage the Encrypted Credential Vault
+ *
+ * Secrets live in DATA_DIR/vault.enc instead of compose.yaml or .env. Values
+ * are read from stdin (typed without echo, or piped from a password manager)
+ * so they never appear in shell history or process listings. The first
+ * `set` creates the vault and, unless MBO_VAULT_KEY is set, a master key in
+ * the OS keyring (MBO_VAULT_KEYRING=true) or DATA_DIR/.vault-key.
+ *
+ * Usage:
+ *   bun run vault list
+ *   bun run vault set MBO_STAFF_PASSWORD
+ *   bun run vault set site:555/MBO_STAFF_PASSWORD
+ *   bun run vault rotate MBO_STAFF_PASSWORD        # replace an existing entry
+ *   bun run vault remove MBO_OAUTH_CLIENT_SECRET
+ *   bun run vault rotate-key                       # re-encrypt under a new master key
+ */
+
+import { spawnSync } from "child_process";
+import { existsSync, mkdirSync } from "fs";
+import { join } from "path";
+import {
+  CredentialVault,
+  VAULT_FILE,
+  findVaultKey,
+  generateVaultKey,
+  storeVaultKey,
+} from "../src/services/credentialVault.js";
+import type { VaultKeyOptions } from "../src/services/credentialVault.js";
+
+const options: VaultKeyOptions = {
+  dataDir: process.env.DATA_DIR ?? "./data",
+  masterKey: process.env.MBO_VAULT_KEY,
+  useKeyring: process.env.MBO_VAULT_KEYRING === "true",
+};
+const vaultPath = join(options.dataDir, VAULT_FILE);
+const [command, name] = process.argv.slice(2);
+
+/**
+ * Open the vault, creating it (and a master key) on first write
+ */
+function openVault(create: boolean): CredentialVault {
+  const existing = CredentialVault.openIfPresent(options);
+  if (existing) {
+    return existing;
+  }
+  if (!create) {
+    console.log(`ℹ️  No vault at ${vaultPath}; add an entry with \`bun run vault set <NAME>\``);
+    process.exit(0);
+  }
+
+  mkdirSync(options.dataDir, { recursive: true });
+  const found = findVaultKey(options);
+  if (found) {
+    return new CredentialVault(vaultPath, found.key);
+  }
+
+  const key = generateVaultKey();
+  const source = storeVaultKey(options, key);
+  console.log(`🔑 Created a master key in ${source === "keyring" ? "the OS keyring" : join(options.dataDir, ".vault-key")}`);
+  return new CredentialVault(vaultPath, key);
+}
+
+/**
+ * One line from stdin, without echo when typed at a terminal
+ */
+async function readSecret(prompt: string): Promise<string> {
+  const interactive = process.stdin.isTTY;
+  if (interactive) {
+    process.stderr.write(prompt);
+    spawnSync("stty", ["-echo"], { stdio: "inherit" });
+  }
+
+  try {
+    for await (const line of console) {
+      return line.trim();
+    }
+    return "";
+  } finally {
+    if (interactive) {
+      spawnSync("stty", ["echo"], { stdio: "inherit" });
+      process.stderr.write("\n");
+    }
+  }
+}
+
+function requireName(): string {
+  if (!name) {
+    console.error(`❌ Usage: bun run vault ${command} <NAME>`);
+    process.exit(1);
+  }
+  return name;
+}
+
+try {
+  switch (command) {
+    case "list": {
+      const names = openVault(false).list();
+      console.log(`Vault: ${vaultPath}`);
+      console.log(names.length > 0 ? names.map((entry) => `  ${entry}`).join("\n") : "  (empty)");
+      break;
+    }
+
+    case "set":
+    case "rotate": {
+      const entry = requireName();
+      const vault = openVault(command === "set");
+      if (command === "rotate" && vault.get(entry) === undefined) {
+        throw new Error(`${entry} is not in the vault; use \`set\` to add it`);
+      }
+      vault.set(entry, await readSecret(`Value for ${entry}: `));
+      console.log(`✅ ${command === "set" ? "Stored" : "Rotated"} ${entry}`);
+      break;
+    }
+
+    case "remove": {
+      const entry = requireName();
+      if (!openVault(false).delete(entry)) {
+        throw new Error(`${entry} is not in the vault`);
+      }
+      console.log(`✅ Removed ${entry}`);
+      break;
+    }
+
+    case "rotate-key": {
+      if (!existsSync(vaultPath)) {
+        throw new Error(`No vault at ${vaultPath}`);
+      }
+      const vault = openVault(false);
+
+      // A key supplied through the environment has to be replaced there too
+      if (options.masterKey) {
+        const newKey = process.env.MBO_VAULT_NEW_KEY;
+        if (!newKey) {
+          throw new Error("MBO_VAULT_KEY is set; pass the replacement in MBO_VAULT_NEW_KEY");
+        }
+        vault.rotateKey(newKey);
+        console.log("✅ Vault re-encrypted; set MBO_VAULT_KEY to the new key before restarting the server");
+      } else {
+        const newKey = generateVaultKey();
+        vault.rotateKey(newKey);
+        const source = storeVaultKey(options, newKey);
+        console.log(`✅ Vault re-encrypted under a new master key in ${source === "keyring" ? "the OS keyring" : ".vault-key"}`);
+      }
+      break;
+    }
+
+    default:
+      console.error("❌ Usage: bun run vault <list|set|rotate|remove|rotate-key> [NAME]");
+      process.exit(1);
+  }
+} catch (error) {
+  console.error("❌ Vault command failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,172 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { normalizeName, normalizePhone } from "../types/client.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("client match keys", () => {
+  test("should ignore case, accents and punctuation in names", () => {
+    expect(normalizeName("José ", "O'Neil")).toBe("jose oneil");
+    expect(normalizeName("Jose", null)).toBeNull();
+  });
+
+  test("should compare phones by their last ten digits", () => {
+    expect(normalizePhone("+1 (555) 123-4567")).toBe("5551234567");
+    expect(normalizePhone("555.123.4567")).toBe("5551234567");
+    expect(normalizePhone("12-34")).toBeNull();
+  });
+});
+
+describe("Client creation", () => {
+  let db: DatabaseClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+
+    db.saveClients([
+      {
+        id: "c-1",
+        firstName: "Jane",
+        lastName: "Doe",
+        email: "Jane.Doe@Example.com",
+        status: "Active",
+        rawData: { Id: "c-1", MobilePhone: "555-123-4567" },
+      },
+      {
+        id: "c-2",
+        firstName: "Janet",
+        lastName: "Smith",
+        email: "janet@example.com",
+        status: "Inactive",
+        rawData: { Id: "c-2", HomePhone: "+1 555 987 6543" },
+      },
+    ]);
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should rank candidates by the number of matching keys", () => {
+    const candidates = db.findClientDuplicates({
+      email: " jane.doe@example.com",
+      firstName: "jane",
+      lastName: "DOE",
+      phones: ["(555) 987-6543"],
+    });
+
+    expect(candidates.map((candidate) => [candidate.id, candidate.matchedOn])).toEqual([
+      ["c-1", ["email", "name"]],
+      ["c-2", ["phone"]],
+    ]);
+    expect(candidates[1]?.phones).toEqual(["+1 555 987 6543"]);
+  });
+
+  test("should return candidates instead of creating a duplicate", async () => {
+    const fetchMock = spyOn(global, "fetch");
+
+    const payload = parsePayload(await findCustomTool("create_client_checked")!.handle({
+      client: { FirstName: "Jane", LastName: "Doe", MobilePhone: "5551234567" },
+      dry_run: false,
+    }, context));
+
+    expect(payload.created).toBe(false);
+    expect(payload.duplicateCandidates).toMatchObject([{ id: "c-1", matchedOn: ["name", "phone"] }]);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockRestore();
+  });
+
+  test("should validate a new client in test mode by default", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Client: { Id: "0", FirstName: "Ada", LastName: "Lovelace" },
+    }));
+
+    const payload = parsePayload(await findCustomTool("create_client_checked")!.handle({
+      client: { FirstName: "Ada", LastName: "Lovelace", Email: "ada@example.com" },
+    }, context));
+
+    const [url, options] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(String(url)).toContain("/client/addclient");
+    expect(JSON.parse(String(options.body))).toEqual({
+      FirstName: "Ada",
+      LastName: "Lovelace",
+      Email: "ada@example.com",
+      Test: true,
+    });
+    expect(payload).toMatchObject({ dryRun: true, created: false, duplicateCandidates: [] });
+    expect(db.getClients()).toHaveLength(2);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should create, cache and log the client when confirmed", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Client: { Id: "c-3", FirstName: "Jane", LastName: "Doe", Email: "jane2@example.com" },
+    }));
+
+    const payload = parsePayload(await findCustomTool("create_client_checked")!.handle({
+      client: { FirstName: "Jane", LastName: "Doe", Email: "jane2@example.com" },
+      dry_run: false,
+      allow_duplicate: true,
+    }, context));
+
+    expect(payload).toMatchObject({ created: true, client: { Id: "c-3" } });
+    expect(db.getClient("c-3")?.email).toBe("jane2@example.com");
+    expect(db.getSyncLogs()[0]).toMatchObject({ operation: "create_client_checked", status: "success" });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should reject a client without a last name", async () => {
+    await expect(findCustomTool("create_client_checked")!.handle({
+      client: { FirstName: "Ada" },
+    }, context)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { ApiResponseCache } from "../services/apiResponseCache.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import { GenericToolHandler } from "../mcp/handlers/genericToolHandler.js";
+import { EndpointRegistry } from "../metadata/registry.js";
+import { loadOpenApiSpec } from "../metadata/openapi.js";
+import { getApiCacheStats } from "../mcp/resources/index.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("ApiResponseCache freshness", () => {
+  let db: DatabaseClient;
+  let cache: ApiResponseCache;
+  let rateLimitGuard: RateLimitGuard;
+  let apiClient: MindbodyApiClient;
+  let now: number;
+  const MINUTE = 60 * 1000;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 10,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  const buildCache = (options: ConstructorParameters<typeof ApiResponseCache>[1] = {}) =>
+    new ApiResponseCache(db, { maxStaleMs: 30 * MINUTE, now: () => now, ...options });
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    now = Date.parse("2024-05-01T12:00:00Z");
+    db = new DatabaseClient(testConfig);
+    cache = buildCache();
+    rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const authFetch = mock(async () => jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 }));
+    apiClient = new MindbodyApiClient(
+      testConfig,
+      rateLimitGuard,
+      new AuthService(testConfig, authFetch as unknown as typeof fetch),
+      cache
+    );
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  const useQuota = (calls: number) => {
+    for (let i = 0; i < calls; i++) {
+      rateLimitGuard.recordCall();
+    }
+  };
+
+  test("should pick the TTL of the longest matching endpoint prefix", () => {
+    const custom = buildCache({ ttls: { "/class/": 1000, "/class/classdescriptions": 9000 }, defaultTtlMs: 50 });
+
+    expect(custom.ttlFor("/class/classdescriptions")).toBe(9000);
+    expect(custom.ttlFor("/class/classes")).toBe(1000);
+    expect(custom.ttlFor("/sale/sales")).toBe(50);
+    expect(cache.ttlFor("/site/locations")).toBe(24 * 60 * MINUTE);
+  });
+
+  test("should expire entries, keep them stale for a while and then drop them", () => {
+    cache.set("/client/clients", { limit: 10 }, { Clients: [] });
+
+    now += 4 * MINUTE;
+    expect(cache.get<object>("/client/clients", { limit: 10 })).toEqual({ Clients: [] });
+
+    now += 2 * MINUTE;
+    expect(cache.get<object>("/client/clients", { limit: 10 })).toBeNull();
+    expect(cache.lookup("/client/clients", { limit: 10 })).toMatchObject({
+      stale: true,
+      ageMs: 6 * MINUTE,
+      ttlMs: 5 * MINUTE,
+    });
+
+    now += 30 * MINUTE;
+    expect(cache.lookup("/client/clients", { limit: 10 })).toBeNull();
+    expect(cache.getStats().totalEntries).toBe(0);
+  });
+
+  test("should evict the least recently used entries beyond the limits", () => {
+    const small = buildCache({ maxEntries: 2 });
+    small.set("/site/locations", { a: 1 }, { n: 1 });
+    now += 1000;
+    small.set("/site/locations", { a: 2 }, { n: 2 });
+    now += 1000;
+    small.get("/site/locations", { a: 1 });
+    now += 1000;
+    small.set("/site/locations", { a: 3 }, { n: 3 });
+
+    expect(small.get<object>("/site/locations", { a: 1 })).toEqual({ n: 1 });
+    expect(small.get<object>("/site/locations", { a: 2 })).toBeNull();
+    expect(small.get<object>("/site/locations", { a: 3 })).toEqual({ n: 3 });
+
+    const tiny = buildCache({ maxBytes: 60 });
+    tiny.clear();
+    tiny.set("/site/programs", { a: 1 }, { text: "x".repeat(30) });
+    now += 1000;
+    tiny.set("/site/programs", { a: 2 }, { text: "y".repeat(30) });
+
+    expect(tiny.getStats().totalEntries).toBe(1);
+    expect(tiny.get("/site/programs", { a: 2 })).not.toBeNull();
+  });
+
+  test("should serve fresh entries without a call and report their age", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ Clients: [{ Id: "c-1" }] }));
+
+    const first = await apiClient.requestWithCacheInfo({ endpoint: "/client/clients", params: { limit: 10 } });
+    now += MINUTE;
+    const second = await apiClient.requestWithCacheInfo({ endpoint: "/client/clients", params: { limit: 10 } });
+
+    expect(first.cache).toEqual({ hit: false, stale: false, ageMs: 0, ttlMs: 5 * MINUTE, revalidating: false });
+    expect(second.cache).toEqual({ hit: true, stale: false, ageMs: MINUTE, ttlMs: 5 * MINUTE, revalidating: false });
+    expect(second.data).toEqual(first.data);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should serve stale entries and refresh them in the background while quota is plentiful", async () => {
+    cache.set("/client/clients", { limit: 10 }, { Clients: [{ Id: "old" }] });
+    now += 10 * MINUTE;
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ Clients: [{ Id: "new" }] }));
+
+    const result = await apiClient.requestWithCacheInfo<{ Clients: Array<{ Id: string }> }>({
+      endpoint: "/client/clients",
+      params: { limit: 10 },
+    });
+
+    expect(result.data.Clients[0]?.Id).toBe("old");
+    expect(result.cache).toMatchObject({ hit: true, stale: true, ageMs: 10 * MINUTE, revalidating: true });
+
+    await Bun.sleep(20);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cache.get<object>("/client/clients", { limit: 10 })).toEqual({ Clients: [{ Id: "new" }] });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should serve stale entries without spending a call when quota is low", async () => {
+    cache.set("/client/clients", { limit: 10 }, { Clients: [{ Id: "old" }] });
+    now += 10 * MINUTE;
+    useQuota(8);
+    const fetchMock = spyOn(global, "fetch");
+
+    const result = await apiClient.requestWithCacheInfo<{ Clients: Array<{ Id: string }> }>({
+      endpoint: "/client/clients",
+      params: { limit: 10 },
+    });
+
+    expect(result.data.Clients[0]?.Id).toBe("old");
+    expect(result.cache).toMatchObject({ hit: true, stale: true, revalidating: false });
+
+    await Bun.sleep(20);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(rateLimitGuard.getUsageStats().callsMade).toBe(8);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should include cache metadata in generic tool results", async () => {
+    const handler = new GenericToolHandler(EndpointRegistry.fromOpenApiSpec(await loadOpenApiSpec()), apiClient);
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ Locations: [] }));
+
+    await handler.handle("get_locations", {});
+    now += MINUTE;
+    const payload = parsePayload(await handler.handle("get_locations", {}));
+
+    expect(payload.cache).toMatchObject({ hit: true, stale: false, ageMs: MINUTE });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should only cache opted-in requests when the cache is opt-in", async () => {
+    cache = buildCache({ optIn: true });
+    apiClient = new MindbodyApiClient(
+      testConfig,
+      rateLimitGuard,
+      new AuthService(testConfig, mock(async () =>
+        jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+      ) as unknown as typeof fetch),
+      cache
+    );
+    const handler = new GenericToolHandler(
+      EndpointRegistry.fromOpenApiSpec(await loadOpenApiSpec()),
+      apiClient,
+      new Set(["get_locations"])
+    );
+    const fetchMock = spyOn(global, "fetch").mockImplementation(
+      (async () => jsonResponse({})) as unknown as typeof fetch
+    );
+
+    await handler.handle("get_programs", {});
+    const programs = parsePayload(await handler.handle("get_programs", {}));
+    await handler.handle("get_locations", {});
+    const locations = parsePayload(await handler.handle("get_locations", {}));
+
+    expect(programs.cache).toBeUndefined();
+    expect(locations.cache).toMatchObject({ hit: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(cache.getStats()).toMatchObject({ totalEntries: 1, hits: 1, misses: 1, hitRatio: 0.5 });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should drop cached pages a write may have changed", async () => {
+    cache.set("/client/clients", { limit: 10 }, { Clients: [] });
+    cache.set("/client/clientvisits", { ClientId: "c-1" }, { Visits: [] });
+    cache.set("/site/locations", {}, { Locations: [] });
+    const fetchMock = spyOn(global, "fetch").mockImplementation(
+      (async () => jsonResponse({ Client: { Id: "c-1" } })) as unknown as typeof fetch
+    );
+
+    await apiClient.request({ method: "POST", endpoint: "/client/updateclient", body: { Client: { Id: "c-1" }, Test: true } });
+    expect(cache.getStats().totalEntries).toBe(3);
+
+    await apiClient.request({ method: "POST", endpoint: "/client/updateclient", body: { Client: { Id: "c-1" } } });
+    expect(cache.get("/client/clients", { limit: 10 })).toBeNull();
+    expect(cache.get("/client/clientvisits", { ClientId: "c-1" })).toBeNull();
+    expect(cache.get<object>("/site/locations", {})).toEqual({ Locations: [] });
+
+    cache.set("/client/clientvisits", { ClientId: "c-1" }, { Visits: [] });
+    expect(cache.invalidate("/class/addclienttoclass")).toBe(1);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should report the hit ratio in mindbody://cache/api", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ Clients: [] }));
+
+    for (let i = 0; i < 4; i++) {
+      await apiClient.request({ endpoint: "/client/clients", params: { limit: 10 } });
+    }
+    const data = JSON.parse(getApiCacheStats(apiClient).text);
+
+    expect(data).toMatchObject({ enabled: true, entries: 1, hits: 3, misses: 1, hitRatio: 0.75, entryHits: 3 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRestore();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { transformAppointment } from "../types/appointment.js";
+import type { MindbodyAppointment } from "../types/appointment.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+const appointment = (overrides: Partial<MindbodyAppointment> = {}): MindbodyAppointment => ({
+  Id: 42,
+  StartDateTime: "2024-03-01T10:00:00",
+  EndDateTime: "2024-03-01T11:00:00",
+  ClientId: "c-1",
+  StaffId: 3,
+  LocationId: 1,
+  SessionTypeId: 2,
+  Status: "Booked",
+  ...overrides,
+});
+
+const booking = {
+  ClientId: "c-1",
+  LocationId: 1,
+  SessionTypeId: 2,
+  StaffId: 3,
+  StartDateTime: "2024-03-01T10:00:00",
+};
+
+describe("Appointment writes", () => {
+  let db: DatabaseClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  const requestBody = (fetchMock: ReturnType<typeof spyOn>, index = 0) =>
+    JSON.parse(String((fetchMock.mock.calls[index]?.[1] as RequestInit).body));
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should preview a booking in test mode by default", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ Appointment: appointment() }));
+
+    const payload = parsePayload(await findCustomTool("book_appointment")!.handle({ appointment: booking }, context));
+
+    expect(requestBody(fetchMock)).toMatchObject({ ...booking, Test: true });
+    expect(payload).toMatchObject({ dryRun: true, appointment: { Id: 42 } });
+    expect(db.getAppointment("42")).toBeNull();
+    expect(db.getSyncLogs()).toEqual([]);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should book, cache and log when dry_run is false", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ Appointment: appointment() }));
+
+    const payload = parsePayload(await findCustomTool("book_appointment")!.handle({
+      appointment: booking,
+      dry_run: false,
+    }, context));
+
+    expect(requestBody(fetchMock).Test).toBeUndefined();
+    expect(payload.dryRun).toBe(false);
+    expect(db.getAppointment("42")).toMatchObject({ clientId: "c-1", status: "Booked" });
+    expect(db.getSyncLogs()[0]).toMatchObject({ operation: "book_appointment", status: "success" });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should reject bookings missing required fields before calling Mindbody", async () => {
+    const fetchMock = spyOn(global, "fetch");
+
+    await expect(findCustomTool("book_appointment")!.handle({
+      appointment: { ClientId: "c-1", StartDateTime: "2024-03-01T10:00:00" },
+    }, context)).rejects.toThrow();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockRestore();
+  });
+
+  test("should show the cached appointment next to an update preview", async () => {
+    db.saveAppointment(transformAppointment(appointment()));
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Appointment: appointment({ StartDateTime: "2024-03-01T12:00:00" }),
+    }));
+
+    const payload = parsePayload(await findCustomTool("change_appointment")!.handle({
+      appointment_id: "42",
+      data: { StartDateTime: "2024-03-01T12:00:00" },
+    }, context));
+
+    expect(requestBody(fetchMock)).toEqual({ StartDateTime: "2024-03-01T12:00:00", AppointmentId: 42, Test: true });
+    expect(payload.cached.StartDateTime).toBe("2024-03-01T10:00:00");
+    expect(payload.appointment.StartDateTime).toBe("2024-03-01T12:00:00");
+    expect(db.getAppointment("42")?.startDateTime).toBe("2024-03-01T10:00:00");
+
+    fetchMock.mockRestore();
+  });
+
+  test("should cancel and update the cached status", async () => {
+    db.saveAppointment(transformAppointment(appointment()));
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Appointment: appointment({ Status: "LateCancelled" }),
+    }));
+
+    await findCustomTool("cancel_appointment")!.handle({
+      appointment_id: "42",
+      late_cancel: true,
+      dry_run: false,
+    }, context);
+
+    expect(requestBody(fetchMock)).toMatchObject({ AppointmentId: 42, Execute: "latecancel", SendEmail: false });
+    expect(db.getAppointment("42")?.status).toBe("LateCancelled");
+
+    fetchMock.mockRestore();
+  });
+
+  test("should log failed writes", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+      new Response("Appointment not found", { status: 400 })
+    );
+
+    await expect(findCustomTool("cancel_appointment")!.handle({
+      appointment_id: "42",
+      dry_run: false,
+    }, context)).rejects.toThrow("400");
+    expect(db.getSyncLogs()[0]).toMatchObject({ operation: "cancel_appointment", status: "error" });
+
+    fetchMock.mockRestore();
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { getPendingApprovals } from "../mcp/resources/index.js";
+import { ApprovalGate } from "../services/approvalGate.js";
+import { AuditJournal } from "../services/auditJournal.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("Approval gate", () => {
+  let db: DatabaseClient;
+  let apiClient: MindbodyApiClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  const buildClient = (config: Config) => {
+    const rateLimitGuard = new RateLimitGuard(db, config);
+    const mockAuthService = new AuthService(config, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    return new MindbodyApiClient(
+      config,
+      rateLimitGuard,
+      mockAuthService,
+      undefined,
+      new AuditJournal(db),
+      new ApprovalGate(db, config)
+    );
+  };
+
+  const cancelled = {
+    Appointment: { Id: 42, Status: "Cancelled", StartDateTime: "2024-03-01T10:00:00", EndDateTime: "2024-03-01T11:00:00" },
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    apiClient = buildClient(testConfig);
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  describe("assess", () => {
+    test("should rate creations low and single updates medium", () => {
+      const gate = new ApprovalGate(db, testConfig);
+
+      expect(gate.assess({ method: "POST", endpoint: "/client/addclient", body: { FirstName: "A" } }).level).toBe("low");
+      expect(gate.assess({ method: "POST", endpoint: "/client/updateclient", body: { Client: { Id: "1" } } }).level).toBe("medium");
+    });
+
+    test("should rate cancellations, destructive endpoints, deletes and bulk writes high", () => {
+      const gate = new ApprovalGate(db, { ...testConfig, APPROVAL_MAX_RECORDS: 2 });
+
+      expect(gate.assess({
+        method: "POST",
+        endpoint: "/appointment/updateappointment",
+        body: { AppointmentId: 42, Execute: "latecancel" },
+      })).toEqual({ level: "high", reasons: ["runs latecancel"], recordCount: 1 });
+      expect(gate.assess({ method: "POST", endpoint: "/client/terminatecontract", body: {} }).reasons)
+        .toEqual(["terminatecontract cannot be undone"]);
+      expect(gate.assess({ method: "DELETE", endpoint: "/pickaspot/v1/reservation/7" }).level).toBe("high");
+      expect(gate.assess({
+        method: "POST",
+        endpoint: "/client/updateclientvisit",
+        params: { VisitIds: ["1", "2", "3"] },
+      })).toEqual({ level: "high", reasons: ["touches 3 records (limit 2)"], recordCount: 3 });
+    });
+  });
+
+  test("should stage a cancellation instead of sending it, even with force", async () => {
+    const fetchMock = spyOn(global, "fetch");
+    const logSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(findCustomTool("cancel_appointment")!.handle({
+      appointment_id: "42",
+      dry_run: false,
+      force: true,
+    }, context)).rejects.toThrow("needs human approval (runs cancel)");
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(db.getAuditEntries()).toEqual([]);
+
+    const pending = JSON.parse(getPendingApprovals(db).text);
+    expect(pending).toHaveLength(1);
+    expect(pending[0]).toMatchObject({
+      endpoint: "/appointment/updateappointment",
+      riskLevel: "high",
+      request: { AppointmentId: 42, Execute: "cancel", SendEmail: false },
+    });
+    expect(pending[0]).not.toHaveProperty("token");
+
+    // Only the operator sees the token
+    const [staged] = db.getPendingActions();
+    expect(logSpy.mock.calls.flat().join(" ")).toContain(staged!.token);
+
+    logSpy.mockRestore();
+    fetchMock.mockRestore();
+  });
+
+  test("should let test-mode and below-threshold writes through", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse(cancelled))
+      .mockResolvedValueOnce(jsonResponse({ Client: { Id: "c-1", FirstName: "New" } }));
+
+    await findCustomTool("cancel_appointment")!.handle({ appointment_id: "42" }, context);
+    await apiClient.addClient({ client: { FirstName: "New", LastName: "Client" } });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(db.getPendingActions()).toEqual([]);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should run the staged request once approved, and only once", async () => {
+    await expect(apiClient.cancelAppointment({ appointmentId: "42" })).rejects.toThrow("needs human approval");
+    const [action] = db.getPendingActions();
+
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse(cancelled));
+    const payload = parsePayload(await findCustomTool("approve_action")!.handle({ token: action!.token }, context));
+
+    const init = fetchMock.mock.calls[0]?.[1] as RequestInit;
+    expect(JSON.parse(String(init.body))).toEqual({ AppointmentId: 42, Execute: "cancel" });
+    expect(payload).toMatchObject({ actionId: action!.id, status: "executed" });
+    expect(db.getPendingActionByToken(action!.token)?.status).toBe("executed");
+    expect(db.getAppointment("42")?.status).toBe("Cancelled");
+    expect(db.getAuditEntries()[0]).toMatchObject({ endpoint: "/appointment/updateappointment", status: "success" });
+    expect(db.getPendingActions()).toEqual([]);
+
+    await expect(findCustomTool("approve_action")!.handle({ token: action!.token }, context))
+      .rejects.toThrow("already executed");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should send an approved action once when approvals race", async () => {
+    await expect(apiClient.cancelAppointment({ appointmentId: "42" })).rejects.toThrow("needs human approval");
+    const [action] = db.getPendingActions();
+    const fetchMock = spyOn(global, "fetch").mockImplementation((async () => {
+      await Bun.sleep(10);
+      return jsonResponse(cancelled);
+    }) as unknown as typeof fetch);
+
+    const approve = () => findCustomTool("approve_action")!.handle({ token: action!.token }, context);
+    const results = await Promise.allSettled([approve(), approve()]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    const rejected = results.find((result) => result.status === "rejected") as PromiseRejectedResult;
+    expect(String(rejected.reason)).toContain("already being executed");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(db.getPendingActionByToken(action!.token)?.status).toBe("executed");
+    expect(db.claimPendingAction(action!.id)).toBe(false);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should refuse a token replayed with a different request", async () => {
+    await expect(apiClient.cancelAppointment({ appointmentId: "42" })).rejects.toThrow("needs human approval");
+    const [action] = db.getPendingActions();
+    const fetchMock = spyOn(global, "fetch");
+
+    await expect(apiClient.request({
+      method: "POST",
+      endpoint: "/appointment/updateappointment",
+      body: { AppointmentId: 43, Execute: "cancel", SendEmail: false },
+      approvalToken: action!.token,
+    })).rejects.toThrow("does not match this request");
+    await expect(apiClient.request({
+      method: "POST",
+      endpoint: "/appointment/updateappointment",
+      body: {},
+      approvalToken: "not-a-token",
+    })).rejects.toThrow("No pending action matches");
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(db.getPendingActionByToken(action!.token)?.status).toBe("pending");
+
+    fetchMock.mockRestore();
+  });
+
+  test("should mark an approved action failed when Mindbody rejects it", async () => {
+    await expect(apiClient.cancelAppointment({ appointmentId: "42" })).rejects.toThrow("needs human approval");
+    const [action] = db.getPendingActions();
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(new Response("Appointment not found", { status: 400 }));
+
+    await expect(findCustomTool("approve_action")!.handle({ token: action!.token }, context)).rejects.toThrow("400");
+
+    expect(db.getPendingActionByToken(action!.token)).toMatchObject({ status: "failed" });
+    expect(db.getPendingActionByToken(action!.token)?.error).toContain("Appointment not found");
+
+    fetchMock.mockRestore();
+  });
+
+  test("should replay the undo target and idempotency key it was staged with", async () => {
+    const client = { Client: { Id: "c-1", Email: "old@example.com" } };
+    const fetchMock = spyOn(global, "fetch").mockImplementation(
+      (async () => jsonResponse({ Clients: [client.Client], ...client })) as unknown as typeof fetch
+    );
+    await apiClient.updateClient({ clientId: "c-1", data: { Email: "new@example.com" } });
+    const [original] = db.getAuditEntries();
+
+    const strictClient = buildClient({ ...testConfig, APPROVAL_RISK_THRESHOLD: "medium" });
+    await expect(strictClient.request({
+      method: "POST",
+      endpoint: "/client/updateclient",
+      body: { Client: { Id: "c-1", Email: "old@example.com" } },
+      undoOf: original!.id,
+      idempotencyKey: "undo-1",
+    })).rejects.toThrow("needs human approval");
+    const [action] = db.getPendingActions();
+    expect(action).toMatchObject({ undoOf: original!.id, idempotencyKey: "undo-1", actingClientId: null });
+
+    fetchMock.mockClear();
+    await findCustomTool("approve_action")!.handle({ token: action!.token }, context);
+
+    const post = fetchMock.mock.calls.find(([, init]) => init?.method === "POST");
+    expect((post?.[1]?.headers as Record<string, string>)["Idempotency-Key"]).toBe("undo-1");
+    expect(db.getAuditEntry(original!.id)?.undoneBy).toEqual(expect.any(Number));
+
+    fetchMock.mockRestore();
+  });
+
+  test("should gate single updates when the threshold is lowered to medium", async () => {
+    const strictConfig: Config = { ...testConfig, APPROVAL_RISK_THRESHOLD: "medium" };
+    const strictClient = buildClient(strictConfig);
+    const fetchMock = spyOn(global, "fetch");
+
+    await expect(strictClient.updateClient({ clientId: "c-1", data: { Email: "a@example.com" }, force: true }))
+      .rejects.toThrow("changes an existing record");
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(db.getPendingActions()[0]).toMatchObject({ riskLevel: "medium", endpoint: "/client/updateclient" });
+
+    fetchMock.mockRestore();
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { getAuditJournal } from "../mcp/resources/index.js";
+import { AuditJournal } from "../services/auditJournal.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("Audit journal", () => {
+  let db: DatabaseClient;
+  let apiClient: MindbodyApiClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+    API_MAX_RETRIES: 0, // a failed snapshot must not be retried into the write's response
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  const requestBody = (fetchMock: ReturnType<typeof spyOn>, index: number) =>
+    JSON.parse(String((fetchMock.mock.calls[index]?.[1] as RequestInit).body));
+
+  const before = { Id: "c-1", FirstName: "Jane", Email: "old@example.com" };
+  const after = { ...before, Email: "new@example.com" };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService, undefined, new AuditJournal(db));
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should snapshot the client before an update and record the response", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ Clients: [before] }))
+      .mockResolvedValueOnce(jsonResponse({ Client: after }));
+
+    await apiClient.updateClient({ clientId: "c-1", data: { Email: "new@example.com" } });
+
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/client/clients?");
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain("ClientIds=c-1");
+    expect(db.getAuditEntries()).toMatchObject([{
+      endpoint: "/client/updateclient",
+      entityType: "client",
+      entityId: "c-1",
+      beforeState: before,
+      beforeSource: "live",
+      requestBody: { Client: { Id: "c-1", Email: "new@example.com" } },
+      responseBody: { Client: after },
+      status: "success",
+      test: false,
+    }]);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should fall back to the local mirror when the live snapshot fails", async () => {
+    db.saveClient({ id: "c-1", firstName: "Jane", email: "old@example.com", rawData: before });
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(new Response("Internal error", { status: 500 }))
+      .mockResolvedValueOnce(jsonResponse({ Client: after }));
+
+    await apiClient.updateClient({ clientId: "c-1", data: { Email: "new@example.com" } });
+
+    expect(db.getAuditEntries()[0]).toMatchObject({ beforeState: before, beforeSource: "cache", status: "success" });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should journal test-mode and failed writes without blocking them", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ Client: after }))
+      .mockResolvedValueOnce(jsonResponse({ Clients: [before] }))
+      .mockResolvedValueOnce(new Response("Invalid email", { status: 400 }));
+
+    await apiClient.updateClient({ clientId: "c-1", data: { Email: "new@example.com" }, dryRun: true });
+    await expect(apiClient.updateClient({ clientId: "c-1", data: { Email: "bad" } })).rejects.toThrow("400");
+
+    const [failed, test] = db.getAuditEntries();
+    expect(test).toMatchObject({ test: true, beforeState: null, status: "success" });
+    expect(failed).toMatchObject({ status: "error", beforeSource: "live" });
+    expect(failed?.error).toContain("Invalid email");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should not journal reads", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ Clients: [] }));
+
+    await apiClient.getClients({});
+
+    expect(db.getAuditEntries()).toEqual([]);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should undo an update by writing back the snapshotted values", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ Clients: [before] }))
+      .mockResolvedValueOnce(jsonResponse({ Client: after }))
+      .mockResolvedValueOnce(jsonResponse({ Clients: [after] }))
+      .mockResolvedValueOnce(jsonResponse({ Client: before }));
+
+    await apiClient.updateClient({ clientId: "c-1", data: { Email: "new@example.com" } });
+    const [original] = db.getAuditEntries();
+
+    const payload = parsePayload(await findCustomTool("undo_change")!.handle({
+      journal_id: original!.id,
+      dry_run: false,
+    }, context));
+
+    expect(requestBody(fetchMock, 3)).toEqual({ Client: { Id: "c-1", Email: "old@example.com" } });
+    expect(payload).toMatchObject({ dryRun: false, inverse: { Client: { Id: "c-1", Email: "old@example.com" } } });
+    expect(db.getClient("c-1")?.email).toBe("old@example.com");
+
+    const [undo, updated] = db.getAuditEntries();
+    expect(undo?.undoOf).toBe(original!.id);
+    expect(updated?.undoneBy).toBe(undo!.id);
+    expect(() => new AuditJournal(db).planUndo(original!.id)).toThrow("already undone");
+
+    fetchMock.mockRestore();
+  });
+
+  test("should preview an undo in test mode without marking the entry", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ Clients: [before] }))
+      .mockResolvedValueOnce(jsonResponse({ Client: after }))
+      .mockResolvedValueOnce(jsonResponse({ Client: before }));
+
+    await apiClient.updateClient({ clientId: "c-1", data: { Email: "new@example.com" } });
+    const [original] = db.getAuditEntries();
+
+    await findCustomTool("undo_change")!.handle({ journal_id: original!.id }, context);
+
+    expect(requestBody(fetchMock, 2)).toEqual({ Client: { Id: "c-1", Email: "old@example.com" }, Test: true });
+    expect(db.getAuditEntry(original!.id)?.undoneBy).toBeNull();
+
+    fetchMock.mockRestore();
+  });
+
+  test("should identify and undo a client update sent in the spec's shape", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ Clients: [before] }))
+      .mockResolvedValueOnce(jsonResponse({ Client: after }));
+
+    await apiClient.request({
+      method: "POST",
+      endpoint: "/client/updateclient",
+      body: { Client: { Id: "c-1", Email: "new@example.com" }, CrossRegionalUpdate: false },
+    });
+    const [entry] = db.getAuditEntries();
+
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain("ClientIds=c-1");
+    expect(entry).toMatchObject({ entityType: "client", entityId: "c-1", beforeSource: "live" });
+    expect(new AuditJournal(db).planUndo(entry!.id).body).toEqual({
+      Client: { Id: "c-1", Email: "old@example.com" },
+    });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should undo a booking by cancelling it", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Appointment: { Id: 42, StartDateTime: "2024-03-01T10:00:00", EndDateTime: "2024-03-01T11:00:00" },
+    }));
+
+    await apiClient.addAppointment({
+      appointment: { ClientId: "c-1", LocationId: 1, SessionTypeId: 2, StaffId: 3, StartDateTime: "2024-03-01T10:00:00" },
+    });
+    const [entry] = db.getAuditEntries();
+
+    expect(entry).toMatchObject({ entityType: "appointment", entityId: "42", beforeState: null });
+    expect(new AuditJournal(db).planUndo(entry!.id)).toMatchObject({
+      endpoint: "/appointment/updateappointment",
+      body: { AppointmentId: 42, Execute: "cancel" },
+    });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should refuse to undo a cancellation", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Appointment: { Id: 42, StartDateTime: "2024-03-01T10:00:00", EndDateTime: "2024-03-01T11:00:00" },
+    }));
+
+    await apiClient.cancelAppointment({ appointmentId: "42" });
+    const [entry] = db.getAuditEntries();
+
+    expect(() => new AuditJournal(db).planUndo(entry!.id)).toThrow("cannot be reversed");
+
+    fetchMock.mockRestore();
+  });
+
+  test("should list entries newest first in the journal resource", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ Client: after }))
+      .mockResolvedValueOnce(jsonResponse({ Client: after }));
+
+    await apiClient.updateClient({ clientId: "c-1", data: { Email: "a@example.com" }, dryRun: true });
+    await apiClient.updateClient({ clientId: "c-1", data: { Email: "b@example.com" }, dryRun: true });
+
+    const entries = JSON.parse(getAuditJournal(db).text);
+    expect(entries.map((entry: { request: { Client: { Email: string } } }) => entry.request.Client.Email)).toEqual([
+      "b@example.com",
+      "a@example.com",
+    ]);
+
+    fetchMock.mockRestore();
+  });
+});
@@ -0,0 +1,287 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { AuthService } from "../services/auth.js";
+import { TokenStore, resolveTokenKey } from "../services/tokenStore.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { MindbodyAuthError } from "../services/errors.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import { SyncService } from "../services/sync.js";
+import { DatabaseClient } from "../db/client.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Database } from "bun:sqlite";
+import { existsSync } from "fs";
+import { unlink } from "fs/promises";
+
+describe("Stored tokens and client authorization", () => {
+  let db: DatabaseClient;
+  let store: TokenStore;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+    MBO_OAUTH_CLIENT_ID: "oauth-client",
+    MBO_OAUTH_CLIENT_SECRET: "oauth-secret",
+    MBO_OAUTH_REDIRECT_URI: "https://example.com/callback",
+    TOKEN_ENCRYPTION_KEY: "0123456789abcdef0123456789abcdef",
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  /** Route token calls by URL; each call pops the next response for that URL */
+  const tokenFetch = (responses: Record<string, Response[]>) =>
+    mock(async (url: string) => {
+      const key = Object.keys(responses).find((suffix) => url.endsWith(suffix));
+      const response = key ? responses[key]?.shift() : undefined;
+      if (!response) {
+        throw new Error(`Unexpected token request to ${url}`);
+      }
+      return response;
+    });
+
+  const expireStoredToken = (subject: string) => {
+    db.close();
+    const raw = new Database(`${testConfig.DATA_DIR}/mindbody.db`);
+    raw.prepare("UPDATE auth_tokens SET expires_at = ? WHERE subject = ?").run(new Date(0).toISOString(), subject);
+    raw.close();
+    db = new DatabaseClient(testConfig);
+    store = new TokenStore(db, resolveTokenKey(testConfig));
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    store = new TokenStore(db, resolveTokenKey(testConfig));
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`, `${testConfig.DATA_DIR}/.token-key`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  describe("TokenStore", () => {
+    test("should encrypt tokens at rest and read them back", () => {
+      store.save("client:c-1", { accessToken: "secret-access", refreshToken: "secret-refresh", expiresAt: new Date("2030-01-01T00:00:00Z") });
+
+      const row = db.getAuthToken("client:c-1");
+      expect(row?.accessToken).not.toContain("secret");
+      expect(row?.refreshToken).not.toContain("secret");
+      expect(store.load("client:c-1")).toEqual({
+        accessToken: "secret-access",
+        refreshToken: "secret-refresh",
+        expiresAt: new Date("2030-01-01T00:00:00Z"),
+      });
+    });
+
+    test("should ignore tokens written under another key", () => {
+      store.save("staff", { accessToken: "a", refreshToken: null, expiresAt: new Date("2030-01-01T00:00:00Z") });
+      const otherStore = new TokenStore(db, resolveTokenKey({ ...testConfig, TOKEN_ENCRYPTION_KEY: "another-key-entirely" }));
+      const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+      expect(otherStore.load("staff")).toBeNull();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    test("should generate and reuse a key file when no key is configured", () => {
+      const { TOKEN_ENCRYPTION_KEY: _unused, ...keyless } = testConfig;
+
+      const first = resolveTokenKey(keyless);
+      const second = resolveTokenKey(keyless);
+
+      expect(first).toHaveLength(32);
+      expect(second.equals(first)).toBe(true);
+      expect(existsSync(`${testConfig.DATA_DIR}/.token-key`)).toBe(true);
+    });
+  });
+
+  describe("staff token", () => {
+    test("should reuse a stored token across restarts without re-issuing", async () => {
+      const fetchFn = tokenFetch({
+        "/usertoken/issue": [jsonResponse({ AccessToken: "staff-1", TokenType: "Bearer", ExpiresIn: 3600 })],
+      });
+
+      await new AuthService(testConfig, fetchFn as unknown as typeof fetch, store).getUserToken();
+      const restarted = new AuthService(testConfig, fetchFn as unknown as typeof fetch, store);
+
+      expect(await restarted.getUserToken()).toBe("staff-1");
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    test("should renew the expiring token instead of re-sending the password", async () => {
+      const fetchFn = tokenFetch({
+        "/usertoken/issue": [jsonResponse({ AccessToken: "staff-1", TokenType: "Bearer", ExpiresIn: 3600 })],
+        "/usertoken/renew": [jsonResponse({ AccessToken: "staff-2", TokenType: "Bearer", ExpiresIn: 3600 })],
+      });
+      await new AuthService(testConfig, fetchFn as unknown as typeof fetch, store).getUserToken();
+      expireStoredToken("staff");
+
+      const auth = new AuthService(testConfig, fetchFn as unknown as typeof fetch, store);
+
+      expect(await auth.getUserToken()).toBe("staff-2");
+      const [renewUrl, renewInit] = fetchFn.mock.calls[1] as unknown as [string, RequestInit];
+      expect(renewUrl).toEndWith("/usertoken/renew");
+      expect((renewInit.headers as Record<string, string>).Authorization).toBe("Bearer staff-1");
+      expect(renewInit.body).toBeUndefined();
+      expect(store.load("staff")).toMatchObject({ accessToken: "staff-2", refreshToken: null });
+    });
+
+    test("should fall back to the password when renewal fails", async () => {
+      const fetchFn = tokenFetch({
+        "/usertoken/issue": [
+          jsonResponse({ AccessToken: "staff-1", TokenType: "Bearer", ExpiresIn: 3600 }),
+          jsonResponse({ AccessToken: "staff-3", TokenType: "Bearer", ExpiresIn: 3600 }),
+        ],
+        "/usertoken/renew": [new Response("Renewal limit reached", { status: 400 })],
+      });
+      await new AuthService(testConfig, fetchFn as unknown as typeof fetch, store).getUserToken();
+      expireStoredToken("staff");
+      const consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+      const token = await new AuthService(testConfig, fetchFn as unknown as typeof fetch, store).getUserToken();
+
+      expect(token).toBe("staff-3");
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("client authorization", () => {
+    test("should build a sign-in URL for the site", () => {
+      const { url, state } = new AuthService(testConfig, undefined, store).getAuthorizationUrl("c-1");
+      const parsed = new URL(url);
+
+      expect(parsed.origin + parsed.pathname).toBe("https://signin.mindbodyonline.com/connect/authorize");
+      expect(parsed.searchParams.get("client_id")).toBe("oauth-client");
+      expect(parsed.searchParams.get("redirect_uri")).toBe("https://example.com/callback");
+      expect(parsed.searchParams.get("subscriberId")).toBe("123456");
+      expect(parsed.searchParams.get("scope")).toContain("offline_access");
+      expect(parsed.searchParams.get("state")).toBe(state);
+    });
+
+    test("should require OAuth settings", () => {
+      const { MBO_OAUTH_CLIENT_ID: _unused, ...unconfigured } = testConfig;
+
+      expect(() => new AuthService(unconfigured).getAuthorizationUrl("c-1")).toThrow("OAuth is not configured");
+    });
+
+    test("should exchange a code, store the tokens and refresh them when expired", async () => {
+      const fetchFn = tokenFetch({
+        "/connect/token": [
+          jsonResponse({ access_token: "client-1", token_type: "Bearer", expires_in: 3600, refresh_token: "client-refresh-1" }),
+          jsonResponse({ access_token: "client-2", token_type: "Bearer", expires_in: 3600, refresh_token: "client-refresh-2" }),
+        ],
+      });
+      const signIn = new AuthService(testConfig, fetchFn as unknown as typeof fetch, store);
+      const { state } = signIn.getAuthorizationUrl("c-1");
+      expect(await signIn.exchangeAuthorizationCode(state, "auth-code")).toMatchObject({ clientId: "c-1" });
+
+      const exchange = new URLSearchParams(String((fetchFn.mock.calls[0] as unknown as [string, RequestInit])[1].body));
+      expect(exchange.get("grant_type")).toBe("authorization_code");
+      expect(exchange.get("code")).toBe("auth-code");
+      expect(exchange.get("client_secret")).toBe("oauth-secret");
+
+      expireStoredToken("client:c-1");
+      const auth = new AuthService(testConfig, fetchFn as unknown as typeof fetch, store);
+
+      expect(await auth.getClientToken("c-1")).toBe("client-2");
+      const refresh = new URLSearchParams(String((fetchFn.mock.calls[1] as unknown as [string, RequestInit])[1].body));
+      expect(refresh.get("grant_type")).toBe("refresh_token");
+      expect(refresh.get("refresh_token")).toBe("client-refresh-1");
+      expect(store.load("client:c-1")?.refreshToken).toBe("client-refresh-2");
+    });
+
+    test("should only accept a state it issued, once", async () => {
+      const fetchFn = tokenFetch({
+        "/connect/token": [jsonResponse({ access_token: "client-1", token_type: "Bearer", expires_in: 3600 })],
+      });
+      const auth = new AuthService(testConfig, fetchFn as unknown as typeof fetch, store);
+      const { state } = auth.getAuthorizationUrl("c-1");
+
+      await expect(auth.exchangeAuthorizationCode("forged-state", "auth-code"))
+        .rejects.toThrow("Unknown or expired authorization state");
+      await auth.exchangeAuthorizationCode(state, "auth-code");
+      await expect(auth.exchangeAuthorizationCode(state, "auth-code"))
+        .rejects.toThrow("Unknown or expired authorization state");
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(store.load("client:c-1")?.accessToken).toBe("client-1");
+    });
+
+    test("should refuse to act for a client who has not signed in", async () => {
+      const auth = new AuthService(testConfig, undefined, store);
+
+      await expect(auth.getClientToken("c-9")).rejects.toThrow("Client c-9 has not authorized this app");
+      await expect(auth.getClientToken("c-9")).rejects.toBeInstanceOf(MindbodyAuthError);
+      await expect(auth.getClientToken("c-9")).rejects.toMatchObject({ code: "auth_failed", status: 401 });
+    });
+
+    test("should drop an expired authorization it cannot refresh", async () => {
+      store.save("client:c-2", { accessToken: "client-old", refreshToken: null, expiresAt: new Date(Date.now() - 1000) });
+      const auth = new AuthService(testConfig, undefined, store);
+
+      const error = await auth.getClientToken("c-2").catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(MindbodyAuthError);
+      expect((error as MindbodyAuthError).message).toContain("Authorization for client c-2 has expired");
+      expect(store.load("client:c-2")).toBeNull();
+    });
+
+    test("should book as the client user after completing authorization", async () => {
+      const authFetch = tokenFetch({
+        "/usertoken/issue": [jsonResponse({ AccessToken: "staff-1", TokenType: "Bearer", ExpiresIn: 3600 })],
+        "/connect/token": [jsonResponse({ access_token: "client-1", token_type: "Bearer", expires_in: 3600 })],
+      });
+      const auth = new AuthService(testConfig, authFetch as unknown as typeof fetch, store);
+      const apiClient = new MindbodyApiClient(testConfig, new RateLimitGuard(db, testConfig), auth);
+      const context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+
+      const started = parsePayload(await findCustomTool("start_client_authorization")!.handle({
+        client_id: "c-1",
+      }, context));
+      const completed = parsePayload(await findCustomTool("complete_client_authorization")!.handle({
+        state: started.state,
+        code: "auth-code",
+      }, context));
+      expect(completed).toMatchObject({ clientId: "c-1", authorized: true });
+      expect(JSON.stringify(completed)).not.toContain("client-1");
+
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+        Appointment: { Id: 42, StartDateTime: "2024-03-01T10:00:00", EndDateTime: "2024-03-01T11:00:00" },
+      }));
+      await findCustomTool("book_appointment")!.handle({
+        appointment: { ClientId: "c-1", LocationId: 1, SessionTypeId: 2, StaffId: 3, StartDateTime: "2024-03-01T10:00:00" },
+        act_as_client: true,
+        dry_run: false,
+      }, context);
+
+      const headers = (fetchMock.mock.calls[0]?.[1] as RequestInit).headers as Record<string, string>;
+      expect(headers.Authorization).toBe("Bearer client-1");
+      expect(authFetch.mock.calls.some(([url]) => String(url).endsWith("/usertoken/issue"))).toBe(false);
+
+      fetchMock.mockRestore();
+    });
+  });
+});
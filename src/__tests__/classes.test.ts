@@ -0,0 +1,169 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { transformClass, transformClassVisit, validateClassResponse } from "../types/class.js";
+import type { MindbodyClass } from "../types/class.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+const yogaClass = (id: number, start: string, overrides: Partial<MindbodyClass> = {}): MindbodyClass => ({
+  Id: id,
+  ClassScheduleId: 40,
+  StartDateTime: start,
+  EndDateTime: start.replace("T09", "T10"),
+  ClassDescription: { Id: 3, Name: "Vinyasa" },
+  Staff: { Id: 12, FirstName: "Ana" },
+  Location: { Id: 1 },
+  MaxCapacity: 20,
+  TotalBooked: 8,
+  IsCanceled: false,
+  ...overrides,
+});
+
+describe("class types", () => {
+  test("should flatten a class for storage", () => {
+    expect(transformClass(yogaClass(100, "2024-01-01T09:00:00"))).toMatchObject({
+      id: "100",
+      classScheduleId: "40",
+      classDescriptionId: "3",
+      name: "Vinyasa",
+      staffId: "12",
+      locationId: "1",
+      isCanceled: false,
+      maxCapacity: 20,
+      totalBooked: 8,
+    });
+  });
+
+  test("should fall back to the requested class ID for visits", () => {
+    expect(transformClassVisit({ Id: 9, ClientId: "c-1", SignedIn: true }, "100")).toMatchObject({
+      id: "9",
+      classId: "100",
+      clientId: "c-1",
+      signedIn: true,
+      missed: false,
+    });
+  });
+
+  test("should validate class responses", () => {
+    expect(validateClassResponse({ Classes: [yogaClass(1, "2024-01-01T09:00:00")] })).toBe(true);
+    expect(validateClassResponse({ Classes: [{ Id: "not-a-number" }] }, { logErrors: false })).toBe(false);
+  });
+});
+
+describe("Class sync", () => {
+  let db: DatabaseClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should cache the class schedule", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Classes: [
+        yogaClass(100, "2024-01-01T09:00:00"),
+        yogaClass(101, "2024-01-02T09:00:00", { IsCanceled: true }),
+      ],
+    }));
+
+    const payload = parsePayload(await findCustomTool("sync_classes")!.handle({ start_date: "2024-01-01" }, context));
+
+    expect(payload.saved).toBe(2);
+    expect(db.getClasses().map((c) => c.id)).toEqual(["100", "101"]);
+    expect(db.getClasses({ includeCanceled: false, endDate: "2024-01-01" }).map((c) => c.id)).toEqual(["100"]);
+    expect(db.getCacheSummary().classes).toBe(2);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should fetch visits for cached, booked, uncancelled classes", async () => {
+    db.saveClasses([
+      transformClass(yogaClass(100, "2024-01-01T09:00:00")),
+      transformClass(yogaClass(101, "2024-01-01T09:00:00", { IsCanceled: true })),
+      transformClass(yogaClass(102, "2024-01-01T09:00:00", { TotalBooked: 0 })),
+    ]);
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Class: { ...yogaClass(100, "2024-01-01T09:00:00"), Visits: [{ Id: 9, ClientId: "c-1", Missed: true }] },
+    }));
+
+    const payload = parsePayload(await findCustomTool("sync_class_visits")!.handle({
+      start_date: "2024-01-01",
+      end_date: "2024-01-01",
+    }, context));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(payload.classesSynced).toEqual(["100"]);
+    expect(db.getClassVisits({ clientId: "c-1" })).toMatchObject([{ id: "9", classId: "100", missed: true }]);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should stop fetching visits near the daily limit", async () => {
+    const today = new Date().toISOString().split("T")[0] as string;
+    for (let i = 0; i < testConfig.DAILY_API_LIMIT_OVERRIDE * 0.8; i++) {
+      db.incrementApiUsage(today);
+    }
+    const fetchMock = spyOn(global, "fetch");
+
+    const result = await context.syncService.syncClassVisits({ classIds: ["100", "101"] });
+
+    expect(result.complete).toBe(false);
+    expect(result.stoppedReason).toContain("2 classes left");
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockRestore();
+  });
+
+  test("should require class IDs or a date range", async () => {
+    await expect(findCustomTool("sync_class_visits")!.handle({}, context)).rejects.toThrow("Provide class_ids or start_date");
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import { buildMergePlan, clusterDuplicateClients } from "../mcp/tools/planClientMerges.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { transformAppointment } from "../types/appointment.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+const client = (
+  id: string,
+  fields: { firstName?: string; lastName?: string; email?: string; status?: string; phone?: string; created?: string }
+) => ({
+  id,
+  firstName: fields.firstName ?? null,
+  lastName: fields.lastName ?? null,
+  email: fields.email ?? null,
+  status: fields.status ?? "Active",
+  lastSyncedAt: "2024-01-01 00:00:00",
+  rawData: { Id: id, MobilePhone: fields.phone, CreationDate: fields.created },
+});
+
+describe("duplicate clustering", () => {
+  test("should link records transitively and score the weakest link", () => {
+    const clusters = clusterDuplicateClients([
+      client("1", { firstName: "Jane", lastName: "Doe", email: "jane@example.com" }),
+      client("2", { firstName: "jane", lastName: "doe", email: "JANE@example.com", phone: "555-123-4567" }),
+      client("3", { firstName: "J", lastName: "Doe", phone: "(555) 123 4567" }),
+      client("4", { firstName: "Someone", lastName: "Else", email: "else@example.com" }),
+    ]);
+
+    expect(clusters).toEqual([{ clientIds: ["1", "2", "3"], score: 0.3, matchedOn: ["email", "phone", "name"] }]);
+  });
+
+  test("should rank an email match above a shared name", () => {
+    const clusters = clusterDuplicateClients([
+      client("1", { firstName: "Sam", lastName: "Lee" }),
+      client("2", { firstName: "Sam", lastName: "Lee" }),
+      client("3", { firstName: "A", lastName: "B", email: "ab@example.com" }),
+      client("4", { firstName: "C", lastName: "D", email: "ab@example.com" }),
+    ]);
+
+    expect(clusters.map((cluster) => [cluster.clientIds, cluster.score])).toEqual([
+      [["3", "4"], 0.5],
+      [["1", "2"], 0.2],
+    ]);
+  });
+
+  test("should keep the active, busiest record as survivor", () => {
+    const clients = [
+      client("1", { firstName: "Jane", lastName: "Doe", status: "Inactive" }),
+      client("2", { firstName: "Jane", lastName: "Doe", created: "2020-01-01T00:00:00" }),
+      client("3", { firstName: "Jane", lastName: "Doe", created: "2018-01-01T00:00:00" }),
+    ];
+    const linked = new Map([
+      ["1", { saleIds: ["s-1", "s-2", "s-3"], appointmentIds: [] }],
+      ["2", { saleIds: ["s-4"], appointmentIds: ["a-1"] }],
+      ["3", { saleIds: [], appointmentIds: ["a-2", "a-3"] }],
+    ]);
+
+    const [entry] = buildMergePlan(clusterDuplicateClients(clients), clients, linked);
+
+    expect(entry?.survivor).toMatchObject({ id: "3", reason: "active, 2 linked records, created 2018-01-01" });
+    expect(entry?.merge.map((record) => [record.id, record.matchedOn])).toEqual([["2", ["name"]], ["1", ["name"]]]);
+    expect(entry).toMatchObject({ salesToRepoint: 4, appointmentsToRepoint: 1 });
+  });
+
+  test("should not merge records chained to the survivor only through another member", () => {
+    const clients = [
+      client("1", { firstName: "Jane", lastName: "Doe", email: "jane@example.com" }),
+      client("2", { firstName: "Jane", lastName: "Doe", email: "jane@example.com", phone: "555-123-4567" }),
+      client("3", { firstName: "Mark", lastName: "Smith", phone: "555-123-4567" }),
+    ];
+    const linked = new Map([["1", { saleIds: ["s-1"], appointmentIds: [] }]]);
+
+    const clusters = clusterDuplicateClients(clients);
+    expect(clusters[0]?.clientIds).toEqual(["1", "2", "3"]);
+
+    const [entry] = buildMergePlan(clusters, clients, linked, 0.5);
+    expect(entry?.survivor.id).toBe("1");
+    expect(entry?.merge.map((record) => record.id)).toEqual(["2"]);
+    expect(entry?.review).toMatchObject([{ id: "3", score: 0, matchedOn: [] }]);
+  });
+});
+
+describe("plan_client_merges", () => {
+  let db: DatabaseClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      new Response(JSON.stringify({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 }))
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`, `${testConfig.DATA_DIR}/client_merge_plan.json`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should write a merge plan with the sales and appointments to re-point", async () => {
+    db.saveClients([
+      { id: "1", firstName: "Jane", lastName: "Doe", email: "jane@example.com", status: "Active", rawData: { Id: "1" } },
+      { id: "2", firstName: "Jane", lastName: "Doe", email: "jane@example.com", status: "Active", rawData: { Id: "2" } },
+      { id: "3", firstName: "Max", lastName: "Roe", status: "Active", rawData: { Id: "3" } },
+      { id: "4", firstName: "Max", lastName: "Roe", status: "Inactive", rawData: { Id: "4" } },
+    ]);
+    db.saveSales([
+      { id: "s-1", saleDate: "2024-01-01", clientId: "1", totalAmount: 10, rawData: {} },
+      { id: "s-2", saleDate: "2024-01-02", clientId: "2", totalAmount: 20, rawData: {} },
+      { id: "s-3", saleDate: "2024-01-03", clientId: "2", totalAmount: 30, rawData: {} },
+      { id: "s-4", saleDate: "2024-01-04", clientId: "2", totalAmount: 40, rawData: {} },
+    ]);
+    db.saveAppointment(transformAppointment({
+      Id: 7,
+      StartDateTime: "2024-01-05T10:00:00",
+      EndDateTime: "2024-01-05T11:00:00",
+      ClientId: "1",
+    }));
+
+    const payload = parsePayload(await findCustomTool("plan_client_merges")!.handle({ min_score: 0.5 }, context));
+
+    expect(payload).toMatchObject({
+      clientsScanned: 4,
+      clusters: 1,
+      recordsToMerge: 1,
+      salesToRepoint: 1,
+      appointmentsToRepoint: 1,
+    });
+    expect(payload.plan[0].survivor).toMatchObject({ id: "2", saleIds: ["s-2", "s-3", "s-4"] });
+    expect(payload.plan[0].merge[0]).toMatchObject({ id: "1", saleIds: ["s-1"], appointmentIds: ["7"] });
+    expect(JSON.parse(await Bun.file(payload.file).text())).toHaveLength(1);
+  });
+
+  test("should not propose name-only matches by default", async () => {
+    db.saveClients([
+      { id: "3", firstName: "Max", lastName: "Roe", status: "Active", rawData: { Id: "3" } },
+      { id: "4", firstName: "Max", lastName: "Roe", status: "Active", rawData: { Id: "4" } },
+    ]);
+
+    const payload = parsePayload(await findCustomTool("plan_client_merges")!.handle({}, context));
+
+    expect(payload).toMatchObject({ clusters: 0, recordsToMerge: 0 });
+  });
+
+  test("should skip inactive clients when asked", async () => {
+    db.saveClients([
+      { id: "3", firstName: "Max", lastName: "Roe", status: "Active", rawData: { Id: "3" } },
+      { id: "4", firstName: "Max", lastName: "Roe", status: "Inactive", rawData: { Id: "4" } },
+    ]);
+
+    const payload = parsePayload(await findCustomTool("plan_client_merges")!.handle({
+      include_inactive: false,
+    }, context));
+
+    expect(payload).toMatchObject({ clientsScanned: 1, clusters: 0 });
+  });
+});
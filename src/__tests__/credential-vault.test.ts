@@ -0,0 +1,210 @@
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import { CredentialVault, VAULT_FILE, findVaultKey, storeVaultKey } from "../services/credentialVault.js";
+import { AuthService } from "../services/auth.js";
+import { SiteRegistry } from "../services/siteRegistry.js";
+import { loadConfig } from "../config.js";
+import type { Config } from "../config.js";
+import { existsSync, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { rm, unlink } from "fs/promises";
+
+describe("Credential vault", () => {
+  const DATA_DIR = "./test-data";
+  const MASTER_KEY = "vault-master-key-for-tests";
+  const vaultPath = `${DATA_DIR}/${VAULT_FILE}`;
+  const sitesFile = `${DATA_DIR}/vault-sites.json`;
+
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "env-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR,
+    DAILY_API_LIMIT_OVERRIDE: 950,
+    MBO_VAULT_KEY: MASTER_KEY,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  /** Token fetch that records the password each issue call sent */
+  const issueFetch = (passwords: string[]) =>
+    mock(async (_url: string, init?: RequestInit) => {
+      passwords.push(JSON.parse(String(init?.body)).Password);
+      return jsonResponse({ AccessToken: `token-${passwords.length}`, TokenType: "Bearer", ExpiresIn: 3600 });
+    });
+
+  beforeEach(async () => {
+    await Bun.write(`${DATA_DIR}/.gitkeep`, "");
+  });
+
+  afterEach(async () => {
+    const dbPath = `${DATA_DIR}/mindbody.db`;
+    for (const path of [
+      vaultPath,
+      `${DATA_DIR}/.vault-key`,
+      `${DATA_DIR}/.token-key`,
+      sitesFile,
+      dbPath,
+      `${dbPath}-shm`,
+      `${dbPath}-wal`,
+    ]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+    await rm(`${DATA_DIR}/sites`, { recursive: true, force: true });
+  });
+
+  test("should store entries encrypted and read them back", () => {
+    const vault = new CredentialVault(vaultPath, MASTER_KEY);
+    vault.set("MBO_STAFF_PASSWORD", "s3cret-staff-pass");
+    vault.set("site:555/MBO_STAFF_PASSWORD", "uptown-pass");
+
+    const raw = readFileSync(vaultPath, "utf-8");
+    expect(raw).not.toContain("s3cret-staff-pass");
+    expect(raw).not.toContain("MBO_STAFF_PASSWORD");
+    expect(statSync(vaultPath).mode & 0o777).toBe(0o600);
+
+    const reopened = new CredentialVault(vaultPath, MASTER_KEY);
+    expect(reopened.list()).toEqual(["MBO_STAFF_PASSWORD", "site:555/MBO_STAFF_PASSWORD"]);
+    expect(reopened.get("MBO_STAFF_PASSWORD")).toBe("s3cret-staff-pass");
+
+    expect(reopened.delete("site:555/MBO_STAFF_PASSWORD")).toBe(true);
+    expect(reopened.delete("site:555/MBO_STAFF_PASSWORD")).toBe(false);
+    expect(new CredentialVault(vaultPath, MASTER_KEY).list()).toEqual(["MBO_STAFF_PASSWORD"]);
+  });
+
+  test("should refuse to unlock with the wrong key", () => {
+    new CredentialVault(vaultPath, MASTER_KEY).set("MBO_API_KEY", "live-key");
+
+    expect(() => new CredentialVault(vaultPath, "some-other-master-key").get("MBO_API_KEY")).toThrow(
+      "wrong master key or corrupted file"
+    );
+  });
+
+  test("should reject malformed entry names and empty values", () => {
+    const vault = new CredentialVault(vaultPath, MASTER_KEY);
+
+    expect(() => vault.set("staff password", "x")).toThrow("Invalid entry name");
+    expect(() => vault.set("site:abc/MBO_STAFF_PASSWORD", "x")).toThrow("Invalid entry name");
+    expect(() => vault.set("MBO_STAFF_PASSWORD", "")).toThrow("empty value");
+    expect(existsSync(vaultPath)).toBe(false);
+  });
+
+  test("should re-encrypt every entry when the master key rotates", () => {
+    const vault = new CredentialVault(vaultPath, MASTER_KEY);
+    vault.set("MBO_STAFF_PASSWORD", "staff-pass");
+    vault.rotateKey("a-brand-new-master-key");
+
+    expect(() => new CredentialVault(vaultPath, MASTER_KEY).list()).toThrow("Could not unlock");
+    expect(new CredentialVault(vaultPath, "a-brand-new-master-key").get("MBO_STAFF_PASSWORD")).toBe("staff-pass");
+  });
+
+  test("should find the master key in the environment before the key file", () => {
+    const options = { dataDir: DATA_DIR };
+    expect(CredentialVault.openIfPresent(options)).toBeNull();
+    expect(findVaultKey(options)).toBeNull();
+
+    expect(storeVaultKey(options, "file-master-key-123")).toBe("file");
+    expect(statSync(`${DATA_DIR}/.vault-key`).mode & 0o777).toBe(0o600);
+    expect(findVaultKey(options)).toEqual({ key: "file-master-key-123", source: "file" });
+    expect(findVaultKey({ ...options, masterKey: MASTER_KEY })).toEqual({ key: MASTER_KEY, source: "env" });
+
+    new CredentialVault(vaultPath, "file-master-key-123").set("MBO_API_KEY", "live-key");
+    expect(CredentialVault.openIfPresent(options)?.get("MBO_API_KEY")).toBe("live-key");
+
+    unlinkSync(`${DATA_DIR}/.vault-key`);
+    expect(() => CredentialVault.openIfPresent(options)).toThrow("is locked");
+  });
+
+  test("should scope site entries and share unscoped ones with the default site only", () => {
+    const vault = new CredentialVault(vaultPath, MASTER_KEY);
+    vault.set("MBO_STAFF_PASSWORD", "default-pass");
+    vault.set("site:555/MBO_STAFF_PASSWORD", "uptown-pass");
+
+    expect(vault.forSite("123456", true).get("MBO_STAFF_PASSWORD")).toBe("default-pass");
+    expect(vault.forSite("555", false).get("MBO_STAFF_PASSWORD")).toBe("uptown-pass");
+    expect(vault.forSite("777", false).get("MBO_STAFF_PASSWORD")).toBeUndefined();
+  });
+
+  test("should let vault secrets override the environment in loadConfig", () => {
+    const vault = new CredentialVault(vaultPath, MASTER_KEY);
+    vault.set("MBO_STAFF_PASSWORD", "vault-pass");
+    vault.set("DATA_DIR", "/somewhere/else");
+
+    const saved = { ...process.env };
+    try {
+      Object.assign(process.env, {
+        MBO_API_KEY: "test-api-key",
+        MBO_STAFF_PASSWORD: "env-pass",
+        DATA_DIR,
+        MBO_VAULT_KEY: MASTER_KEY,
+      });
+
+      const config = loadConfig();
+      expect(config.MBO_STAFF_PASSWORD).toBe("vault-pass");
+      expect(config.DATA_DIR).toBe(DATA_DIR);
+    } finally {
+      for (const key of Object.keys(process.env)) {
+        if (!(key in saved)) {
+          delete process.env[key];
+        }
+      }
+      Object.assign(process.env, saved);
+    }
+  });
+
+  test("should issue staff tokens with the password rotated in the vault", async () => {
+    const vault = new CredentialVault(vaultPath, MASTER_KEY);
+    vault.set("MBO_STAFF_PASSWORD", "first-pass");
+
+    const passwords: string[] = [];
+    const auth = new AuthService(
+      testConfig,
+      issueFetch(passwords) as unknown as typeof fetch,
+      undefined,
+      vault.forSite("123456", true)
+    );
+    await auth.getUserToken();
+
+    // Another process (the vault CLI) rotates the password
+    new CredentialVault(vaultPath, MASTER_KEY).set("MBO_STAFF_PASSWORD", "second-pass");
+    auth.invalidateToken();
+    await auth.getUserToken();
+
+    expect(passwords).toEqual(["first-pass", "second-pass"]);
+  });
+
+  test("should resolve passwords for sites listed without one", async () => {
+    new CredentialVault(vaultPath, MASTER_KEY).set("site:555/MBO_STAFF_PASSWORD", "uptown-pass");
+    writeFileSync(
+      sitesFile,
+      JSON.stringify([
+        { siteId: "555", staffUsername: "uptown-owner" },
+        { siteId: "777", staffUsername: "east-owner" },
+      ])
+    );
+
+    const passwords: string[] = [];
+    const registry = new SiteRegistry(
+      { ...testConfig, MBO_SITES_FILE: sitesFile },
+      issueFetch(passwords) as unknown as typeof fetch
+    );
+    try {
+      await registry.get("555").apiClient.getAuthService()?.getUserToken();
+      expect(passwords).toEqual(["uptown-pass"]);
+
+      await expect(registry.get("777").apiClient.getAuthService()?.getUserToken()).rejects.toThrow(
+        "No staff password for site 777"
+      );
+    } finally {
+      registry.close();
+    }
+  });
+});
+
@@ -1,5 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { DatabaseClient } from "../db/client.js";
+import { transformAppointment, transformBookableItem } from "../types/appointment.js";
+import type { MindbodyAppointment } from "../types/appointment.js";
 import type { Config } from "../config.js";
 import { unlink } from "fs/promises";
 import { existsSync } from "fs";
@@ -367,6 +369,13 @@ describe("DatabaseClient", () => {
       expect(summary).toEqual({
         clients: 0,
         sales: 0,
+        appointments: 0,
+        bookableItems: 0,
+        classes: 0,
+        classVisits: 0,
+        staff: 0,
+        clientContracts: 0,
+        clientServices: 0,
         lastSync: null,
       });
     });
@@ -389,4 +398,57 @@ describe("DatabaseClient", () => {
       expect(summary.lastSync).not.toBeNull();
     });
   });
+
+  describe("appointments", () => {
+    const appointment = (id: number, start: string, overrides: Partial<MindbodyAppointment> = {}) =>
+      transformAppointment({
+        Id: id,
+        StartDateTime: start,
+        EndDateTime: start.replace("T10", "T11"),
+        ClientId: "client-1",
+        StaffId: 7,
+        Status: "Booked",
+        ...overrides,
+      });
+
+    test("should save and query appointments by date range", () => {
+      db.saveAppointments([
+        appointment(1, "2024-01-01T10:00:00"),
+        appointment(2, "2024-01-02T10:00:00"),
+        appointment(3, "2024-01-03T10:00:00"),
+      ]);
+
+      const appointments = db.getAppointments({ startDate: "2024-01-02", endDate: "2024-01-03" });
+
+      expect(appointments.map((a) => a.id)).toEqual(["2", "3"]);
+      expect(appointments[0]?.staffId).toBe("7");
+      expect(appointments[0]?.rawData.Id).toBe(2);
+    });
+
+    test("should filter by client and status and upsert changes", () => {
+      db.saveAppointments([
+        appointment(1, "2024-01-01T10:00:00"),
+        appointment(2, "2024-01-02T10:00:00", { ClientId: "client-2" }),
+      ]);
+      db.saveAppointment(appointment(1, "2024-01-01T10:00:00", { Status: "Cancelled" }));
+
+      expect(db.getAppointments({ clientId: "client-1", status: "Cancelled" }).map((a) => a.id)).toEqual(["1"]);
+      expect(db.getCacheSummary().appointments).toBe(2);
+    });
+  });
+
+  describe("bookable items", () => {
+    test("should save and query bookable items by session type", () => {
+      db.saveBookableItems([
+        transformBookableItem({ Id: "b-1", Name: "Cut", SessionType: { Id: "10" }, ProgramId: "p-1" }),
+        transformBookableItem({ Id: "b-2", Name: "Colour", SessionType: { Id: "20" } }),
+      ]);
+
+      const items = db.getBookableItems({ sessionTypeId: "10" });
+
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ id: "b-1", name: "Cut", sessionTypeId: "10", programId: "p-1" });
+      expect(db.getCacheSummary().bookableItems).toBe(2);
+    });
+  });
 });
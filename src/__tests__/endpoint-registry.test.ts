@@ -0,0 +1,205 @@
+import { describe, test, expect, beforeAll } from "bun:test";
+import { loadOpenApiSpec, toJsonSchema } from "../metadata/openapi.js";
+import type { OpenApiSpec } from "../metadata/openapi.js";
+import { EndpointRegistry, toRequestOptions, toSnakeCase } from "../metadata/registry.js";
+import { generateTools, buildInputSchema } from "../mcp/toolGenerator.js";
+import { customTools } from "../mcp/tools/index.js";
+
+describe("EndpointRegistry", () => {
+  let spec: OpenApiSpec;
+  let registry: EndpointRegistry;
+
+  beforeAll(async () => {
+    spec = await loadOpenApiSpec();
+    registry = EndpointRegistry.fromOpenApiSpec(spec);
+  });
+
+  describe("fromOpenApiSpec", () => {
+    test("should register one endpoint per operation except user tokens", () => {
+      let operations = 0;
+      for (const [path, pathItem] of Object.entries(spec.paths)) {
+        if (!path.includes("/usertoken/")) {
+          operations += Object.keys(pathItem).length;
+        }
+      }
+
+      expect(registry.size).toBe(operations);
+      expect(registry.list("usertoken")).toHaveLength(0);
+    });
+
+    test("should strip the version prefix from paths", () => {
+      const endpoint = registry.get("get_clients");
+
+      expect(endpoint?.path).toBe("/client/clients");
+      expect(endpoint?.method).toBe("GET");
+      expect(endpoint?.category).toBe("client");
+      expect(endpoint?.mutating).toBe(false);
+      expect(endpoint?.paginated).toBe(true);
+    });
+
+    test("should prefix duplicate operation names with their category", () => {
+      expect(registry.has("remove_from_waitlist")).toBe(false);
+      expect(registry.get("appointment_remove_from_waitlist")?.method).toBe("DELETE");
+      expect(registry.get("class_remove_from_waitlist")?.method).toBe("POST");
+    });
+
+    test("should drop header and version parameters", () => {
+      const endpoint = registry.get("get_clients");
+      const names = endpoint?.parameters.map((param) => param.name) ?? [];
+
+      expect(names).toContain("clientIDs");
+      expect(names).toContain("lastModifiedDate");
+      expect(names).not.toContain("authorization");
+      expect(names).not.toContain("siteId");
+      expect(names).not.toContain("version");
+    });
+
+    test("should flatten object request bodies into arguments", () => {
+      const endpoint = registry.get("update_client");
+      const client = endpoint?.parameters.find((param) => param.name === "Client");
+
+      expect(endpoint?.bodyMode).toBe("properties");
+      expect(client?.location).toBe("body");
+      expect(client?.required).toBe(true);
+      expect(client?.schema.type).toBe("object");
+      expect(client?.schema.properties?.Id).toBeDefined();
+    });
+
+    test("should keep array request bodies as a single argument", () => {
+      const endpoint = registry.get("update_products");
+
+      expect(endpoint?.bodyMode).toBe("raw");
+      expect(endpoint?.parameters).toHaveLength(1);
+      expect(endpoint?.parameters[0]?.schema.type).toBe("array");
+    });
+
+    test("should reject duplicate registrations", () => {
+      const endpoint = registry.get("get_clients");
+      expect(() => registry.register(endpoint!)).toThrow("Endpoint already registered");
+    });
+  });
+
+  describe("toJsonSchema", () => {
+    test("should collapse recursive references", () => {
+      const recursive: OpenApiSpec = {
+        swagger: "2.0",
+        info: { version: "v6", title: "test" },
+        paths: {},
+        definitions: {
+          Node: {
+            type: "object",
+            properties: {
+              Name: { type: "string" },
+              Child: { $ref: "#/definitions/Node" },
+            },
+          },
+        },
+      };
+
+      const schema = toJsonSchema(recursive, { $ref: "#/definitions/Node" });
+
+      expect(schema.properties?.Name?.type).toBe("string");
+      expect(schema.properties?.Child).toEqual({ type: "object" });
+    });
+  });
+
+  describe("toRequestOptions", () => {
+    test("should map query arguments to their API names", () => {
+      const endpoint = registry.get("get_clients")!;
+      const options = toRequestOptions(endpoint, {
+        clientIDs: ["1", "2"],
+        limit: 50,
+        unknown: "ignored",
+      });
+
+      expect(options.method).toBe("GET");
+      expect(options.endpoint).toBe("/client/clients");
+      expect(options.params).toEqual({
+        "request.clientIDs": ["1", "2"],
+        "request.limit": 50,
+      });
+      expect(options.body).toBeUndefined();
+      expect(options.force).toBe(false);
+    });
+
+    test("should substitute path parameters", () => {
+      const endpoint = registry.get("update_class_schedule_notes")!;
+      const options = toRequestOptions(endpoint, { classScheduleId: 42, Notes: "Bring mats" });
+
+      expect(options.method).toBe("PATCH");
+      expect(options.endpoint).toBe("/class/updateclassschedulenotes/42");
+    });
+
+    test("should throw when a path parameter is missing", () => {
+      const endpoint = registry.get("update_class_schedule_notes")!;
+      expect(() => toRequestOptions(endpoint, {})).toThrow("Missing path parameter");
+    });
+
+    test("should assemble body properties", () => {
+      const endpoint = registry.get("update_client")!;
+      const options = toRequestOptions(endpoint, {
+        Client: { Id: "100", FirstName: "Jane" },
+        Test: true,
+        force: true,
+      });
+
+      expect(options.body).toEqual({ Client: { Id: "100", FirstName: "Jane" }, Test: true });
+      expect(options.force).toBe(true);
+    });
+
+    test("should send raw bodies as-is", () => {
+      const endpoint = registry.get("update_products")!;
+      const options = toRequestOptions(endpoint, {
+        updateProductsRequests: [{ Barcode: "123", Price: 10 }],
+      });
+
+      expect(options.body).toEqual([{ Barcode: "123", Price: 10 }]);
+    });
+  });
+
+  describe("generateTools", () => {
+    test("should generate a tool for every endpoint", () => {
+      const tools = generateTools(registry);
+
+      expect(tools).toHaveLength(registry.size);
+      expect(new Set(tools.map((tool) => tool.name)).size).toBe(tools.length);
+    });
+
+    test("should not share a name with a custom tool", () => {
+      const names = [
+        ...customTools.map((tool) => tool.definition.name),
+        ...generateTools(registry).map((tool) => tool.name),
+      ];
+
+      expect(names.filter((name, index) => names.indexOf(name) !== index)).toEqual([]);
+    });
+
+    test("should filter by category", () => {
+      const tools = generateTools(registry, "staff");
+
+      expect(tools.length).toBeGreaterThan(0);
+      expect(tools.every((tool) => registry.get(tool.name)?.category === "staff")).toBe(true);
+    });
+
+    test("should include method, path and force in each tool", () => {
+      const tool = generateTools(registry).find((t) => t.name === "get_clients");
+
+      expect(tool?.description).toStartWith("[GET /client/clients]");
+      expect(tool?.inputSchema.properties.force?.type).toBe("boolean");
+      expect(tool?.inputSchema.properties.clientIDs?.type).toBe("array");
+    });
+
+    test("should list required arguments", () => {
+      const schema = buildInputSchema(registry.get("update_client")!);
+      expect(schema.required).toContain("Client");
+    });
+  });
+
+  describe("toSnakeCase", () => {
+    test("should convert operation IDs", () => {
+      expect(toSnakeCase("GetClients")).toBe("get_clients");
+      expect(toSnakeCase("GetStaffImageURL")).toBe("get_staff_image_url");
+      expect(toSnakeCase("AddAppointmentAddOn")).toBe("add_appointment_add_on");
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { GenericToolHandler } from "../mcp/handlers/genericToolHandler.js";
+import { EndpointRegistry } from "../metadata/registry.js";
+import { loadOpenApiSpec } from "../metadata/openapi.js";
+import { jsonSchemaToZod, validateResponse } from "../metadata/validation.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("GenericToolHandler", () => {
+  let registry: EndpointRegistry;
+  let handler: GenericToolHandler;
+  let db: DatabaseClient;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  beforeAll(async () => {
+    registry = EndpointRegistry.fromOpenApiSpec(await loadOpenApiSpec());
+  });
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    handler = new GenericToolHandler(registry, apiClient);
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    if (existsSync(dbPath)) {
+      await unlink(dbPath);
+    }
+    if (existsSync(`${dbPath}-shm`)) {
+      await unlink(`${dbPath}-shm`);
+    }
+    if (existsSync(`${dbPath}-wal`)) {
+      await unlink(`${dbPath}-wal`);
+    }
+  });
+
+  test("should call the endpoint and return data without warnings", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+      jsonResponse({
+        PaginationResponse: { RequestedLimit: 10, RequestedOffset: 0, PageSize: 1, TotalResults: 1 },
+        Clients: [{ Id: "100", FirstName: "Jane", Email: null }],
+      })
+    );
+
+    const result = await handler.handle("get_clients", { limit: 10, clientIDs: ["100"] });
+    const payload = parsePayload(result);
+
+    expect(result.isError).toBeUndefined();
+    expect(payload.tool).toBe("get_clients");
+    expect(payload.data.Clients[0].Id).toBe("100");
+    expect(payload.warnings).toBeUndefined();
+
+    const url = String(fetchMock.mock.calls[0]?.[0]);
+    expect(url).toContain("/client/clients?");
+    expect(url).toContain("request.limit=10");
+    expect(url).toContain("request.clientIDs=100");
+
+    fetchMock.mockRestore();
+  });
+
+  test("should report unknown response fields as schema drift warnings", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+      jsonResponse({
+        Clients: [{ Id: "100", BrandNewField: "surprise" }],
+      })
+    );
+
+    const result = await handler.handle("get_clients", {});
+    const payload = parsePayload(result);
+
+    expect(result.isError).toBeUndefined();
+    expect(payload.data.Clients[0].BrandNewField).toBe("surprise");
+    expect(payload.warnings[0].type).toBe("schema_drift");
+    expect(payload.warnings[0].issues).toContainEqual({
+      path: "Clients.0.BrandNewField",
+      code: "unexpected_field",
+      message: "Field is not declared in the API spec",
+    });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should reject invalid arguments without calling the API", async () => {
+    const fetchMock = spyOn(global, "fetch");
+
+    const result = await handler.handle("get_clients", { limit: "ten", bogus: true });
+    const payload = parsePayload(result);
+
+    expect(result.isError).toBe(true);
+    expect(payload.error).toBe("invalid_arguments");
+    expect(payload.issues.map((issue: { path: string }) => issue.path)).toEqual(
+      expect.arrayContaining(["limit", "bogus"])
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockRestore();
+  });
+
+  test("should require body arguments marked required in the spec", async () => {
+    const result = await handler.handle("update_client", { Test: true });
+    const payload = parsePayload(result);
+
+    expect(result.isError).toBe(true);
+    expect(payload.issues[0].path).toBe("Client");
+  });
+
+  test("should send body arguments as JSON", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+      jsonResponse({ Client: { Id: "100" } })
+    );
+
+    await handler.handle("update_client", { Client: { Id: "100", FirstName: "Jane" }, Test: true });
+
+    const init = fetchMock.mock.calls[0]?.[1] as RequestInit;
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(String(init.body))).toEqual({
+      Client: { Id: "100", FirstName: "Jane" },
+      Test: true,
+    });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should handle empty 204 responses", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const result = await handler.handle("delete_client_formula_note", { clientId: "100", formulaNoteId: 1 });
+    const payload = parsePayload(result);
+
+    expect(payload.data).toBeNull();
+
+    fetchMock.mockRestore();
+  });
+
+  test("should throw for unknown tools", async () => {
+    expect(handler.canHandle("not_a_tool")).toBe(false);
+    await expect(handler.handle("not_a_tool")).rejects.toThrow("Unknown tool");
+  });
+});
+
+describe("validateResponse", () => {
+  const schema = jsonSchemaToZod({
+    type: "object",
+    properties: {
+      Id: { type: "integer" },
+      Status: { type: "string", enum: ["Active", "Inactive"] },
+    },
+  }, "response");
+
+  test("should accept nulls for any field", () => {
+    expect(validateResponse(schema, { Id: null, Status: null })).toEqual([]);
+  });
+
+  test("should report type and enum mismatches", () => {
+    const warnings = validateResponse(schema, { Id: "abc", Status: "Suspended" });
+
+    expect(warnings.map((warning) => warning.path)).toEqual(["Id", "Status"]);
+  });
+});
@@ -8,6 +8,7 @@ import {
 import { MindbodyApiClient } from "../services/mindbody.js";
 import { DatabaseClient } from "../db/client.js";
 import { RateLimitGuard } from "../services/rateLimit.js";
+import { transformAppointment, transformBookableItem } from "../types/appointment.js";
 import type { Config } from "../config.js";
 import { unlink } from "fs/promises";
 import { existsSync } from "fs";
@@ -286,6 +287,21 @@ describe("MCP Resources", () => {
       expect(data.status).toBe("populated");
     });
 
+    test("should report appointment and bookable item counts", () => {
+      db.saveAppointment(transformAppointment({
+        Id: 1,
+        StartDateTime: "2024-01-01T10:00:00",
+        EndDateTime: "2024-01-01T11:00:00",
+      }));
+      db.saveBookableItem(transformBookableItem({ Id: "b-1" }));
+
+      const data = JSON.parse(getCacheSummary(db).text);
+
+      expect(data.appointments.total).toBe(1);
+      expect(data.bookableItems.total).toBe(1);
+      expect(data.status).toBe("populated");
+    });
+
     test("should include lastSync timestamp", () => {
       db.saveClient({ id: "client-1", rawData: {} });
 
@@ -305,7 +321,7 @@ describe("MCP Resources", () => {
       const resources = listResources();
 
       expect(Array.isArray(resources)).toBe(true);
-      expect(resources).toHaveLength(3);
+      expect(resources).toHaveLength(12);
     });
 
     test("should include quota status resource", () => {
@@ -0,0 +1,202 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { transformClientContract, transformClientService } from "../types/contract.js";
+import type { ClientContract, ClientService } from "../types/contract.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+const contract = (id: number, overrides: Partial<ClientContract> = {}): ClientContract => ({
+  Id: id,
+  ContractID: 900,
+  ContractName: "Unlimited Monthly",
+  StartDate: "2024-01-01T00:00:00",
+  EndDate: "2024-12-31T00:00:00",
+  AutopayStatus: "Active",
+  AutoRenewing: true,
+  ...overrides,
+});
+
+const service = (id: number, overrides: Partial<ClientService> = {}): ClientService => ({
+  Id: id,
+  Name: "10 Class Pack",
+  Program: { Id: 2, Name: "Yoga" },
+  ActiveDate: "2024-01-01T00:00:00",
+  ExpirationDate: "2024-06-30T00:00:00",
+  Count: 10,
+  Remaining: 4,
+  Current: true,
+  Returned: false,
+  ...overrides,
+});
+
+describe("membership types", () => {
+  test("should attach the owning client to contracts", () => {
+    expect(transformClientContract(contract(1), "c-1")).toMatchObject({
+      id: "1",
+      clientId: "c-1",
+      contractId: "900",
+      name: "Unlimited Monthly",
+      autoRenewing: true,
+    });
+  });
+
+  test("should flatten the program of a pricing option", () => {
+    expect(transformClientService(service(5), "c-1")).toMatchObject({
+      id: "5",
+      clientId: "c-1",
+      programId: "2",
+      remaining: 4,
+      current: true,
+      returned: false,
+    });
+  });
+});
+
+describe("Memberships", () => {
+  let db: DatabaseClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should sync services per batch and contracts per client", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({
+        ClientServices: [service(5, { ClientID: "c-1" }), service(6, { ClientID: "c-2", Remaining: 1 })],
+      }))
+      .mockResolvedValueOnce(jsonResponse({ Contracts: [contract(1)] }))
+      .mockResolvedValueOnce(jsonResponse({ Contracts: [] }));
+
+    const result = await context.syncService.syncMemberships({ clientIds: ["c-1", "c-2"] });
+
+    expect(result).toMatchObject({ fetched: 3, saved: 3, apiCalls: 3, complete: true, clientsSynced: ["c-1", "c-2"] });
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain("ClientIds=c-1%2Cc-2");
+    expect(String(fetchMock.mock.calls[2]?.[0])).toContain("ClientId=c-2");
+    expect(db.getClientServices("c-2").map((row) => row.remaining)).toEqual([1]);
+    expect(db.getClientContracts("c-1")).toHaveLength(1);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should attribute services without ClientID only for single-client batches", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ ClientServices: [service(5)] }));
+
+    await context.syncService.syncMemberships({ clientIds: ["c-1"], includeContracts: false });
+
+    expect(db.getClientServices("c-1").map((row) => row.id)).toEqual(["5"]);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should replace a client's rows on resync", () => {
+    db.saveClientServices(["c-1"], [transformClientService(service(5), "c-1")]);
+    db.saveClientServices(["c-1"], [transformClientService(service(7), "c-1")]);
+    db.saveClientContracts("c-1", [transformClientContract(contract(1), "c-1")]);
+    db.saveClientContracts("c-1", []);
+
+    expect(db.getClientServices("c-1").map((row) => row.id)).toEqual(["7"]);
+    expect(db.getClientContracts("c-1")).toEqual([]);
+  });
+
+  test("should stop before the sync reserve", async () => {
+    const today = new Date().toISOString().split("T")[0] as string;
+    for (let i = 0; i < testConfig.DAILY_API_LIMIT_OVERRIDE * 0.8; i++) {
+      db.incrementApiUsage(today);
+    }
+
+    const result = await context.syncService.syncMemberships({ clientIds: ["c-1", "c-2"] });
+
+    expect(result.complete).toBe(false);
+    expect(result.stoppedReason).toContain("2 clients left");
+    expect(result.apiCalls).toBe(0);
+  });
+
+  test("should only count active contracts and pricing options", () => {
+    db.saveClient({ id: "c-1", firstName: "Ada", lastName: "Lovelace", rawData: {} });
+    db.saveClientContracts("c-1", [
+      transformClientContract(contract(1), "c-1"),
+      transformClientContract(contract(2, { TerminationDate: "2024-02-01T00:00:00" }), "c-1"),
+    ]);
+    db.saveClientServices(["c-1", "c-2"], [
+      transformClientService(service(5), "c-1"),
+      transformClientService(service(6, { Remaining: 3 }), "c-1"),
+      transformClientService(service(7, { ExpirationDate: "2024-02-01T00:00:00" }), "c-1"),
+      transformClientService(service(8, { Returned: true }), "c-2"),
+    ]);
+
+    const memberships = db.getClientMemberships({ asOf: "2024-03-01" });
+
+    expect(memberships).toHaveLength(1);
+    expect(memberships[0]).toMatchObject({ clientId: "c-1", firstName: "Ada", remainingVisits: 7 });
+    expect(memberships[0]?.activeContracts.map((row) => row.id)).toEqual(["1"]);
+    expect(memberships[0]?.activeServices.map((row) => row.id)).toEqual(["5", "6"]);
+  });
+
+  test("should report memberships and remaining visits per client", async () => {
+    db.saveClientContracts("c-1", [transformClientContract(contract(1), "c-1")]);
+    db.saveClientServices(["c-2"], [transformClientService(service(6, { Remaining: 2 }), "c-2")]);
+
+    const payload = parsePayload(await findCustomTool("report_client_memberships")!.handle({
+      as_of: "2024-03-01",
+    }, context));
+
+    expect(payload).toMatchObject({ asOf: "2024-03-01", clients: 2, activeContracts: 1, remainingVisits: 2 });
+    expect(payload.memberships[0]).toMatchObject({
+      clientId: "c-1",
+      remainingVisits: 0,
+      contracts: [{ id: "1", name: "Unlimited Monthly", autopayStatus: "Active" }],
+      services: [],
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { customTools, findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { parseFormulaNote, findSensitiveTerms } from "../mcp/tools/analyzeNotes.js";
+import { diffClientProfile } from "../mcp/tools/writeProfile.js";
+import { salesToCsv } from "../mcp/tools/exportSales.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("Migration tools", () => {
+  let db: DatabaseClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  const callTool = (name: string, args: Record<string, unknown>) =>
+    findCustomTool(name)!.handle(args, context);
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    context = {
+      config: testConfig,
+      db,
+      apiClient,
+      syncService: new SyncService(apiClient, db),
+    };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+    for (const path of [
+      "sales_2024-01-01_2024-01-03.json",
+      "sales_2024-01-01_2024-01-03.csv",
+      "sales_2024-01-01_2024-01-10.csv",
+    ]) {
+      if (existsSync(`${testConfig.DATA_DIR}/${path}`)) {
+        await unlink(`${testConfig.DATA_DIR}/${path}`);
+      }
+    }
+  });
+
+  test("should expose the four spec'd tools and the mirror sync tools", () => {
+    expect(customTools.map((tool) => tool.definition.name)).toEqual([
+      "sync_clients",
+      "export_sales_history",
+      "analyze_formula_notes",
+      "write_client_profile",
+      "create_client_checked",
+      "plan_client_merges",
+      "sync_appointments",
+      "sync_bookable_items",
+      "sync_classes",
+      "sync_class_visits",
+      "sync_staff",
+      "sync_site_reference",
+      "export_sales_reconciliation",
+      "sync_memberships",
+      "report_client_memberships",
+      "book_appointment",
+      "change_appointment",
+      "cancel_appointment",
+      "undo_change",
+      "approve_action",
+      "start_client_authorization",
+      "complete_client_authorization",
+    ]);
+  });
+
+  describe("sync_clients", () => {
+    test("should omit the status filter for All", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ Clients: [] }));
+
+      const payload = parsePayload(await callTool("sync_clients", { status: "All" }));
+
+      expect(payload.complete).toBe(true);
+      expect(String(fetchMock.mock.calls[0]?.[0])).not.toContain("status=");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should reject invalid status values", async () => {
+      await expect(callTool("sync_clients", { status: "Deleted" })).rejects.toThrow();
+    });
+  });
+
+  describe("export_sales_history", () => {
+    test("should write a CSV export to the data directory", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        jsonResponse({ Sales: [{ Id: 7, SaleDate: "2024-01-02", ClientId: "c-1", TotalAmount: 25.5 }] })
+      );
+
+      const payload = parsePayload(await callTool("export_sales_history", {
+        start_date: "2024-01-01",
+        end_date: "2024-01-03",
+        format: "csv",
+      }));
+
+      expect(payload.saved).toBe(1);
+      expect(payload.file).toEndWith("sales_2024-01-01_2024-01-03.csv");
+      expect(await Bun.file(payload.file).text()).toBe(
+        "id,sale_date,client_id,total_amount\n7,2024-01-02,c-1,25.5\n"
+      );
+      expect(db.getSyncLogs()[0]?.operation).toBe("export_sales_history");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should write every sale in the range after a resumed export", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(jsonResponse({ Sales: [{ Id: 1, SaleDate: "2024-01-02", TotalAmount: 10 }] }))
+        .mockResolvedValueOnce(new Response("Bad request", { status: 400 }))
+        .mockResolvedValueOnce(jsonResponse({ Sales: [{ Id: 2, SaleDate: "2024-01-09", TotalAmount: 20 }] }));
+      const args = { start_date: "2024-01-01", end_date: "2024-01-10", format: "csv" };
+
+      await expect(callTool("export_sales_history", args)).rejects.toThrow("400");
+      const payload = parsePayload(await callTool("export_sales_history", args));
+
+      expect(payload).toMatchObject({ complete: true, fetched: 1, resumedFrom: 1 });
+      expect(await Bun.file(payload.file).text()).toBe(
+        "id,sale_date,client_id,total_amount\n1,2024-01-02,,10\n2,2024-01-09,,20\n"
+      );
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("analyze_formula_notes", () => {
+    test("should structure notes and log the run", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        jsonResponse({
+          ClientFormulaNotes: [
+            { ClientId: "c-1", Notes: "6N + 7G 1:1 with 20 vol, 35 min. Allergic to PPD." },
+          ],
+        })
+      );
+
+      const payload = parsePayload(await callTool("analyze_formula_notes", { client_id_list: ["c-1"] }));
+
+      expect(payload.notes[0].suggestion.colors).toEqual(["6N", "7G"]);
+      expect(payload.notes[0].sensitiveTerms).toEqual(["allergic"]);
+      expect(payload.warning).toContain("1 notes");
+      expect(db.getSyncLogs()[0]?.operation).toBe("analyze_formula_notes");
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("write_client_profile", () => {
+    beforeEach(() => {
+      db.saveClient({
+        id: "c-1",
+        firstName: "Jane",
+        rawData: { Id: "c-1", FirstName: "Jane", Email: "old@example.com" },
+      });
+    });
+
+    test("should preview changes without calling the API by default", async () => {
+      const fetchMock = spyOn(global, "fetch");
+
+      const payload = parsePayload(await callTool("write_client_profile", {
+        client_id: "c-1",
+        data: { FirstName: "Jane", Email: "new@example.com" },
+      }));
+
+      expect(payload.dryRun).toBe(true);
+      expect(payload.changes).toEqual([
+        { field: "Email", current: "old@example.com", proposed: "new@example.com" },
+      ]);
+      expect(fetchMock).not.toHaveBeenCalled();
+
+      fetchMock.mockRestore();
+    });
+
+    test("should update the client and local cache when dry_run is false", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        jsonResponse({ Client: { Id: "c-1", FirstName: "Jane", Email: "new@example.com" } })
+      );
+
+      const payload = parsePayload(await callTool("write_client_profile", {
+        client_id: "c-1",
+        data: { Email: "new@example.com" },
+        dry_run: false,
+      }));
+
+      expect(payload.dryRun).toBe(false);
+      expect(db.getClient("c-1")?.email).toBe("new@example.com");
+      expect(db.getSyncLogs()[0]?.operation).toBe("write_client_profile");
+
+      fetchMock.mockRestore();
+    });
+  });
+});
+
+describe("parseFormulaNote", () => {
+  test("should extract formula components", () => {
+    expect(parseFormulaNote("Roots: 5RV 30g + 20 vol 1:1.5, process 40 minutes")).toEqual({
+      colors: ["5RV"],
+      developer: ["20 vol"],
+      ratios: ["1:1.5"],
+      amounts: ["30g"],
+      processingTimes: ["40 minutes"],
+    });
+  });
+
+  test("should return null for plain notes", () => {
+    expect(parseFormulaNote("Prefers morning appointments")).toBeNull();
+  });
+});
+
+describe("findSensitiveTerms", () => {
+  test("should flag medical terms", () => {
+    expect(findSensitiveTerms("Pregnant, patch test required")).toEqual(["pregnant", "patch test"]);
+  });
+});
+
+describe("diffClientProfile", () => {
+  test("should treat a missing cache entry as all changes", () => {
+    expect(diffClientProfile(null, { FirstName: "Jane" })).toEqual([
+      { field: "FirstName", current: null, proposed: "Jane" },
+    ]);
+  });
+});
+
+describe("salesToCsv", () => {
+  test("should quote values containing commas", () => {
+    expect(salesToCsv([{ Id: "1", SaleDate: "2024-01-01", ClientId: "a,b" }])).toBe(
+      'id,sale_date,client_id,total_amount\n1,2024-01-01,"a,b",\n'
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { MIGRATIONS, applyMigrations, getSchemaVersion, planMigrations } from "../db/migrations.js";
+import type { Migration } from "../db/migrations.js";
+import { SCHEMA_SQL } from "../db/schema.js";
+
+describe("Schema migrations", () => {
+  let db: Database;
+
+  const tableExists = (name: string) =>
+    db.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?").get(name) !== null;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test("should apply every migration to a new database", () => {
+    const plan = applyMigrations(db);
+
+    expect(plan.currentVersion).toBe(0);
+    expect(plan.pending.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+    expect(getSchemaVersion(db)).toBe(MIGRATIONS.length);
+    expect(tableExists("clients")).toBe(true);
+    expect(tableExists("sync_watermarks")).toBe(true);
+  });
+
+  test("should be a no-op once up to date", () => {
+    applyMigrations(db);
+
+    expect(applyMigrations(db).pending).toEqual([]);
+  });
+
+  test("should adopt a database created before versioning", () => {
+    db.exec(SCHEMA_SQL);
+    db.prepare("INSERT INTO clients (id, raw_data) VALUES ('c-1', '{}')").run();
+
+    applyMigrations(db);
+
+    expect(getSchemaVersion(db)).toBe(MIGRATIONS.length);
+    expect(db.query("SELECT COUNT(*) as count FROM clients").get()).toEqual({ count: 1 });
+  });
+
+  test("should report pending migrations without applying them", () => {
+    const plan = planMigrations(db);
+
+    expect(plan.pending).toHaveLength(MIGRATIONS.length);
+    expect(plan.pending[1]?.sql).toContain("CREATE TABLE IF NOT EXISTS sync_cursors");
+    expect(tableExists("clients")).toBe(false);
+    expect(tableExists("schema_version")).toBe(false);
+  });
+
+  test("should apply only newer migrations", () => {
+    const migrations: Migration[] = [
+      { version: 1, name: "create_items", sql: "CREATE TABLE items (id TEXT PRIMARY KEY);" },
+    ];
+    applyMigrations(db, migrations);
+
+    migrations.push({ version: 2, name: "add_items_name", sql: "ALTER TABLE items ADD COLUMN name TEXT;" });
+    const plan = applyMigrations(db, migrations);
+
+    expect(plan.pending.map((m) => m.name)).toEqual(["add_items_name"]);
+    expect(db.query("SELECT name FROM pragma_table_info('items')").all()).toEqual([{ name: "id" }, { name: "name" }]);
+  });
+
+  test("should roll back a failing migration", () => {
+    const migrations: Migration[] = [
+      { version: 1, name: "create_items", sql: "CREATE TABLE items (id TEXT PRIMARY KEY);" },
+      { version: 2, name: "broken", sql: "CREATE TABLE other (id TEXT); ALTER TABLE missing ADD COLUMN x TEXT;" },
+    ];
+
+    expect(() => applyMigrations(db, migrations)).toThrow("Migration 2 (broken) failed");
+    expect(getSchemaVersion(db)).toBe(1);
+    expect(tableExists("other")).toBe(false);
+  });
+
+  test("should refuse a database newer than the code", () => {
+    applyMigrations(db);
+
+    expect(() => planMigrations(db, MIGRATIONS.slice(0, 1))).toThrow("is newer than this server supports");
+  });
+
+  test("should reject gaps in migration numbering", () => {
+    expect(() => planMigrations(db, [{ version: 2, name: "skipped", sql: "" }])).toThrow("numbered consecutively");
+  });
+});
@@ -366,10 +366,270 @@ describe("MindbodyApiClient", () => {
       const options = updateCall?.[1] as RequestInit;
 
       expect(options.method).toBe("POST");
-      expect(options.body).toContain("ClientId");
-      expect(options.body).toContain("client-1");
-      expect(options.body).toContain("FirstName");
-      expect(options.body).toContain("Jane");
+      expect(JSON.parse(String(options.body))).toEqual({
+        Client: { Id: "client-1", FirstName: "Jane", Email: "jane@example.com" },
+      });
+
+      fetchMock.mockRestore();
+    });
+
+    test("should validate without saving on a dry run", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ Client: { Id: "client-1" } }), { status: 200 })
+      );
+
+      await apiClient.updateClient({ clientId: "client-1", data: { FirstName: "Jane" }, dryRun: true });
+
+      const options = fetchMock.mock.calls[0]?.[1] as RequestInit;
+      expect(JSON.parse(String(options.body))).toEqual({ Client: { Id: "client-1", FirstName: "Jane" }, Test: true });
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("appointment writes", () => {
+    test("should post a booking with Test set on a dry run", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ Appointment: { Id: 1, StartDateTime: "x", EndDateTime: "y" } }), { status: 200 })
+      );
+
+      await apiClient.addAppointment({
+        appointment: { ClientId: "c-1", LocationId: 1, SessionTypeId: 2, StaffId: 3, StartDateTime: "2024-03-01T10:00:00" },
+        dryRun: true,
+      });
+
+      const [url, options] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(String(url)).toContain("/appointment/addappointment");
+      expect(options.method).toBe("POST");
+      expect(JSON.parse(String(options.body))).toMatchObject({ ClientId: "c-1", StaffId: 3, Test: true });
+
+      fetchMock.mockRestore();
+    });
+
+    test("should cancel through updateappointment", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ Appointment: { Id: 9, StartDateTime: "x", EndDateTime: "y" } }), { status: 200 })
+      );
+
+      await apiClient.cancelAppointment({ appointmentId: "9", lateCancel: true });
+
+      const [url, options] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(String(url)).toContain("/appointment/updateappointment");
+      const body = JSON.parse(String(options.body));
+      expect(body).toMatchObject({ AppointmentId: 9, Execute: "latecancel" });
+      expect(body.Test).toBeUndefined();
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("class endpoints", () => {
+    test("should request the class schedule with comma-joined filters", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ Classes: [] }), { status: 200 })
+      );
+
+      await apiClient.getClasses({ startDate: "2024-01-01", endDate: "2024-01-07", staffIds: ["1", "2"] });
+
+      const url = String(fetchMock.mock.calls[0]?.[0]);
+      expect(url).toContain("/class/classes?");
+      expect(url).toContain("StartDateTime=2024-01-01");
+      expect(url).toContain("StaffIds=1%2C2");
+      expect(url).not.toContain("HideCanceledClasses");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should request visits for a single class", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ Class: { Id: 5, StartDateTime: "", EndDateTime: "", Visits: [] } }), { status: 200 })
+      );
+
+      const result = await apiClient.getClassVisits({ classId: "5" });
+
+      expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/class/classvisits?ClassID=5");
+      expect(result.Class.Id).toBe(5);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should page through waitlist entries", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ WaitlistEntries: [{ Id: 1, ClassId: 5 }] }), { status: 200 })
+      );
+
+      const entries = [];
+      for await (const page of apiClient.paginateWaitlistEntries({ classIds: ["5"] })) {
+        entries.push(...page.items);
+      }
+
+      expect(entries).toEqual([{ Id: 1, ClassId: 5 }]);
+      expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/class/waitlistentries?");
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("staff endpoints", () => {
+    test("should request the staff directory with comma-joined IDs", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ StaffMembers: [] }), { status: 200 })
+      );
+
+      await apiClient.getStaff({ staffIds: ["1", "2"], locationId: "3" });
+
+      const url = String(fetchMock.mock.calls[0]?.[0]);
+      expect(url).toContain("/staff/staff?");
+      expect(url).toContain("StaffIds=1%2C2");
+      expect(url).toContain("LocationId=3");
+      expect(url).not.toContain("SessionTypeId");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should request permissions for a single staff member", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ UserGroup: { PermissionGroupName: "Manager" } }), { status: 200 })
+      );
+
+      const result = await apiClient.getStaffPermissions({ staffId: "7" });
+
+      expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/staff/staffpermissions?StaffId=7");
+      expect(result.UserGroup.PermissionGroupName).toBe("Manager");
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("site endpoints", () => {
+    test("should send program filters for session types", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ SessionTypes: [] }), { status: 200 })
+      );
+
+      await apiClient.getSessionTypes({ programIds: ["2", "3"], onlineOnly: true });
+
+      const url = String(fetchMock.mock.calls[0]?.[0]);
+      expect(url).toContain("/site/sessiontypes?");
+      expect(url).toContain("ProgramIDs=2%2C3");
+      expect(url).toContain("OnlineOnly=true");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should page through a reference list by kind", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ Resources: [{ Id: 4, Name: "Room 1" }] }), { status: 200 })
+      );
+
+      const items = [];
+      for await (const page of apiClient.paginateSiteReference("resources")) {
+        items.push(...page.items);
+      }
+
+      expect(items).toEqual([{ Id: 4, Name: "Room 1" }]);
+      expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/site/resources?");
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("membership endpoints", () => {
+    test("should send a batch of clients for client services", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ ClientServices: [] }), { status: 200 })
+      );
+
+      await apiClient.getClientServices({ clientIds: ["c-1", "c-2"], showActiveOnly: true });
+
+      const url = String(fetchMock.mock.calls[0]?.[0]);
+      expect(url).toContain("/client/clientservices?");
+      expect(url).toContain("ClientIds=c-1%2Cc-2");
+      expect(url).toContain("ShowActiveOnly=true");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should require a location for the contract catalog", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response(JSON.stringify({ Contracts: [] }), { status: 200 })
+      );
+
+      await apiClient.getContracts({ locationId: "1", contractIds: ["5", "6"] });
+
+      const url = String(fetchMock.mock.calls[0]?.[0]);
+      expect(url).toContain("/sale/contracts?");
+      expect(url).toContain("LocationId=1");
+      expect(url).toContain("ContractIds=5%2C6");
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("single-flight GETs", () => {
+    /** A response that arrives only when release() is called */
+    const heldResponse = () => {
+      let release: (body: unknown) => void = () => {};
+      const answer = new Promise<Response>((resolve) => {
+        release = (body) => resolve(new Response(JSON.stringify(body), { status: 200 }));
+      });
+      return { answer, release: (body: unknown) => release(body) };
+    };
+
+    test("should share one call between concurrent identical GETs", async () => {
+      const held = heldResponse();
+      const fetchMock = spyOn(global, "fetch").mockReturnValueOnce(held.answer);
+
+      const first = apiClient.getClients({ clientIds: ["c-1"] });
+      const second = apiClient.getClients({ clientIds: ["c-1"] });
+      held.release({ Clients: [{ Id: "c-1" }] });
+      const [a, b] = await Promise.all([first, second]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(rateLimitGuard.getUsageStats().callsMade).toBe(1);
+      expect(a).toEqual(b);
+      expect(a).not.toBe(b);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should send different or later GETs separately", async () => {
+      const fetchMock = spyOn(global, "fetch").mockImplementation((async () =>
+        new Response(JSON.stringify({ Clients: [] }), { status: 200 })) as unknown as typeof fetch);
+
+      await Promise.all([
+        apiClient.getClients({ clientIds: ["c-1"] }),
+        apiClient.getClients({ clientIds: ["c-2"] }),
+      ]);
+      await apiClient.getClients({ clientIds: ["c-1"] });
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should share a failure and forget it afterwards", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response("Bad request", { status: 400 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ Clients: [] }), { status: 200 }));
+
+      const results = await Promise.allSettled([apiClient.getClients({}), apiClient.getClients({})]);
+      expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+
+      await expect(apiClient.getClients({})).resolves.toEqual({ Clients: [] });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should not merge writes", async () => {
+      const fetchMock = spyOn(global, "fetch").mockImplementation((async () =>
+        new Response(JSON.stringify({}), { status: 200 })) as unknown as typeof fetch);
+
+      const write = { method: "POST", endpoint: "/client/updateclient", body: { Client: { Id: "c-1" } } };
+      await Promise.all([apiClient.request(write), apiClient.request(write)]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
 
       fetchMock.mockRestore();
     });
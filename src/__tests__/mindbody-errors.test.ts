@@ -0,0 +1,177 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import {
+  MindbodyApiError,
+  MindbodyAuthError,
+  MindbodyNotFoundError,
+  MindbodyRateLimitError,
+  MindbodyValidationError,
+  QuotaExhaustedError,
+} from "../services/errors.js";
+import { AddClientParamsSchema } from "../mcp/tools/addClient.js";
+import { toolErrorResult } from "../mcp/tools/shared.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("Mindbody errors", () => {
+  let apiClient: MindbodyApiClient;
+  let db: DatabaseClient;
+  let rateLimitGuard: RateLimitGuard;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+    API_MAX_RETRIES: 0,
+  };
+
+  const errorResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(typeof body === "string" ? body : JSON.stringify(body), { status, headers });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  /** The error getClients rejects with for one mocked response */
+  const failWith = async (response: Response): Promise<unknown> => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValue(response);
+    try {
+      await apiClient.getClients({});
+      throw new Error("Expected the request to fail");
+    } catch (error) {
+      return error;
+    } finally {
+      fetchMock.mockRestore();
+    }
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const authFetch = mock(async () =>
+      new Response(JSON.stringify({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 }), { status: 200 })
+    );
+    apiClient = new MindbodyApiClient(
+      testConfig,
+      rateLimitGuard,
+      new AuthService(testConfig, authFetch as unknown as typeof fetch)
+    );
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should parse Error.Code and Error.Message into a validation error", async () => {
+    const error = await failWith(errorResponse(400, {
+      Error: { Code: "InvalidClientId", Message: "Client ID 'x' is not valid" },
+    }));
+
+    expect(error).toBeInstanceOf(MindbodyValidationError);
+    expect(error).toBeInstanceOf(MindbodyApiError);
+    expect(error).toMatchObject({
+      code: "validation_failed",
+      status: 400,
+      apiCode: "InvalidClientId",
+      apiMessage: "Client ID 'x' is not valid",
+      retryable: false,
+    });
+    expect((error as Error).message).toContain("API request failed: 400");
+  });
+
+  test("should type auth, not found, throttling and server failures", async () => {
+    const auth = await failWith(errorResponse(401, "Unauthorized"));
+    expect(auth).toBeInstanceOf(MindbodyAuthError);
+    expect((auth as Error).message).toContain("API request failed after retry: 401");
+
+    expect(await failWith(errorResponse(404, "Missing"))).toBeInstanceOf(MindbodyNotFoundError);
+
+    const throttled = await failWith(errorResponse(429, "Slow down", { "Retry-After": "120" }));
+    expect(throttled).toBeInstanceOf(MindbodyRateLimitError);
+    expect(throttled).toMatchObject({ code: "rate_limited", retryAfterMs: 120_000, retryable: true });
+
+    const server = await failWith(errorResponse(503, "Unavailable"));
+    expect(server).toBeInstanceOf(MindbodyApiError);
+    expect(server).toMatchObject({ code: "api_error", status: 503, retryable: true, apiCode: null });
+  });
+
+  test("should raise QuotaExhaustedError before sending when the daily limit is spent", async () => {
+    const today = new Date().toISOString().split("T")[0] as string;
+    for (let i = 0; i < testConfig.DAILY_API_LIMIT_OVERRIDE; i++) {
+      db.incrementApiUsage(today);
+    }
+    const fetchMock = spyOn(global, "fetch");
+
+    const error = await apiClient.getClients({}).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(QuotaExhaustedError);
+    expect(error).toMatchObject({ code: "quota_exhausted", callsMade: 950, limit: 950 });
+    expect((error as Error).message).toContain("Daily API limit reached");
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockRestore();
+  });
+
+  test("should map typed errors to structured tool results", () => {
+    const result = toolErrorResult(
+      "create_client_checked",
+      new MindbodyValidationError(
+        "API request failed: 400 - ...",
+        400,
+        JSON.stringify({ Error: { Code: "MissingRequiredFields", Message: "Email is required" } })
+      )
+    );
+
+    expect(result.isError).toBe(true);
+    expect(parsePayload(result)).toEqual({
+      error: "validation_failed",
+      tool: "create_client_checked",
+      message: "API request failed: 400 - ...",
+      retryable: false,
+      status: 400,
+      apiCode: "MissingRequiredFields",
+      apiMessage: "Email is required",
+    });
+
+    const resetTime = "2024-05-02T00:00:00.000Z";
+    const quota = parsePayload(toolErrorResult("sync_clients", new QuotaExhaustedError(950, 950, resetTime)));
+    expect(quota).toMatchObject({ error: "quota_exhausted", retryable: false, callsMade: 950, resetTime });
+  });
+
+  test("should report invalid arguments and other failures distinctly", () => {
+    const parsed = AddClientParamsSchema.safeParse({});
+    if (parsed.success) {
+      throw new Error("Expected the arguments to be rejected");
+    }
+
+    const invalid = parsePayload(toolErrorResult("create_client_checked", parsed.error));
+    expect(invalid.error).toBe("invalid_arguments");
+    expect(invalid.issues.length).toBeGreaterThan(0);
+
+    expect(parsePayload(toolErrorResult("undo_change", new Error("Nothing to undo")))).toEqual({
+      error: "tool_failed",
+      tool: "undo_change",
+      message: "Nothing to undo",
+    });
+  });
+});
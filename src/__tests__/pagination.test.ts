@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import { Paginator } from "../services/pagination.js";
+import type { PageFetcher } from "../services/pagination.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("Paginator", () => {
+  let db: DatabaseClient;
+  let rateLimitGuard: RateLimitGuard;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 10,
+  };
+
+  // 25 numbered items served in pages, counting each fetch against the budget
+  const numbers = Array.from({ length: 25 }, (_, i) => i);
+  const createFetcher = () =>
+    mock<PageFetcher<number>>(async (limit, offset) => {
+      rateLimitGuard.recordCall();
+      return {
+        items: numbers.slice(offset, offset + limit),
+        pagination: { RequestedLimit: limit, RequestedOffset: offset, PageSize: limit, TotalResults: numbers.length },
+      };
+    });
+
+  const collect = async (paginator: Paginator<number>) => {
+    const items: number[] = [];
+    for await (const page of paginator) {
+      items.push(...page.items);
+    }
+    return items;
+  };
+
+  const useCalls = (count: number) => {
+    const today = new Date().toISOString().split("T")[0] as string;
+    for (let i = 0; i < count; i++) {
+      db.incrementApiUsage(today);
+    }
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    rateLimitGuard = new RateLimitGuard(db, testConfig);
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should walk every page", async () => {
+    const fetchPage = createFetcher();
+    const paginator = new Paginator(fetchPage, rateLimitGuard, { pageSize: 10 });
+
+    expect(await collect(paginator)).toEqual(numbers);
+    expect(fetchPage.mock.calls.map((call) => call[1])).toEqual([0, 10, 20]);
+    expect(paginator.state.complete).toBe(true);
+    expect(paginator.state.pages).toBe(3);
+  });
+
+  test("should stop when the budget runs out and save a cursor", async () => {
+    useCalls(9);
+    const options = { pageSize: 10, cursorKey: "numbers", cursorStore: db };
+    const paginator = new Paginator(createFetcher(), rateLimitGuard, options);
+
+    expect(await collect(paginator)).toEqual(numbers.slice(0, 10));
+    expect(paginator.state.complete).toBe(false);
+    expect(paginator.state.stoppedReason).toContain("from offset 10");
+    expect(db.getSyncCursor("numbers")).toMatchObject({ offset: 10, totalResults: 25 });
+  });
+
+  test("should resume from a saved cursor and clear it when done", async () => {
+    db.saveSyncCursor("numbers", 20, 25);
+    const fetchPage = createFetcher();
+    const paginator = new Paginator(fetchPage, rateLimitGuard, {
+      pageSize: 10,
+      cursorKey: "numbers",
+      cursorStore: db,
+    });
+
+    expect(await collect(paginator)).toEqual(numbers.slice(20));
+    expect(fetchPage.mock.calls[0]?.[1]).toBe(20);
+    expect(paginator.state.resumedFrom).toBe(20);
+    expect(db.getSyncCursor("numbers")).toBeNull();
+  });
+
+  test("should keep a reserve of calls unless forced", async () => {
+    useCalls(5);
+    const reserved = new Paginator(createFetcher(), rateLimitGuard, { pageSize: 10, reserveCalls: 5 });
+    const forced = new Paginator(createFetcher(), rateLimitGuard, { pageSize: 10, reserveCalls: 5, force: true });
+
+    expect(await collect(reserved)).toEqual([]);
+    expect(reserved.state.stoppedReason).toContain("quota");
+    expect(await collect(forced)).toEqual(numbers);
+  });
+
+  test("should not advance the cursor past a page the consumer abandoned", async () => {
+    const paginator = new Paginator(createFetcher(), rateLimitGuard, {
+      pageSize: 10,
+      cursorKey: "numbers",
+      cursorStore: db,
+    });
+
+    for await (const page of paginator) {
+      if (page.page === 2) break;
+    }
+
+    expect(db.getSyncCursor("numbers")?.offset).toBe(10);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import { DEFAULT_RETRY_POLICY, backoffDelay, canRetry, parseRetryAfter } from "../services/retryPolicy.js";
+import type { Config } from "../config.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("Retry policy", () => {
+  let apiClient: MindbodyApiClient;
+  let db: DatabaseClient;
+  let rateLimitGuard: RateLimitGuard;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+    API_MAX_RETRIES: 3,
+    API_RETRY_BASE_MS: 1,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const failing = (status: number, text: string) =>
+    (async () => new Response(text, { status })) as unknown as typeof fetch;
+
+  const buildClient = (config: Config) => {
+    rateLimitGuard = new RateLimitGuard(db, config);
+    const authFetch = mock(async () => jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 }));
+    apiClient = new MindbodyApiClient(
+      config,
+      rateLimitGuard,
+      new AuthService(config, authFetch as unknown as typeof fetch)
+    );
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    buildClient(testConfig);
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  describe("helpers", () => {
+    test("should parse Retry-After as seconds or an HTTP date", () => {
+      const now = Date.parse("2024-05-01T12:00:00Z");
+
+      expect(parseRetryAfter("7", now)).toBe(7000);
+      expect(parseRetryAfter("Wed, 01 May 2024 12:00:30 GMT", now)).toBe(30_000);
+      expect(parseRetryAfter("Wed, 01 May 2024 11:00:00 GMT", now)).toBe(0);
+      expect(parseRetryAfter("soon", now)).toBeNull();
+      expect(parseRetryAfter(null, now)).toBeNull();
+    });
+
+    test("should back off exponentially with jitter up to the cap", () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000 };
+
+      expect(backoffDelay(0, policy, () => 0.5)).toBe(50);
+      expect(backoffDelay(2, policy, () => 0.5)).toBe(200);
+      expect(backoffDelay(6, policy, () => 0.999)).toBe(999);
+      expect(backoffDelay(3, policy, () => 0)).toBe(0);
+    });
+
+    test("should only retry POST and PATCH with an idempotency key", () => {
+      expect(canRetry("GET")).toBe(true);
+      expect(canRetry("DELETE")).toBe(true);
+      expect(canRetry("POST")).toBe(false);
+      expect(canRetry("PATCH")).toBe(false);
+      expect(canRetry("POST", "sale-42")).toBe(true);
+    });
+  });
+
+  describe("request", () => {
+    test("should retry transient failures and count each retry", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response("Unavailable", { status: 503 }))
+        .mockRejectedValueOnce(new TypeError("socket hang up"))
+        .mockResolvedValueOnce(jsonResponse({ Clients: [{ Id: "c-1" }] }));
+
+      const response = await apiClient.getClients({});
+
+      expect(response.Clients).toEqual([{ Id: "c-1" }]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(rateLimitGuard.getUsageStats()).toMatchObject({ callsMade: 3, retriesMade: 2 });
+
+      fetchMock.mockRestore();
+    });
+
+    test("should wait for Retry-After on 429", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response("Slow down", { status: 429, headers: { "Retry-After": "1" } }))
+        .mockResolvedValueOnce(jsonResponse({ Clients: [] }));
+
+      const started = Date.now();
+      await apiClient.getClients({});
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(950);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should give up after the retry budget", async () => {
+      const fetchMock = spyOn(global, "fetch").mockImplementation(failing(502, "Bad gateway"));
+
+      await expect(apiClient.getClients({})).rejects.toThrow("API request failed after retry: 502");
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(rateLimitGuard.getUsageStats().retriesMade).toBe(3);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should not wait out a Retry-After beyond the longest delay", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response("Quota", { status: 429, headers: { "Retry-After": "3600" } })
+      );
+
+      await expect(apiClient.getClients({})).rejects.toThrow("API request failed: 429");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should not retry client errors", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(new Response("Bad request", { status: 400 }));
+
+      await expect(apiClient.getClients({})).rejects.toThrow("400");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should never retry a POST without an idempotency key", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response("Unavailable", { status: 503 }))
+        .mockRejectedValueOnce(new TypeError("socket hang up"));
+
+      const post = { method: "POST", endpoint: "/client/addclient", body: { FirstName: "Ann" } };
+      await expect(apiClient.request(post)).rejects.toThrow("503");
+      await expect(apiClient.request(post)).rejects.toThrow("socket hang up");
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should retry a POST that carries an idempotency key", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(new Response("Unavailable", { status: 503 }))
+        .mockResolvedValueOnce(jsonResponse({ Client: { Id: "c-9" } }));
+
+      await apiClient.request({
+        method: "POST",
+        endpoint: "/client/addclient",
+        body: { FirstName: "Ann" },
+        idempotencyKey: "add-ann-1",
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const headers = fetchMock.mock.calls[1]?.[1]?.headers as Record<string, string>;
+      expect(headers["Idempotency-Key"]).toBe("add-ann-1");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should stop retrying once the daily limit is reached", async () => {
+      db.close();
+      const limitedConfig = { ...testConfig, DAILY_API_LIMIT_OVERRIDE: 2 };
+      db = new DatabaseClient(limitedConfig);
+      buildClient(limitedConfig);
+
+      const fetchMock = spyOn(global, "fetch").mockImplementation(failing(503, "Unavailable"));
+
+      await expect(apiClient.getClients({})).rejects.toThrow("Daily API limit reached");
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      fetchMock.mockRestore();
+    });
+  });
+});
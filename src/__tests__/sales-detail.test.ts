@@ -0,0 +1,206 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { transformSaleDetail, transformTransaction } from "../types/sale.js";
+import { toSaleRecord } from "../services/sync.js";
+import type { MindbodySale } from "../services/mindbody.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+const sale = (id: string, totalAmount: number | undefined, lineTotals: number[]): MindbodySale => ({
+  Id: id,
+  SaleDate: "2024-01-02T10:00:00",
+  ClientId: "c-1",
+  TotalAmount: totalAmount,
+  PurchasedItems: lineTotals.map((total, index) => ({
+    Id: 100 + index,
+    Description: `Item ${index + 1}`,
+    Quantity: 1,
+    UnitPrice: total,
+    TaxAmount: 0,
+    TotalAmount: total,
+  })),
+  Payments: [{ Id: 1, Amount: totalAmount ?? 0, Type: "Cash", Method: 1 }],
+});
+
+describe("sale detail types", () => {
+  test("should number line items and payments", () => {
+    const detail = transformSaleDetail(sale("7", 30, [10, 20]));
+
+    expect(detail.items.map((item) => [item.lineNumber, item.itemId, item.totalAmount])).toEqual([
+      [1, "100", 10],
+      [2, "101", 20],
+    ]);
+    expect(detail.payments[0]).toMatchObject({ saleId: "7", lineNumber: 1, amount: 30, type: "Cash", method: "1" });
+  });
+
+  test("should add up tax breakdowns when TaxAmount is missing", () => {
+    const detail = transformSaleDetail({ Id: "8", PurchasedItems: [{ Tax1: 1.5, Tax2: 0.5 }] });
+
+    expect(detail.items[0]?.taxAmount).toBe(2);
+  });
+
+  test("should key transactions by TransactionId", () => {
+    expect(transformTransaction({ TransactionId: 55, SaleId: 7, ClientId: 3, Amount: 30, Settled: true })).toMatchObject({
+      id: "55",
+      saleId: "7",
+      clientId: "3",
+      settled: true,
+    });
+  });
+});
+
+describe("Sales detail", () => {
+  let db: DatabaseClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  const saveSale = (mbSale: MindbodySale) => {
+    db.saveSales([toSaleRecord(mbSale)]);
+    db.saveSaleDetails([transformSaleDetail(mbSale)]);
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [
+      dbPath,
+      `${dbPath}-shm`,
+      `${dbPath}-wal`,
+      `${testConfig.DATA_DIR}/sales_reconciliation_2024-01-01_2024-01-07.json`,
+      `${testConfig.DATA_DIR}/sales_reconciliation_2024-01-01_2024-01-07.csv`,
+    ]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should store items and payments while syncing sales", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({ Sales: [sale("7", 30, [10, 20])] }));
+
+    await context.syncService.syncSales({ startDate: "2024-01-01", endDate: "2024-01-07" });
+
+    const detail = db.getSaleDetail("7");
+    expect(detail.items).toHaveLength(2);
+    expect(detail.payments).toMatchObject([{ amount: 30, type: "Cash" }]);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should keep stored lines when a sale arrives without them", async () => {
+    saveSale(sale("7", 30, [10, 20]));
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Sales: [{ Id: "7", SaleDate: "2024-01-02", TotalAmount: 30 }],
+    }));
+
+    await context.syncService.syncSales({ startDate: "2024-01-01", endDate: "2024-01-07" });
+
+    expect(db.getSaleDetail("7").items).toHaveLength(2);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should replace line items on resync", () => {
+    saveSale(sale("7", 30, [10, 20]));
+    saveSale(sale("7", 30, [30]));
+
+    expect(db.getSaleDetail("7").items.map((item) => item.totalAmount)).toEqual([30]);
+  });
+
+  test("should classify each sale against its total", () => {
+    saveSale(sale("1", 30, [10, 20]));
+    saveSale(sale("2", 30, [10, 15]));
+    saveSale(sale("3", 30, []));
+    saveSale(sale("4", undefined, [10]));
+    saveSale({ ...sale("5", 10, [10]), SaleDate: "2024-02-01" });
+
+    const rows = db.getSaleReconciliation({ startDate: "2024-01-01", endDate: "2024-01-07" });
+
+    expect(rows.map((row) => [row.saleId, row.status, row.difference])).toEqual([
+      ["1", "matched", 0],
+      ["2", "mismatch", -5],
+      ["3", "no_items", null],
+      ["4", "no_total", null],
+    ]);
+    expect(rows[0]).toMatchObject({ itemCount: 2, itemsTotal: 30, paymentCount: 1, paymentsTotal: 30 });
+  });
+
+  test("should export mismatches as CSV with a payment breakdown", async () => {
+    saveSale(sale("1", 30, [10, 20]));
+    saveSale(sale("2", 30, [10, 15]));
+
+    const payload = parsePayload(await findCustomTool("export_sales_reconciliation")!.handle({
+      start_date: "2024-01-01",
+      end_date: "2024-01-07",
+      format: "csv",
+      mismatches_only: true,
+    }, context));
+
+    expect(payload).toMatchObject({ sales: 2, matched: 1, mismatched: 1, netDifference: -5 });
+    expect(payload.paymentsByMethod).toEqual([{ type: "Cash", method: "1", count: 2, total: 60 }]);
+    expect(await Bun.file(payload.file).text()).toBe(
+      "sale_id,sale_date,client_id,total_amount,item_count,items_total,tax_total,payment_count,payments_total,difference,status\n" +
+      "2,2024-01-02T10:00:00,c-1,30,2,25,0,1,30,-5,mismatch\n"
+    );
+  });
+
+  test("should sync transactions when asked", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Transactions: [{ TransactionId: 55, SaleId: 7, Amount: 30, Status: "Approved", Settled: true }],
+    }));
+
+    const payload = parsePayload(await findCustomTool("export_sales_reconciliation")!.handle({
+      start_date: "2024-01-01",
+      end_date: "2024-01-07",
+      include_transactions: true,
+    }, context));
+
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain("TransactionStartDateTime=2024-01-01");
+    expect(payload.syncs).toMatchObject([{ operation: "sync_sale_transactions", saved: 1 }]);
+    expect(db.getSaleTransactions("7")).toMatchObject([{ id: "55", status: "Approved", settled: true }]);
+
+    fetchMock.mockRestore();
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { isSiteReferenceKind, transformSiteReference } from "../types/site.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { getSiteReference } from "../mcp/resources/index.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("site reference types", () => {
+  test("should key records by string ID", () => {
+    expect(transformSiteReference({ Id: 3, Name: "Downtown" })).toEqual({
+      id: "3",
+      name: "Downtown",
+      rawData: { Id: 3, Name: "Downtown" },
+    });
+  });
+
+  test("should recognise reference kinds", () => {
+    expect(isSiteReferenceKind("sessiontypes")).toBe(true);
+    expect(isSiteReferenceKind("clients")).toBe(false);
+  });
+});
+
+describe("Site reference sync", () => {
+  let db: DatabaseClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+    API_MAX_RETRIES: 0, // failed refreshes fall back immediately
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should refresh stale lists and skip fresh ones", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ Locations: [{ Id: 1, Name: "Downtown" }] }))
+      .mockResolvedValueOnce(jsonResponse({ Programs: [{ Id: 2, Name: "Hair" }] }));
+
+    const first = parsePayload(await findCustomTool("sync_site_reference")!.handle({
+      kinds: ["locations", "programs"],
+    }, context));
+    const second = parsePayload(await findCustomTool("sync_site_reference")!.handle({
+      kinds: ["locations", "programs"],
+    }, context));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/site/locations?");
+    expect(first).toMatchObject({ complete: true, saved: 2, refreshed: ["locations", "programs"], fresh: [] });
+    expect(second).toMatchObject({ apiCalls: 0, refreshed: [], fresh: ["locations", "programs"] });
+    expect(db.getSiteReference("programs")).toMatchObject([{ id: "2", name: "Hair" }]);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should replace the list and drop removed IDs when max age is 0", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ SessionTypes: [{ Id: 10, Name: "Cut" }, { Id: 11, Name: "Colour" }] }))
+      .mockResolvedValueOnce(jsonResponse({ SessionTypes: [{ Id: 11, Name: "Colour" }] }));
+
+    await context.syncService.syncSiteReference({ kinds: ["sessiontypes"] });
+    await context.syncService.syncSiteReference({ kinds: ["sessiontypes"], maxAgeHours: 0 });
+
+    expect(db.getSiteReference("sessiontypes").map((r) => r.id)).toEqual(["11"]);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should keep the previous copy when a refresh is cut short", async () => {
+    db.replaceSiteReference("locations", [transformSiteReference({ Id: 1, Name: "Downtown" })]);
+    const today = new Date().toISOString().split("T")[0] as string;
+    for (let i = 0; i < testConfig.DAILY_API_LIMIT_OVERRIDE * 0.8; i++) {
+      db.incrementApiUsage(today);
+    }
+    const fetchMock = spyOn(global, "fetch");
+
+    const result = await context.syncService.syncSiteReference({ kinds: ["locations"] });
+
+    expect(result.complete).toBe(false);
+    expect(result.stoppedReason).toContain("locations:");
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(db.getSiteReference("locations")).toHaveLength(1);
+    expect(context.syncService.getSiteReferenceStatus("locations").stale).toBe(true);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should serve the resource, refreshing it once when stale", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ Locations: [{ Id: 1, Name: "Downtown", City: "Leeds" }] }));
+
+    const first = await getSiteReference("locations", db, context.syncService);
+    const second = await getSiteReference("locations", db, context.syncService);
+
+    expect(first.uri).toBe("mindbody://site/locations");
+    expect(JSON.parse(first.text)).toMatchObject({
+      kind: "locations",
+      total: 1,
+      stale: false,
+      items: [{ Id: 1, Name: "Downtown", City: "Leeds" }],
+    });
+    expect(JSON.parse(second.text).total).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should fall back to cached rows when the refresh fails", async () => {
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(new Response("Server error", { status: 500 }));
+
+    const data = JSON.parse((await getSiteReference("resources", db, context.syncService)).text);
+
+    expect(data).toMatchObject({ total: 0, stale: true, lastRefreshed: null });
+    expect(data.refreshError).toContain("500");
+
+    fetchMock.mockRestore();
+  });
+});
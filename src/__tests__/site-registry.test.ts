@@ -0,0 +1,152 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { SiteRegistry } from "../services/siteRegistry.js";
+import { getQuotaStatus, getSites } from "../mcp/resources/index.js";
+import { withSiteArgument } from "../mcp/toolGenerator.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { Config } from "../config.js";
+import { existsSync, rmSync } from "fs";
+import { unlink } from "fs/promises";
+
+describe("SiteRegistry", () => {
+  let sites: SiteRegistry | null = null;
+  let authFetch: ReturnType<typeof mock>;
+  const sitesFile = "./test-data/sites.json";
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+  const multiSiteConfig: Config = { ...testConfig, MBO_SITES_FILE: sitesFile };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    await Bun.write(sitesFile, JSON.stringify([
+      { siteId: "555", name: "Uptown", staffUsername: "uptown-owner", staffPassword: "uptown-pass", dailyLimit: 200 },
+      { siteId: "777", staffUsername: "east-owner", staffPassword: "east-pass", apiKey: "east-key" },
+    ]));
+    authFetch = mock(async (_url: string, init: RequestInit) => {
+      const siteId = (init.headers as Record<string, string>).SiteId;
+      return jsonResponse({ AccessToken: `token-${siteId}`, TokenType: "Bearer", ExpiresIn: 3600 });
+    });
+  });
+
+  afterEach(async () => {
+    sites?.close();
+    sites = null;
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`, sitesFile, `${testConfig.DATA_DIR}/.token-key`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+    rmSync(`${testConfig.DATA_DIR}/sites`, { recursive: true, force: true });
+  });
+
+  test("should serve the configured site by default", () => {
+    sites = new SiteRegistry(testConfig);
+
+    const site = sites.get();
+
+    expect(site.siteId).toBe("123456");
+    expect(site.config.DATA_DIR).toBe("./test-data");
+    expect(sites.get("123456")).toBe(site);
+    expect(sites.list()).toEqual([{ siteId: "123456", name: null, isDefault: true, dataDir: "./test-data" }]);
+    expect(() => sites!.get("555")).toThrow("Unknown site 555; registered sites: 123456");
+  });
+
+  test("should give each listed site its own credentials, limit and database", () => {
+    sites = new SiteRegistry(multiSiteConfig, authFetch as unknown as typeof fetch);
+
+    const uptown = sites.get("555");
+    const east = sites.get("777");
+
+    expect(uptown.config).toMatchObject({
+      MBO_SITE_ID: "555",
+      MBO_API_KEY: "test-api-key",
+      MBO_STAFF_USERNAME: "uptown-owner",
+      DAILY_API_LIMIT_OVERRIDE: 200,
+      DATA_DIR: "test-data/sites/555",
+    });
+    expect(east.config).toMatchObject({ MBO_API_KEY: "east-key", DAILY_API_LIMIT_OVERRIDE: 950 });
+    expect(existsSync("test-data/sites/555/mindbody.db")).toBe(true);
+    expect(uptown.db).not.toBe(east.db);
+    expect(JSON.parse(getSites(sites).text).map((site: { siteId: string }) => site.siteId))
+      .toEqual(["123456", "555", "777"]);
+  });
+
+  test("should authenticate and count API calls per site", async () => {
+    sites = new SiteRegistry(multiSiteConfig, authFetch as unknown as typeof fetch);
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ Clients: [] }))
+      .mockResolvedValueOnce(jsonResponse({ Clients: [] }))
+      .mockResolvedValueOnce(jsonResponse({ Clients: [] }));
+
+    await sites.get("555").apiClient.getClients({});
+    await sites.get("555").apiClient.getClients({});
+    await sites.get("777").apiClient.getClients({});
+
+    const headers = fetchMock.mock.calls.map((call) => (call[1] as RequestInit).headers as Record<string, string>);
+    expect(headers.map((h) => [h.SiteId, h["Api-Key"], h.Authorization])).toEqual([
+      ["555", "test-api-key", "Bearer token-555"],
+      ["555", "test-api-key", "Bearer token-555"],
+      ["777", "east-key", "Bearer token-777"],
+    ]);
+    expect(authFetch).toHaveBeenCalledTimes(2);
+
+    expect(JSON.parse(getQuotaStatus(sites.get("555").apiClient).text)).toMatchObject({ callsMade: 2, limit: 200 });
+    expect(JSON.parse(getQuotaStatus(sites.get("777").apiClient).text)).toMatchObject({ callsMade: 1, limit: 950 });
+    expect(JSON.parse(getQuotaStatus(sites.get().apiClient).text)).toMatchObject({ callsMade: 0 });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should keep each site's local mirror separate", async () => {
+    sites = new SiteRegistry(multiSiteConfig, authFetch as unknown as typeof fetch);
+    const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+      Client: { Id: "c-1", FirstName: "Jane", LastName: "Doe" },
+    }));
+
+    await findCustomTool("create_client_checked")!.handle({
+      client: { FirstName: "Jane", LastName: "Doe" },
+      dry_run: false,
+    }, sites.get("555"));
+
+    expect(sites.get("555").db.getClient("c-1")).not.toBeNull();
+    expect(sites.get().db.getClient("c-1")).toBeNull();
+
+    fetchMock.mockRestore();
+  });
+
+  test("should reject an invalid sites file", async () => {
+    await Bun.write(sitesFile, JSON.stringify([{ siteId: "abc", staffUsername: "x" }]));
+
+    expect(() => new SiteRegistry(multiSiteConfig)).toThrow("Sites file ./test-data/sites.json is invalid");
+
+    await Bun.write(sitesFile, JSON.stringify([
+      { siteId: "555", staffUsername: "a", staffPassword: "b" },
+      { siteId: "555", staffUsername: "c", staffPassword: "d" },
+    ]));
+
+    expect(() => new SiteRegistry(multiSiteConfig)).toThrow("lists site 555 more than once");
+  });
+
+  test("should advertise a siteId argument on every tool", () => {
+    const definition = findCustomTool("sync_clients")!.definition;
+    const withSite = withSiteArgument(definition);
+
+    expect(withSite.inputSchema.properties.siteId?.type).toBe("string");
+    expect(withSite.inputSchema.required).toEqual(definition.inputSchema.required);
+    expect(definition.inputSchema.properties.siteId).toBeUndefined();
+  });
+});
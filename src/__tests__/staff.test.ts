@@ -0,0 +1,186 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { transformStaff, transformStaffSessionType, validateStaffResponse } from "../types/staff.js";
+import type { MindbodyStaff } from "../types/staff.js";
+import { transformAppointment } from "../types/appointment.js";
+import { findCustomTool } from "../mcp/tools/index.js";
+import type { ToolContext } from "../mcp/tools/index.js";
+import { SyncService } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+const stylist = (id: number, overrides: Partial<MindbodyStaff> = {}): MindbodyStaff => ({
+  Id: id,
+  FirstName: "Ana",
+  LastName: `Stylist ${id}`,
+  DisplayName: `Ana ${id}`,
+  Email: `ana${id}@example.com`,
+  AppointmentInstructor: true,
+  ClassTeacher: false,
+  SortOrder: id,
+  ...overrides,
+});
+
+describe("staff types", () => {
+  test("should flatten a staff member for storage", () => {
+    expect(transformStaff(stylist(12))).toMatchObject({
+      id: "12",
+      firstName: "Ana",
+      lastName: "Stylist 12",
+      displayName: "Ana 12",
+      appointmentInstructor: true,
+      classTeacher: false,
+      sortOrder: 12,
+    });
+  });
+
+  test("should fall back to the requested staff ID for session types", () => {
+    expect(transformStaffSessionType({ Id: 10, Name: "Cut", ProgramId: 2, TimeLength: 60 }, "12")).toMatchObject({
+      staffId: "12",
+      sessionTypeId: "10",
+      name: "Cut",
+      programId: "2",
+      timeLength: 60,
+    });
+  });
+
+  test("should validate staff responses", () => {
+    expect(validateStaffResponse({ StaffMembers: [stylist(1)] })).toBe(true);
+    expect(validateStaffResponse({ StaffMembers: [{ Id: "x" }] }, { logErrors: false })).toBe(false);
+  });
+});
+
+describe("Staff sync", () => {
+  let db: DatabaseClient;
+  let context: ToolContext;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const parsePayload = (result: CallToolResult) => {
+    const content = result.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Expected text content");
+    }
+    return JSON.parse(content.text);
+  };
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    context = { config: testConfig, db, apiClient, syncService: new SyncService(apiClient, db) };
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    for (const path of [dbPath, `${dbPath}-shm`, `${dbPath}-wal`]) {
+      if (existsSync(path)) {
+        await unlink(path);
+      }
+    }
+  });
+
+  test("should cache staff and session types for appointment instructors", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({
+        StaffMembers: [stylist(12), stylist(13, { AppointmentInstructor: false, ClassTeacher: true })],
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        StaffSessionTypes: [{ Id: 10, Name: "Cut", PayRateType: "Flat", PayRateAmount: 25 }],
+      }));
+
+    const payload = parsePayload(await findCustomTool("sync_staff")!.handle({}, context));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(String(fetchMock.mock.calls[1]?.[0])).toContain("/staff/sessiontypes?StaffId=12");
+    expect(payload).toMatchObject({ complete: true, saved: 2, apiCalls: 2, staffSynced: ["12"] });
+    expect(db.getStaff({ classTeacher: true }).map((s) => s.id)).toEqual(["13"]);
+    expect(db.getStaffSessionTypes({ sessionTypeId: "10" })).toMatchObject([
+      { staffId: "12", name: "Cut", payRateAmount: 25 },
+    ]);
+    expect(db.getCacheSummary().staff).toBe(2);
+
+    fetchMock.mockRestore();
+  });
+
+  test("should store permission groups when asked", async () => {
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ StaffMembers: [stylist(12, { AppointmentInstructor: false })] }))
+      .mockResolvedValueOnce(jsonResponse({
+        UserGroup: { PermissionGroupName: "Front Desk", AllowedPermissions: ["CheckIn"], DeniedPermissions: [] },
+      }));
+
+    await findCustomTool("sync_staff")!.handle({ include_permissions: true }, context);
+
+    expect(db.getStaffPermissions("12")).toMatchObject({
+      permissionGroupName: "Front Desk",
+      ipRestricted: false,
+      allowedPermissions: ["CheckIn"],
+    });
+
+    fetchMock.mockRestore();
+  });
+
+  test("should replace a staff member's session types on resync", () => {
+    db.saveStaffSessionTypes("12", [transformStaffSessionType({ Id: 10 }, "12"), transformStaffSessionType({ Id: 11 }, "12")]);
+    db.saveStaffSessionTypes("12", [transformStaffSessionType({ Id: 11 }, "12")]);
+
+    expect(db.getStaffSessionTypes({ staffId: "12" }).map((s) => s.sessionTypeId)).toEqual(["11"]);
+  });
+
+  test("should join appointments to staff profiles", () => {
+    db.saveStaffMembers([transformStaff(stylist(12))]);
+    db.saveAppointments([
+      transformAppointment({ Id: 1, StartDateTime: "2024-01-01T10:00:00", EndDateTime: "2024-01-01T11:00:00", StaffId: 12 }),
+      transformAppointment({ Id: 2, StartDateTime: "2024-01-02T10:00:00", EndDateTime: "2024-01-02T11:00:00", StaffId: 99 }),
+    ]);
+
+    const appointments = db.getAppointmentsWithStaff();
+
+    expect(appointments[0]?.staff).toMatchObject({ id: "12", displayName: "Ana 12" });
+    expect(appointments[1]?.staff).toBeNull();
+    expect(db.getAppointmentsWithStaff({ staffId: "12" })).toHaveLength(1);
+  });
+
+  test("should skip per-staff calls near the daily limit", async () => {
+    const today = new Date().toISOString().split("T")[0] as string;
+    for (let i = 0; i < testConfig.DAILY_API_LIMIT_OVERRIDE * 0.8 - 1; i++) {
+      db.incrementApiUsage(today);
+    }
+    const fetchMock = spyOn(global, "fetch")
+      .mockResolvedValueOnce(jsonResponse({ StaffMembers: [stylist(12), stylist(13)] }));
+
+    const result = await context.syncService.syncStaff();
+
+    expect(result.complete).toBe(false);
+    expect(result.saved).toBe(2);
+    expect(result.stoppedReason).toContain("2 staff left");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRestore();
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import { SyncService, splitDateRange, toClientRecord } from "../services/sync.js";
+import { MindbodyApiClient } from "../services/mindbody.js";
+import { AuthService } from "../services/auth.js";
+import { DatabaseClient } from "../db/client.js";
+import { RateLimitGuard } from "../services/rateLimit.js";
+import type { Config } from "../config.js";
+import { unlink } from "fs/promises";
+import { existsSync } from "fs";
+
+describe("SyncService", () => {
+  let db: DatabaseClient;
+  let syncService: SyncService;
+  const testConfig: Config = {
+    MBO_API_KEY: "test-api-key",
+    MBO_SITE_ID: "123456",
+    MBO_STAFF_USERNAME: "test-user",
+    MBO_STAFF_PASSWORD: "test-pass",
+    MCP_SERVER_NAME: "test-server",
+    LOG_LEVEL: "info",
+    DATA_DIR: "./test-data",
+    DAILY_API_LIMIT_OVERRIDE: 950,
+  };
+
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const clientPage = (start: number, count: number, total: number) => ({
+    Clients: Array.from({ length: count }, (_, i) => ({
+      Id: `client-${start + i}`,
+      FirstName: "Test",
+      LastName: `Client ${start + i}`,
+      Status: "Active",
+    })),
+    PaginationResponse: {
+      RequestedLimit: 100,
+      RequestedOffset: start,
+      PageSize: count,
+      TotalResults: total,
+    },
+  });
+
+  beforeEach(async () => {
+    await Bun.write(`${testConfig.DATA_DIR}/.gitkeep`, "");
+    db = new DatabaseClient(testConfig);
+    const rateLimitGuard = new RateLimitGuard(db, testConfig);
+    const mockAuthService = new AuthService(testConfig, mock(async () =>
+      jsonResponse({ AccessToken: "mock-token", TokenType: "Bearer", ExpiresIn: 3600 })
+    ) as unknown as typeof fetch);
+    const apiClient = new MindbodyApiClient(testConfig, rateLimitGuard, mockAuthService);
+    syncService = new SyncService(apiClient, db);
+  });
+
+  afterEach(async () => {
+    db.close();
+    const dbPath = `${testConfig.DATA_DIR}/mindbody.db`;
+    if (existsSync(dbPath)) {
+      await unlink(dbPath);
+    }
+    if (existsSync(`${dbPath}-shm`)) {
+      await unlink(`${dbPath}-shm`);
+    }
+    if (existsSync(`${dbPath}-wal`)) {
+      await unlink(`${dbPath}-wal`);
+    }
+  });
+
+  describe("syncClients", () => {
+    test("should page through all clients and save them", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(jsonResponse(clientPage(0, 100, 150)))
+        .mockResolvedValueOnce(jsonResponse(clientPage(100, 50, 150)));
+
+      const result = await syncService.syncClients({ status: "Active" });
+
+      expect(result.complete).toBe(true);
+      expect(result.fetched).toBe(150);
+      expect(result.apiCalls).toBe(2);
+      expect(db.getClients()).toHaveLength(150);
+      expect(String(fetchMock.mock.calls[1]?.[0])).toContain("offset=100");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should pass since date as LastModifiedDate", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse(clientPage(0, 0, 0)));
+
+      await syncService.syncClients({ sinceDate: "2024-06-01" });
+
+      expect(String(fetchMock.mock.calls[0]?.[0])).toContain("LastModifiedDate=2024-06-01");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should write a sync log entry", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse(clientPage(0, 3, 3)));
+
+      await syncService.syncClients();
+
+      const logs = db.getSyncLogs();
+      expect(logs[0]?.operation).toBe("sync_clients");
+      expect(logs[0]?.status).toBe("success");
+      expect(logs[0]?.message).toBe("Synced 3 clients");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should stop early when the quota is nearly used", async () => {
+      const today = new Date().toISOString().split("T")[0] as string;
+      for (let i = 0; i < testConfig.DAILY_API_LIMIT_OVERRIDE * 0.8; i++) {
+        db.incrementApiUsage(today);
+      }
+      const fetchMock = spyOn(global, "fetch");
+
+      const result = await syncService.syncClients();
+
+      expect(result.complete).toBe(false);
+      expect(result.stoppedReason).toContain("quota");
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(db.getSyncLogs()[0]?.status).toBe("warning");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should send the stored watermark on incremental runs", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(jsonResponse(clientPage(0, 2, 2)))
+        .mockResolvedValueOnce(jsonResponse(clientPage(0, 1, 1)));
+
+      await syncService.syncClients({ status: "Active", incremental: true });
+      const watermark = db.getSyncWatermark("clients:Active");
+      await syncService.syncClients({ status: "Active", incremental: true });
+
+      expect(String(fetchMock.mock.calls[0]?.[0])).not.toContain("LastModifiedDate=");
+      expect(watermark?.highWaterMark).not.toBeNull();
+      expect(watermark?.pendingMark).toBeNull();
+      expect(String(fetchMock.mock.calls[1]?.[0])).toContain(
+        `LastModifiedDate=${encodeURIComponent(watermark!.highWaterMark!)}`
+      );
+
+      fetchMock.mockRestore();
+    });
+
+    test("should keep the original mark until an interrupted run completes", async () => {
+      db.beginSyncWatermark("clients:all", "2024-01-01T00:00:00.000Z");
+      const today = new Date().toISOString().split("T")[0] as string;
+      for (let i = 0; i < testConfig.DAILY_API_LIMIT_OVERRIDE * 0.8; i++) {
+        db.incrementApiUsage(today);
+      }
+
+      await syncService.syncClients({ incremental: true });
+
+      expect(db.getSyncWatermark("clients:all")).toMatchObject({
+        highWaterMark: null,
+        pendingMark: "2024-01-01T00:00:00.000Z",
+      });
+    });
+
+    test("should count only rows whose data changed", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(jsonResponse(clientPage(0, 3, 3)))
+        .mockResolvedValueOnce(jsonResponse(clientPage(0, 3, 3)));
+
+      await syncService.syncClients({ incremental: true });
+      const result = await syncService.syncClients({ incremental: true });
+
+      expect(result.fetched).toBe(3);
+      expect(result.saved).toBe(0);
+
+      fetchMock.mockRestore();
+    });
+
+    test("should log and rethrow API errors", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(
+        new Response("Bad request", { status: 400 })
+      );
+
+      await expect(syncService.syncClients()).rejects.toThrow("API request failed: 400");
+      expect(db.getSyncLogs()[0]?.status).toBe("error");
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("syncSales", () => {
+    test("should request each weekly window and save sales", async () => {
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(jsonResponse({ Sales: [{ Id: 1, SaleDate: "2024-01-02", TotalAmount: 10 }] }))
+        .mockResolvedValueOnce(jsonResponse({ Sales: [{ Id: 2, SaleDate: "2024-01-09", ClientId: "c-1" }] }));
+
+      const result = await syncService.syncSales({ startDate: "2024-01-01", endDate: "2024-01-14" });
+
+      expect(result.complete).toBe(true);
+      expect(result.apiCalls).toBe(2);
+      expect(result).toMatchObject({ fetched: 2, saved: 2 });
+      expect(result).not.toHaveProperty("sales");
+      expect(db.getSalesInRange({ startDate: "2024-01-01", endDate: "2024-01-14" })).toEqual([
+        { Id: 1, SaleDate: "2024-01-02", TotalAmount: 10 },
+        { Id: 2, SaleDate: "2024-01-09", ClientId: "c-1" },
+      ]);
+      expect(String(fetchMock.mock.calls[1]?.[0])).toContain("StartSaleDateTime=2024-01-08");
+
+      fetchMock.mockRestore();
+    });
+
+    test("should resume an interrupted single-window export at its page offset", async () => {
+      const salePage = (start: number, count: number, total: number) => ({
+        Sales: Array.from({ length: count }, (_, i) => ({ Id: start + i, SaleDate: "2024-01-02" })),
+        PaginationResponse: { RequestedLimit: 100, RequestedOffset: start, PageSize: count, TotalResults: total },
+      });
+      const fetchMock = spyOn(global, "fetch")
+        .mockResolvedValueOnce(jsonResponse(salePage(0, 100, 150)))
+        .mockResolvedValueOnce(new Response("Bad request", { status: 400 }))
+        .mockResolvedValueOnce(jsonResponse(salePage(100, 50, 150)));
+
+      const range = { startDate: "2024-01-01", endDate: "2024-01-07" };
+      await expect(syncService.syncSales(range)).rejects.toThrow("API request failed: 400");
+      const resumed = await syncService.syncSales(range);
+
+      expect(resumed).toMatchObject({ complete: true, fetched: 50, apiCalls: 1 });
+      expect(String(fetchMock.mock.calls[2]?.[0])).toContain("offset=100");
+      expect(db.getCacheSummary().sales).toBe(150);
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("syncAppointments", () => {
+    test("should store appointments through transformAppointment", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+        Appointments: [
+          { Id: 11, StartDateTime: "2024-01-01T10:00:00", EndDateTime: "2024-01-01T11:00:00", StaffId: 5 },
+        ],
+      }));
+
+      const result = await syncService.syncAppointments({ startDate: "2024-01-01", endDate: "2024-01-07" });
+
+      expect(result.complete).toBe(true);
+      expect(result.saved).toBe(1);
+      expect(db.getAppointments()[0]).toMatchObject({ id: "11", staffId: "5" });
+      expect(db.getSyncLogs()[0]?.message).toBe("Synced 1 appointments");
+
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("syncBookableItems", () => {
+    test("should store bookable items through transformBookableItem", async () => {
+      const fetchMock = spyOn(global, "fetch").mockResolvedValueOnce(jsonResponse({
+        BookableItems: [{ Id: "b-1", Name: "Cut", SessionType: { Id: "10" } }],
+      }));
+
+      const result = await syncService.syncBookableItems({ sessionTypeIds: ["10"] });
+
+      expect(result.saved).toBe(1);
+      expect(db.getBookableItems()[0]).toMatchObject({ id: "b-1", sessionTypeId: "10" });
+      expect(String(fetchMock.mock.calls[0]?.[0])).toContain("SessionTypeIds=10");
+
+      fetchMock.mockRestore();
+    });
+  });
+});
+
+describe("splitDateRange", () => {
+  test("should split a range into weekly windows", () => {
+    expect(splitDateRange("2024-01-01", "2024-01-20")).toEqual([
+      { startDate: "2024-01-01", endDate: "2024-01-07" },
+      { startDate: "2024-01-08", endDate: "2024-01-14" },
+      { startDate: "2024-01-15", endDate: "2024-01-20" },
+    ]);
+  });
+
+  test("should handle a single day", () => {
+    expect(splitDateRange("2024-03-05", "2024-03-05")).toEqual([
+      { startDate: "2024-03-05", endDate: "2024-03-05" },
+    ]);
+  });
+
+  test("should reject reversed ranges", () => {
+    expect(() => splitDateRange("2024-02-01", "2024-01-01")).toThrow("is after end date");
+  });
+});
+
+describe("toClientRecord", () => {
+  test("should map Mindbody fields to database columns", () => {
+    expect(toClientRecord({ Id: "1", FirstName: "Jane", Email: "jane@example.com" })).toEqual({
+      id: "1",
+      firstName: "Jane",
+      lastName: undefined,
+      email: "jane@example.com",
+      status: undefined,
+      rawData: { Id: "1", FirstName: "Jane", Email: "jane@example.com" },
+    });
+  });
+});
@@ -1,11 +1,27 @@
 import { z } from "zod";
+import { CredentialVault, vaultOptions } from "./services/credentialVault.js";
 
 const envSchema = z.object({
   // Mindbody Developer Credentials
   MBO_API_KEY: z.string().min(1, "Mindbody API key is required"),
   MBO_SITE_ID: z.string().min(1, "Mindbody Site ID is required").default("-99"),
   MBO_STAFF_USERNAME: z.string().min(1, "Staff username is required").default("Siteowner"),
-  MBO_STAFF_PASSWORD: z.string().min(1, "Staff password is required").default("apitest1234"),
+  MBO_STAFF_PASSWORD: z.string().min(1, "Staff password is required"),
+  // JSON list of further sites ({ siteId, staffUsername, staffPassword, ... })
+  MBO_SITES_FILE: z.string().optional(),
+
+  // OAuth consumer app, for tools acting as a client user (optional)
+  MBO_OAUTH_CLIENT_ID: z.string().optional(),
+  MBO_OAUTH_CLIENT_SECRET: z.string().optional(),
+  MBO_OAUTH_REDIRECT_URI: z.string().url().optional(),
+
+  // Key for tokens stored in SQLite; a key file in DATA_DIR is generated when unset
+  TOKEN_ENCRYPTION_KEY: z.string().min(16).optional(),
+
+  // Credential vault in DATA_DIR (see scripts/vault.ts); the master key comes
+  // from MBO_VAULT_KEY, the OS keyring when enabled, or DATA_DIR/.vault-key
+  MBO_VAULT_KEY: z.string().min(16).optional(),
+  MBO_VAULT_KEYRING: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
 
   // Server Config
   MCP_SERVER_NAME: z.string().default("mindbody-migrator"),
@@ -14,13 +30,35 @@ const envSchema = z.object({
 
   // Safety Limits
   DAILY_API_LIMIT_OVERRIDE: z.coerce.number().default(950),
+
+  // Retries for throttled (429), transient 5xx and network failures
+  API_MAX_RETRIES: z.coerce.number().int().min(0).optional(),
+  API_RETRY_BASE_MS: z.coerce.number().int().positive().optional(),
+
+  // Comma-separated API tools whose GET responses are served from the cache
+  API_CACHE_TOOLS: z.string()
+    .transform((value) => value.split(",").map((name) => name.trim()).filter(Boolean))
+    .optional(),
+
+  // Approval Gate (writes rated at or above the threshold wait for approve_action)
+  APPROVAL_RISK_THRESHOLD: z.enum(["low", "medium", "high"]).optional(),
+  APPROVAL_MAX_RECORDS: z.coerce.number().int().positive().optional(),
 });
 
 export type Config = z.infer<typeof envSchema>;
 
+/**
+ * Settings that locate or unlock the vault, so they never come from it
+ */
+const NOT_FROM_VAULT = new Set(["DATA_DIR", "MBO_VAULT_KEY", "MBO_VAULT_KEYRING"]);
+
+/**
+ * Validated configuration from the environment. Secrets stored in the
+ * credential vault take precedence over environment variables.
+ */
 export function loadConfig(): Config {
   try {
-    const config = envSchema.parse(process.env);
+    const config = envSchema.parse(withVaultSecrets(process.env));
     return config;
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -31,4 +69,25 @@ export function loadConfig(): Config {
   }
 }
 
+function withVaultSecrets(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const vault = CredentialVault.openIfPresent(vaultOptions({
+    DATA_DIR: env.DATA_DIR ?? "./data",
+    MBO_VAULT_KEY: env.MBO_VAULT_KEY,
+    MBO_VAULT_KEYRING: env.MBO_VAULT_KEYRING === "true",
+  }));
+  if (!vault) {
+    return env;
+  }
+
+  const secrets: Record<string, string> = {};
+  for (const name of vault.list()) {
+    const value = vault.get(name);
+    if (name in envSchema.shape && !NOT_FROM_VAULT.has(name) && value !== undefined) {
+      secrets[name] = value;
+    }
+  }
+  return { ...env, ...secrets };
+}
+
 export const MINDBODY_API_BASE = "https://api.mindbodyonline.com/public/v6";
+export const MINDBODY_OAUTH_BASE = "https://signin.mindbodyonline.com";
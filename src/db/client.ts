@@ -1,23 +1,156 @@
 import { Database } from "bun:sqlite";
-import { SCHEMA_SQL } from "./schema.js";
+import { applyMigrations, getSchemaVersion, planMigrations } from "./migrations.js";
+import type { MigrationPlan } from "./migrations.js";
 import type { Config } from "../config.js";
+import type { Appointment, BookableItem } from "../types/appointment.js";
+import type { ClassRecord, ClassVisit } from "../types/class.js";
+import type { StaffPermissionGroup, StaffRecord, StaffSessionTypeRecord } from "../types/staff.js";
+import type { SiteReferenceKind, SiteReferenceRecord } from "../types/site.js";
+import type {
+  ClientContractRecord,
+  ClientMembershipSummary,
+  ClientServiceRecord,
+  MindbodyContract,
+  MindbodyService,
+} from "../types/contract.js";
+import type { SaleDetail, SaleReconciliation, SaleTransactionRecord } from "../types/sale.js";
+import type { AuditEntityType, AuditEntry } from "../types/audit.js";
+import type { GatedRequest, PendingAction, PendingActionStatus, RiskAssessment } from "../types/approval.js";
+import { clientPhones, normalizeEmail, normalizeName, normalizePhone } from "../types/client.js";
+import type { ClientDuplicateCandidate, ClientMatchKey, ClientMatchProbe } from "../types/client.js";
 import { join } from "path";
 
+export type StoredAppointment = Pick<
+  Appointment,
+  "id" | "startDateTime" | "endDateTime" | "clientId" | "staffId" | "locationId" | "sessionTypeId" | "status" | "rawData" | "lastSyncedAt"
+>;
+
+export interface StoredBookableItem {
+  id: string;
+  name: string | null;
+  sessionTypeId: string | null;
+  programId: string | null;
+  rawData: BookableItem["rawData"];
+  lastSyncedAt: string;
+}
+
+export interface AppointmentFilters {
+  startDate?: string;
+  endDate?: string;
+  clientId?: string;
+  staffId?: string;
+  locationId?: string;
+  status?: string;
+}
+
+/** Lookup table for each /site reference list */
+const SITE_REFERENCE_TABLES: Record<SiteReferenceKind, string> = {
+  sites: "sites",
+  locations: "locations",
+  programs: "programs",
+  sessiontypes: "session_types",
+  resources: "resources",
+};
+
+/** Differences below a cent are rounding, not a mismatch */
+const RECONCILIATION_TOLERANCE = 0.005;
+
+/** Client IDs per IN (...) list when looking up linked records */
+const LINKED_RECORDS_BATCH = 500;
+
+interface AuditRow {
+  id: number;
+  endpoint: string;
+  entity_type: string | null;
+  entity_id: string | null;
+  before_state: string | null;
+  before_source: string | null;
+  request_body: string | null;
+  response_body: string | null;
+  status: string;
+  error: string | null;
+  test: number;
+  undo_of: number | null;
+  undone_by: number | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface PendingActionRow {
+  id: number;
+  token: string;
+  method: string;
+  endpoint: string;
+  params: string | null;
+  request_body: string | null;
+  undo_of: number | null;
+  acting_client_id: string | null;
+  idempotency_key: string | null;
+  risk_level: string;
+  reasons: string;
+  record_count: number;
+  status: string;
+  error: string | null;
+  created_at: string;
+  expires_at: string;
+  resolved_at: string | null;
+}
+
+interface StaffRow {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  display_name: string | null;
+  email: string | null;
+  mobile_phone: string | null;
+  appointment_instructor: number;
+  class_teacher: number;
+  sort_order: number | null;
+  last_synced_at: string;
+  raw_data: string;
+}
+
+interface AppointmentRow {
+  id: string;
+  start_date_time: string;
+  end_date_time: string;
+  client_id: string | null;
+  staff_id: string | null;
+  location_id: string | null;
+  session_type_id: string | null;
+  status: string | null;
+  last_synced_at: string;
+  raw_data: string;
+}
+
 export class DatabaseClient {
   private db: Database;
+  /** Migrations applied when this client opened the database */
+  readonly migrations: MigrationPlan;
 
   constructor(config: Config) {
     const dbPath = join(config.DATA_DIR, "mindbody.db");
     this.db = new Database(dbPath);
-    this.initialize();
+    this.migrations = this.initialize();
   }
 
-  private initialize(): void {
+  private initialize(): MigrationPlan {
     // Enable WAL mode for better concurrent access
     this.db.exec("PRAGMA journal_mode = WAL");
 
-    // Create tables
-    this.db.exec(SCHEMA_SQL);
+    // Bring the schema up to date
+    return applyMigrations(this.db);
+  }
+
+  getSchemaVersion(): number {
+    return getSchemaVersion(this.db);
+  }
+
+  /**
+   * Dry-run report of migrations not yet applied
+   */
+  planMigrations(): MigrationPlan {
+    return planMigrations(this.db);
   }
 
   saveClient(client: {
@@ -27,7 +160,8 @@ export class DatabaseClient {
     email?: string;
     status?: string;
     rawData: unknown;
-  }): void {
+  }): boolean {
+    // Rows whose payload is unchanged are left untouched
     const stmt = this.db.prepare(`
       INSERT INTO clients (id, first_name, last_name, email, status, raw_data, last_synced_at)
       VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
@@ -38,9 +172,10 @@ export class DatabaseClient {
         status = excluded.status,
         raw_data = excluded.raw_data,
         last_synced_at = CURRENT_TIMESTAMP
+      WHERE clients.raw_data IS NOT excluded.raw_data
     `);
 
-    stmt.run(
+    const result = stmt.run(
       client.id,
       client.firstName ?? null,
       client.lastName ?? null,
@@ -48,8 +183,13 @@ export class DatabaseClient {
       client.status ?? null,
       JSON.stringify(client.rawData)
     );
+
+    return result.changes > 0;
   }
 
+  /**
+   * Upsert clients in one transaction, returning how many rows changed
+   */
   saveClients(clients: Array<{
     id: string;
     firstName?: string;
@@ -57,11 +197,15 @@ export class DatabaseClient {
     email?: string;
     status?: string;
     rawData: unknown;
-  }>): void {
-    this.db.transaction(() => {
+  }>): number {
+    return this.db.transaction(() => {
+      let changed = 0;
       for (const client of clients) {
-        this.saveClient(client);
+        if (this.saveClient(client)) {
+          changed++;
+        }
       }
+      return changed;
     })();
   }
 
@@ -102,6 +246,118 @@ export class DatabaseClient {
     }));
   }
 
+  /**
+   * Cached clients sharing an email, normalized name or phone number with
+   * the probe, most matched keys first
+   *
+   * Phones live in raw_data, so this scans the table; fine at studio scale.
+   */
+  findClientDuplicates(probe: ClientMatchProbe): ClientDuplicateCandidate[] {
+    const email = normalizeEmail(probe.email);
+    const name = normalizeName(probe.firstName, probe.lastName);
+    const phones = new Set(
+      (probe.phones ?? []).map(normalizePhone).filter((phone): phone is string => phone !== null)
+    );
+    if (!email && !name && phones.size === 0) {
+      return [];
+    }
+
+    const candidates: ClientDuplicateCandidate[] = [];
+    for (const client of this.getClients()) {
+      const clientPhoneList = clientPhones(client.rawData);
+      const matchedOn: ClientMatchKey[] = [];
+
+      if (email && normalizeEmail(client.email) === email) {
+        matchedOn.push("email");
+      }
+      if (name && normalizeName(client.firstName, client.lastName) === name) {
+        matchedOn.push("name");
+      }
+      if (clientPhoneList.some((phone) => phones.has(normalizePhone(phone) ?? ""))) {
+        matchedOn.push("phone");
+      }
+
+      if (matchedOn.length > 0) {
+        candidates.push({
+          id: client.id,
+          firstName: client.firstName,
+          lastName: client.lastName,
+          email: client.email,
+          status: client.status,
+          phones: clientPhoneList,
+          matchedOn,
+        });
+      }
+    }
+
+    return candidates.sort((a, b) => b.matchedOn.length - a.matchedOn.length || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Sales and appointments stored against each client, i.e. what a merge
+   * would have to re-point
+   */
+  getClientLinkedRecords(clientIds: string[]): Map<string, { saleIds: string[]; appointmentIds: string[] }> {
+    const linked = new Map(clientIds.map((id) => [id, { saleIds: [] as string[], appointmentIds: [] as string[] }]));
+
+    for (let start = 0; start < clientIds.length; start += LINKED_RECORDS_BATCH) {
+      const batch = clientIds.slice(start, start + LINKED_RECORDS_BATCH);
+      const placeholders = batch.map(() => "?").join(", ");
+
+      const sales = this.db.query(
+        `SELECT id, client_id FROM sales WHERE client_id IN (${placeholders}) ORDER BY sale_date`
+      ).all(...batch) as Array<{ id: string; client_id: string }>;
+      for (const sale of sales) {
+        linked.get(sale.client_id)?.saleIds.push(sale.id);
+      }
+
+      const appointments = this.db.query(
+        `SELECT id, client_id FROM appointments WHERE client_id IN (${placeholders}) ORDER BY start_date_time`
+      ).all(...batch) as Array<{ id: string; client_id: string }>;
+      for (const appointment of appointments) {
+        linked.get(appointment.client_id)?.appointmentIds.push(appointment.id);
+      }
+    }
+
+    return linked;
+  }
+
+  getClient(id: string): {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+    status: string | null;
+    lastSyncedAt: string;
+    rawData: unknown;
+  } | null {
+    const row = this.db.query(
+      "SELECT id, first_name, last_name, email, status, last_synced_at, raw_data FROM clients WHERE id = ?"
+    ).get(id) as {
+      id: string;
+      first_name: string | null;
+      last_name: string | null;
+      email: string | null;
+      status: string | null;
+      last_synced_at: string;
+      raw_data: string;
+    } | null;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      email: row.email,
+      status: row.status,
+      lastSyncedAt: row.last_synced_at,
+      rawData: JSON.parse(row.raw_data),
+    };
+  }
+
   saveSale(sale: {
     id: string;
     saleDate: string;
@@ -143,6 +399,1250 @@ export class DatabaseClient {
     })();
   }
 
+  /**
+   * API payloads of cached sales dated within the inclusive range, oldest first
+   */
+  getSalesInRange(filters: { startDate: string; endDate: string }): unknown[] {
+    const rows = this.db.query(`
+      SELECT raw_data FROM sales
+      WHERE date(sale_date) >= ? AND date(sale_date) <= ?
+      ORDER BY sale_date, id
+    `).all(filters.startDate, filters.endDate) as Array<{ raw_data: string }>;
+
+    return rows.map(row => JSON.parse(row.raw_data));
+  }
+
+  /**
+   * Replace the line items and payments of each sale
+   */
+  saveSaleDetails(details: SaleDetail[]): void {
+    const insertItem = this.db.prepare(`
+      INSERT INTO sale_items (
+        sale_id, line_number, item_id, description, is_service, quantity,
+        unit_price, discount_amount, tax_amount, total_amount, returned, raw_data
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertPayment = this.db.prepare(`
+      INSERT INTO sale_payments (sale_id, line_number, payment_id, amount, method, type, transaction_id, raw_data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const detail of details) {
+        this.db.prepare("DELETE FROM sale_items WHERE sale_id = ?").run(detail.saleId);
+        this.db.prepare("DELETE FROM sale_payments WHERE sale_id = ?").run(detail.saleId);
+
+        for (const item of detail.items) {
+          insertItem.run(
+            item.saleId,
+            item.lineNumber,
+            item.itemId,
+            item.description,
+            item.isService ? 1 : 0,
+            item.quantity,
+            item.unitPrice,
+            item.discountAmount,
+            item.taxAmount,
+            item.totalAmount,
+            item.returned ? 1 : 0,
+            JSON.stringify(item.rawData)
+          );
+        }
+        for (const payment of detail.payments) {
+          insertPayment.run(
+            payment.saleId,
+            payment.lineNumber,
+            payment.paymentId,
+            payment.amount,
+            payment.method,
+            payment.type,
+            payment.transactionId,
+            JSON.stringify(payment.rawData)
+          );
+        }
+      }
+    })();
+  }
+
+  getSaleDetail(saleId: string): SaleDetail {
+    const items = this.db.query(`
+      SELECT sale_id, line_number, item_id, description, is_service, quantity,
+        unit_price, discount_amount, tax_amount, total_amount, returned, raw_data
+      FROM sale_items WHERE sale_id = ? ORDER BY line_number
+    `).all(saleId) as Array<{
+      sale_id: string;
+      line_number: number;
+      item_id: string | null;
+      description: string | null;
+      is_service: number;
+      quantity: number | null;
+      unit_price: number | null;
+      discount_amount: number | null;
+      tax_amount: number | null;
+      total_amount: number | null;
+      returned: number;
+      raw_data: string;
+    }>;
+    const payments = this.db.query(`
+      SELECT sale_id, line_number, payment_id, amount, method, type, transaction_id, raw_data
+      FROM sale_payments WHERE sale_id = ? ORDER BY line_number
+    `).all(saleId) as Array<{
+      sale_id: string;
+      line_number: number;
+      payment_id: string | null;
+      amount: number | null;
+      method: string | null;
+      type: string | null;
+      transaction_id: string | null;
+      raw_data: string;
+    }>;
+
+    return {
+      saleId,
+      items: items.map(row => ({
+        saleId: row.sale_id,
+        lineNumber: row.line_number,
+        itemId: row.item_id,
+        description: row.description,
+        isService: row.is_service === 1,
+        quantity: row.quantity,
+        unitPrice: row.unit_price,
+        discountAmount: row.discount_amount,
+        taxAmount: row.tax_amount,
+        totalAmount: row.total_amount,
+        returned: row.returned === 1,
+        rawData: JSON.parse(row.raw_data),
+      })),
+      payments: payments.map(row => ({
+        saleId: row.sale_id,
+        lineNumber: row.line_number,
+        paymentId: row.payment_id,
+        amount: row.amount,
+        method: row.method,
+        type: row.type,
+        transactionId: row.transaction_id,
+        rawData: JSON.parse(row.raw_data),
+      })),
+    };
+  }
+
+  /**
+   * Compare each cached sale's line items (and payments) with its
+   * total_amount, for sales dated within the inclusive range
+   */
+  getSaleReconciliation(filters: { startDate: string; endDate: string }): SaleReconciliation[] {
+    const rows = this.db.query(`
+      SELECT s.id, s.sale_date, s.client_id, s.total_amount,
+        COALESCE(i.item_count, 0) as item_count,
+        COALESCE(i.items_total, 0) as items_total,
+        COALESCE(i.tax_total, 0) as tax_total,
+        COALESCE(p.payment_count, 0) as payment_count,
+        COALESCE(p.payments_total, 0) as payments_total
+      FROM sales s
+      LEFT JOIN (
+        SELECT sale_id, COUNT(*) as item_count, SUM(COALESCE(total_amount, 0)) as items_total,
+          SUM(COALESCE(tax_amount, 0)) as tax_total
+        FROM sale_items GROUP BY sale_id
+      ) i ON i.sale_id = s.id
+      LEFT JOIN (
+        SELECT sale_id, COUNT(*) as payment_count, SUM(COALESCE(amount, 0)) as payments_total
+        FROM sale_payments GROUP BY sale_id
+      ) p ON p.sale_id = s.id
+      WHERE date(s.sale_date) >= ? AND date(s.sale_date) <= ?
+      ORDER BY s.sale_date, s.id
+    `).all(filters.startDate, filters.endDate) as Array<{
+      id: string;
+      sale_date: string;
+      client_id: string | null;
+      total_amount: number | null;
+      item_count: number;
+      items_total: number;
+      tax_total: number;
+      payment_count: number;
+      payments_total: number;
+    }>;
+
+    return rows.map(row => {
+      const difference = row.total_amount === null || row.item_count === 0
+        ? null
+        : Math.round((row.items_total - row.total_amount) * 100) / 100;
+      const status = row.total_amount === null
+        ? "no_total"
+        : row.item_count === 0
+          ? "no_items"
+          : Math.abs(row.items_total - row.total_amount) < RECONCILIATION_TOLERANCE
+            ? "matched"
+            : "mismatch";
+
+      return {
+        saleId: row.id,
+        saleDate: row.sale_date,
+        clientId: row.client_id,
+        totalAmount: row.total_amount,
+        itemCount: row.item_count,
+        itemsTotal: row.items_total,
+        taxTotal: row.tax_total,
+        paymentCount: row.payment_count,
+        paymentsTotal: row.payments_total,
+        difference,
+        status,
+      };
+    });
+  }
+
+  /**
+   * Payment totals per method for sales dated within the inclusive range
+   */
+  getSalePaymentBreakdown(filters: { startDate: string; endDate: string }): Array<{
+    type: string | null;
+    method: string | null;
+    count: number;
+    total: number;
+  }> {
+    return this.db.query(`
+      SELECT p.type, p.method, COUNT(*) as count, SUM(COALESCE(p.amount, 0)) as total
+      FROM sale_payments p
+      JOIN sales s ON s.id = p.sale_id
+      WHERE date(s.sale_date) >= ? AND date(s.sale_date) <= ?
+      GROUP BY p.type, p.method
+      ORDER BY total DESC
+    `).all(filters.startDate, filters.endDate) as Array<{
+      type: string | null;
+      method: string | null;
+      count: number;
+      total: number;
+    }>;
+  }
+
+  saveSaleTransactions(transactions: SaleTransactionRecord[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO sale_transactions (
+        id, sale_id, client_id, amount, settled, status, transaction_time,
+        location_id, card_type, raw_data, last_synced_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        sale_id = excluded.sale_id,
+        client_id = excluded.client_id,
+        amount = excluded.amount,
+        settled = excluded.settled,
+        status = excluded.status,
+        transaction_time = excluded.transaction_time,
+        location_id = excluded.location_id,
+        card_type = excluded.card_type,
+        raw_data = excluded.raw_data,
+        last_synced_at = CURRENT_TIMESTAMP
+    `);
+
+    this.db.transaction(() => {
+      for (const transaction of transactions) {
+        stmt.run(
+          transaction.id,
+          transaction.saleId,
+          transaction.clientId,
+          transaction.amount,
+          transaction.settled ? 1 : 0,
+          transaction.status,
+          transaction.transactionTime,
+          transaction.locationId,
+          transaction.cardType,
+          JSON.stringify(transaction.rawData)
+        );
+      }
+    })();
+  }
+
+  getSaleTransactions(saleId: string): SaleTransactionRecord[] {
+    const rows = this.db.query(`
+      SELECT id, sale_id, client_id, amount, settled, status, transaction_time, location_id, card_type, raw_data
+      FROM sale_transactions WHERE sale_id = ? ORDER BY transaction_time
+    `).all(saleId) as Array<{
+      id: string;
+      sale_id: string | null;
+      client_id: string | null;
+      amount: number | null;
+      settled: number;
+      status: string | null;
+      transaction_time: string | null;
+      location_id: string | null;
+      card_type: string | null;
+      raw_data: string;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      saleId: row.sale_id,
+      clientId: row.client_id,
+      amount: row.amount,
+      settled: row.settled === 1,
+      status: row.status,
+      transactionTime: row.transaction_time,
+      locationId: row.location_id,
+      cardType: row.card_type,
+      rawData: JSON.parse(row.raw_data),
+    }));
+  }
+
+  /**
+   * Replace a client's contracts with a complete download
+   */
+  saveClientContracts(clientId: string, records: ClientContractRecord[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO client_contracts (
+        id, client_id, contract_id, name, start_date, end_date, termination_date,
+        autopay_status, auto_renewing, raw_data, last_synced_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM client_contracts WHERE client_id = ?").run(clientId);
+      for (const record of records) {
+        insert.run(
+          record.id,
+          record.clientId,
+          record.contractId,
+          record.name,
+          record.startDate,
+          record.endDate,
+          record.terminationDate,
+          record.autopayStatus,
+          record.autoRenewing ? 1 : 0,
+          JSON.stringify(record.rawData)
+        );
+      }
+    })();
+  }
+
+  getClientContracts(clientId: string): ClientContractRecord[] {
+    return this.queryClientContracts("client_id = ?", [clientId]);
+  }
+
+  /**
+   * Replace the pricing options of every client in clientIds with a
+   * complete download for that batch
+   */
+  saveClientServices(clientIds: string[], records: ClientServiceRecord[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO client_services (
+        id, client_id, product_id, name, program_id, active_date, expiration_date,
+        count, remaining, current, returned, raw_data, last_synced_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        client_id = excluded.client_id,
+        product_id = excluded.product_id,
+        name = excluded.name,
+        program_id = excluded.program_id,
+        active_date = excluded.active_date,
+        expiration_date = excluded.expiration_date,
+        count = excluded.count,
+        remaining = excluded.remaining,
+        current = excluded.current,
+        returned = excluded.returned,
+        raw_data = excluded.raw_data,
+        last_synced_at = CURRENT_TIMESTAMP
+    `);
+    const remove = this.db.prepare("DELETE FROM client_services WHERE client_id = ?");
+
+    this.db.transaction(() => {
+      for (const clientId of clientIds) {
+        remove.run(clientId);
+      }
+      for (const record of records) {
+        insert.run(
+          record.id,
+          record.clientId,
+          record.productId,
+          record.name,
+          record.programId,
+          record.activeDate,
+          record.expirationDate,
+          record.count,
+          record.remaining,
+          record.current ? 1 : 0,
+          record.returned ? 1 : 0,
+          JSON.stringify(record.rawData)
+        );
+      }
+    })();
+  }
+
+  getClientServices(clientId: string): ClientServiceRecord[] {
+    return this.queryClientServices("client_id = ?", [clientId]);
+  }
+
+  saveContracts(contracts: MindbodyContract[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO contracts (id, name, assigns_membership_name, raw_data, last_synced_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        assigns_membership_name = excluded.assigns_membership_name,
+        raw_data = excluded.raw_data,
+        last_synced_at = CURRENT_TIMESTAMP
+    `);
+
+    this.db.transaction(() => {
+      for (const contract of contracts) {
+        stmt.run(
+          contract.Id.toString(),
+          contract.Name ?? null,
+          contract.AssignsMembershipName ?? null,
+          JSON.stringify(contract)
+        );
+      }
+    })();
+  }
+
+  saveServices(services: MindbodyService[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO services (id, name, program_id, price, count, raw_data, last_synced_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        program_id = excluded.program_id,
+        price = excluded.price,
+        count = excluded.count,
+        raw_data = excluded.raw_data,
+        last_synced_at = CURRENT_TIMESTAMP
+    `);
+
+    this.db.transaction(() => {
+      for (const service of services) {
+        stmt.run(
+          service.Id,
+          service.Name ?? null,
+          service.ProgramId?.toString() ?? null,
+          service.Price ?? null,
+          service.Count ?? null,
+          JSON.stringify(service)
+        );
+      }
+    })();
+  }
+
+  /**
+   * Active contracts and pricing options per client as of a date
+   *
+   * A contract is active between its start and end dates unless terminated;
+   * a pricing option is active while Mindbody flags it current, it has not
+   * been returned and it has not expired. Clients with neither are omitted.
+   */
+  getClientMemberships(filters: { clientIds?: string[]; asOf: string }): ClientMembershipSummary[] {
+    const clientFilter = filters.clientIds && filters.clientIds.length > 0
+      ? ` AND client_id IN (${filters.clientIds.map(() => "?").join(", ")})`
+      : "";
+    const clientValues = filters.clientIds ?? [];
+
+    const contracts = this.queryClientContracts(
+      `(start_date IS NULL OR date(start_date) <= ?)
+        AND (end_date IS NULL OR date(end_date) >= ?)
+        AND (termination_date IS NULL OR date(termination_date) > ?)${clientFilter}`,
+      [filters.asOf, filters.asOf, filters.asOf, ...clientValues]
+    );
+    const services = this.queryClientServices(
+      `current = 1 AND returned = 0
+        AND (expiration_date IS NULL OR date(expiration_date) >= ?)${clientFilter}`,
+      [filters.asOf, ...clientValues]
+    );
+
+    const summaries = new Map<string, ClientMembershipSummary>();
+    const summaryFor = (clientId: string): ClientMembershipSummary => {
+      let summary = summaries.get(clientId);
+      if (!summary) {
+        const client = this.getClient(clientId);
+        summary = {
+          clientId,
+          firstName: client?.firstName ?? null,
+          lastName: client?.lastName ?? null,
+          activeContracts: [],
+          activeServices: [],
+          remainingVisits: 0,
+        };
+        summaries.set(clientId, summary);
+      }
+      return summary;
+    };
+
+    for (const contract of contracts) {
+      summaryFor(contract.clientId).activeContracts.push(contract);
+    }
+    for (const service of services) {
+      const summary = summaryFor(service.clientId);
+      summary.activeServices.push(service);
+      summary.remainingVisits += service.remaining ?? 0;
+    }
+
+    return [...summaries.values()].sort((a, b) => a.clientId.localeCompare(b.clientId));
+  }
+
+  private queryClientContracts(where: string, values: string[]): ClientContractRecord[] {
+    const rows = this.db.query(`
+      SELECT id, client_id, contract_id, name, start_date, end_date, termination_date,
+        autopay_status, auto_renewing, raw_data
+      FROM client_contracts WHERE ${where}
+      ORDER BY client_id, start_date
+    `).all(...values) as Array<{
+      id: string;
+      client_id: string;
+      contract_id: string | null;
+      name: string | null;
+      start_date: string | null;
+      end_date: string | null;
+      termination_date: string | null;
+      autopay_status: string | null;
+      auto_renewing: number;
+      raw_data: string;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      clientId: row.client_id,
+      contractId: row.contract_id,
+      name: row.name,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      terminationDate: row.termination_date,
+      autopayStatus: row.autopay_status,
+      autoRenewing: row.auto_renewing === 1,
+      rawData: JSON.parse(row.raw_data),
+    }));
+  }
+
+  private queryClientServices(where: string, values: string[]): ClientServiceRecord[] {
+    const rows = this.db.query(`
+      SELECT id, client_id, product_id, name, program_id, active_date, expiration_date,
+        count, remaining, current, returned, raw_data
+      FROM client_services WHERE ${where}
+      ORDER BY client_id, expiration_date
+    `).all(...values) as Array<{
+      id: string;
+      client_id: string;
+      product_id: string | null;
+      name: string | null;
+      program_id: string | null;
+      active_date: string | null;
+      expiration_date: string | null;
+      count: number | null;
+      remaining: number | null;
+      current: number;
+      returned: number;
+      raw_data: string;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      clientId: row.client_id,
+      productId: row.product_id,
+      name: row.name,
+      programId: row.program_id,
+      activeDate: row.active_date,
+      expirationDate: row.expiration_date,
+      count: row.count,
+      remaining: row.remaining,
+      current: row.current === 1,
+      returned: row.returned === 1,
+      rawData: JSON.parse(row.raw_data),
+    }));
+  }
+
+  saveAppointment(appointment: Appointment): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO appointments (
+        id, start_date_time, end_date_time, client_id, staff_id,
+        location_id, session_type_id, status, raw_data, last_synced_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        start_date_time = excluded.start_date_time,
+        end_date_time = excluded.end_date_time,
+        client_id = excluded.client_id,
+        staff_id = excluded.staff_id,
+        location_id = excluded.location_id,
+        session_type_id = excluded.session_type_id,
+        status = excluded.status,
+        raw_data = excluded.raw_data,
+        last_synced_at = CURRENT_TIMESTAMP
+    `);
+
+    stmt.run(
+      appointment.id,
+      appointment.startDateTime,
+      appointment.endDateTime,
+      appointment.clientId,
+      appointment.staffId,
+      appointment.locationId,
+      appointment.sessionTypeId,
+      appointment.status,
+      JSON.stringify(appointment.rawData)
+    );
+  }
+
+  saveAppointments(appointments: Appointment[]): void {
+    this.db.transaction(() => {
+      for (const appointment of appointments) {
+        this.saveAppointment(appointment);
+      }
+    })();
+  }
+
+  /**
+   * Query cached appointments, ordered by start time
+   *
+   * startDate/endDate are compared against start_date_time; a bare
+   * YYYY-MM-DD endDate includes that whole day.
+   */
+  getAppointments(filters: AppointmentFilters = {}): StoredAppointment[] {
+    const { where, values } = this.appointmentConditions(filters);
+    const rows = this.db.query(`
+      SELECT a.id, a.start_date_time, a.end_date_time, a.client_id, a.staff_id, a.location_id,
+        a.session_type_id, a.status, a.last_synced_at, a.raw_data
+      FROM appointments a${where}
+      ORDER BY a.start_date_time
+    `).all(...values) as AppointmentRow[];
+
+    return rows.map(row => this.toStoredAppointment(row));
+  }
+
+  getAppointment(id: string): StoredAppointment | null {
+    const row = this.db.query(`
+      SELECT a.id, a.start_date_time, a.end_date_time, a.client_id, a.staff_id, a.location_id,
+        a.session_type_id, a.status, a.last_synced_at, a.raw_data
+      FROM appointments a WHERE a.id = ?
+    `).get(id) as AppointmentRow | null;
+
+    return row ? this.toStoredAppointment(row) : null;
+  }
+
+  /**
+   * Query cached appointments joined to their staff profile
+   *
+   * staff is null when the appointment has no staff ID or the staff
+   * directory has not been synced yet.
+   */
+  getAppointmentsWithStaff(filters: AppointmentFilters = {}): Array<StoredAppointment & {
+    staff: Pick<StaffRecord, "id" | "firstName" | "lastName" | "displayName" | "email"> | null;
+  }> {
+    const { where, values } = this.appointmentConditions(filters);
+    const rows = this.db.query(`
+      SELECT a.id, a.start_date_time, a.end_date_time, a.client_id, a.staff_id, a.location_id,
+        a.session_type_id, a.status, a.last_synced_at, a.raw_data,
+        s.id as staff_profile_id, s.first_name as staff_first_name, s.last_name as staff_last_name,
+        s.display_name as staff_display_name, s.email as staff_email
+      FROM appointments a
+      LEFT JOIN staff s ON s.id = a.staff_id${where}
+      ORDER BY a.start_date_time
+    `).all(...values) as Array<AppointmentRow & {
+      staff_profile_id: string | null;
+      staff_first_name: string | null;
+      staff_last_name: string | null;
+      staff_display_name: string | null;
+      staff_email: string | null;
+    }>;
+
+    return rows.map(row => ({
+      ...this.toStoredAppointment(row),
+      staff: row.staff_profile_id
+        ? {
+            id: row.staff_profile_id,
+            firstName: row.staff_first_name,
+            lastName: row.staff_last_name,
+            displayName: row.staff_display_name,
+            email: row.staff_email,
+          }
+        : null,
+    }));
+  }
+
+  private appointmentConditions(filters: AppointmentFilters): { where: string; values: string[] } {
+    const conditions: string[] = [];
+    const values: string[] = [];
+
+    if (filters.startDate) {
+      conditions.push("a.start_date_time >= ?");
+      values.push(filters.startDate);
+    }
+    if (filters.endDate) {
+      conditions.push(/^\d{4}-\d{2}-\d{2}$/.test(filters.endDate)
+        ? "date(a.start_date_time) <= ?"
+        : "a.start_date_time <= ?");
+      values.push(filters.endDate);
+    }
+    for (const [column, value] of [
+      ["a.client_id", filters.clientId],
+      ["a.staff_id", filters.staffId],
+      ["a.location_id", filters.locationId],
+      ["a.status", filters.status],
+    ] as const) {
+      if (value) {
+        conditions.push(`${column} = ?`);
+        values.push(value);
+      }
+    }
+
+    return {
+      where: conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "",
+      values,
+    };
+  }
+
+  private toStoredAppointment(row: AppointmentRow): StoredAppointment {
+    return {
+      id: row.id,
+      startDateTime: row.start_date_time,
+      endDateTime: row.end_date_time,
+      clientId: row.client_id,
+      staffId: row.staff_id,
+      locationId: row.location_id,
+      sessionTypeId: row.session_type_id,
+      status: row.status,
+      lastSyncedAt: row.last_synced_at,
+      rawData: JSON.parse(row.raw_data),
+    };
+  }
+
+  saveBookableItem(item: BookableItem): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO bookable_items (id, name, session_type_id, program_id, raw_data, last_synced_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        session_type_id = excluded.session_type_id,
+        program_id = excluded.program_id,
+        raw_data = excluded.raw_data,
+        last_synced_at = CURRENT_TIMESTAMP
+    `);
+
+    stmt.run(
+      item.id,
+      item.name,
+      item.sessionType?.id ?? null,
+      item.programId ?? item.program?.id ?? null,
+      JSON.stringify(item.rawData)
+    );
+  }
+
+  saveBookableItems(items: BookableItem[]): void {
+    this.db.transaction(() => {
+      for (const item of items) {
+        this.saveBookableItem(item);
+      }
+    })();
+  }
+
+  getBookableItems(filters: {
+    sessionTypeId?: string;
+    programId?: string;
+  } = {}): StoredBookableItem[] {
+    const conditions: string[] = [];
+    const values: string[] = [];
+
+    if (filters.sessionTypeId) {
+      conditions.push("session_type_id = ?");
+      values.push(filters.sessionTypeId);
+    }
+    if (filters.programId) {
+      conditions.push("program_id = ?");
+      values.push(filters.programId);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db.query(`
+      SELECT id, name, session_type_id, program_id, last_synced_at, raw_data
+      FROM bookable_items${where}
+      ORDER BY name
+    `).all(...values) as Array<{
+      id: string;
+      name: string | null;
+      session_type_id: string | null;
+      program_id: string | null;
+      last_synced_at: string;
+      raw_data: string;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      sessionTypeId: row.session_type_id,
+      programId: row.program_id,
+      lastSyncedAt: row.last_synced_at,
+      rawData: JSON.parse(row.raw_data),
+    }));
+  }
+
+  saveClass(record: ClassRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO classes (
+        id, class_schedule_id, class_description_id, name, start_date_time, end_date_time,
+        staff_id, location_id, is_canceled, max_capacity, total_booked, raw_data, last_synced_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        class_schedule_id = excluded.class_schedule_id,
+        class_description_id = excluded.class_description_id,
+        name = excluded.name,
+        start_date_time = excluded.start_date_time,
+        end_date_time = excluded.end_date_time,
+        staff_id = excluded.staff_id,
+        location_id = excluded.location_id,
+        is_canceled = excluded.is_canceled,
+        max_capacity = excluded.max_capacity,
+        total_booked = excluded.total_booked,
+        raw_data = excluded.raw_data,
+        last_synced_at = CURRENT_TIMESTAMP
+    `);
+
+    stmt.run(
+      record.id,
+      record.classScheduleId,
+      record.classDescriptionId,
+      record.name,
+      record.startDateTime,
+      record.endDateTime,
+      record.staffId,
+      record.locationId,
+      record.isCanceled ? 1 : 0,
+      record.maxCapacity,
+      record.totalBooked,
+      JSON.stringify(record.rawData)
+    );
+  }
+
+  saveClasses(records: ClassRecord[]): void {
+    this.db.transaction(() => {
+      for (const record of records) {
+        this.saveClass(record);
+      }
+    })();
+  }
+
+  /**
+   * Query cached classes, ordered by start time
+   *
+   * A bare YYYY-MM-DD endDate includes that whole day.
+   */
+  getClasses(filters: {
+    startDate?: string;
+    endDate?: string;
+    classDescriptionId?: string;
+    staffId?: string;
+    locationId?: string;
+    includeCanceled?: boolean;
+  } = {}): ClassRecord[] {
+    const conditions: string[] = [];
+    const values: string[] = [];
+
+    if (filters.startDate) {
+      conditions.push("start_date_time >= ?");
+      values.push(filters.startDate);
+    }
+    if (filters.endDate) {
+      conditions.push(/^\d{4}-\d{2}-\d{2}$/.test(filters.endDate)
+        ? "date(start_date_time) <= ?"
+        : "start_date_time <= ?");
+      values.push(filters.endDate);
+    }
+    for (const [column, value] of [
+      ["class_description_id", filters.classDescriptionId],
+      ["staff_id", filters.staffId],
+      ["location_id", filters.locationId],
+    ] as const) {
+      if (value) {
+        conditions.push(`${column} = ?`);
+        values.push(value);
+      }
+    }
+    if (filters.includeCanceled === false) {
+      conditions.push("is_canceled = 0");
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db.query(`
+      SELECT id, class_schedule_id, class_description_id, name, start_date_time, end_date_time,
+        staff_id, location_id, is_canceled, max_capacity, total_booked, last_synced_at, raw_data
+      FROM classes${where}
+      ORDER BY start_date_time
+    `).all(...values) as Array<{
+      id: string;
+      class_schedule_id: string | null;
+      class_description_id: string | null;
+      name: string | null;
+      start_date_time: string;
+      end_date_time: string;
+      staff_id: string | null;
+      location_id: string | null;
+      is_canceled: number;
+      max_capacity: number | null;
+      total_booked: number | null;
+      last_synced_at: string;
+      raw_data: string;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      classScheduleId: row.class_schedule_id,
+      classDescriptionId: row.class_description_id,
+      name: row.name,
+      startDateTime: row.start_date_time,
+      endDateTime: row.end_date_time,
+      staffId: row.staff_id,
+      locationId: row.location_id,
+      isCanceled: row.is_canceled === 1,
+      maxCapacity: row.max_capacity,
+      totalBooked: row.total_booked,
+      lastSyncedAt: row.last_synced_at,
+      rawData: JSON.parse(row.raw_data),
+    }));
+  }
+
+  saveClassVisit(visit: ClassVisit): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO class_visits (
+        id, class_id, client_id, start_date_time, signed_in, late_cancelled,
+        missed, service_id, raw_data, last_synced_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        class_id = excluded.class_id,
+        client_id = excluded.client_id,
+        start_date_time = excluded.start_date_time,
+        signed_in = excluded.signed_in,
+        late_cancelled = excluded.late_cancelled,
+        missed = excluded.missed,
+        service_id = excluded.service_id,
+        raw_data = excluded.raw_data,
+        last_synced_at = CURRENT_TIMESTAMP
+    `);
+
+    stmt.run(
+      visit.id,
+      visit.classId,
+      visit.clientId,
+      visit.startDateTime,
+      visit.signedIn ? 1 : 0,
+      visit.lateCancelled ? 1 : 0,
+      visit.missed ? 1 : 0,
+      visit.serviceId,
+      JSON.stringify(visit.rawData)
+    );
+  }
+
+  saveClassVisits(visits: ClassVisit[]): void {
+    this.db.transaction(() => {
+      for (const visit of visits) {
+        this.saveClassVisit(visit);
+      }
+    })();
+  }
+
+  getClassVisits(filters: {
+    classId?: string;
+    clientId?: string;
+  } = {}): ClassVisit[] {
+    const conditions: string[] = [];
+    const values: string[] = [];
+
+    if (filters.classId) {
+      conditions.push("class_id = ?");
+      values.push(filters.classId);
+    }
+    if (filters.clientId) {
+      conditions.push("client_id = ?");
+      values.push(filters.clientId);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db.query(`
+      SELECT id, class_id, client_id, start_date_time, signed_in, late_cancelled,
+        missed, service_id, last_synced_at, raw_data
+      FROM class_visits${where}
+      ORDER BY start_date_time
+    `).all(...values) as Array<{
+      id: string;
+      class_id: string | null;
+      client_id: string | null;
+      start_date_time: string | null;
+      signed_in: number;
+      late_cancelled: number;
+      missed: number;
+      service_id: string | null;
+      last_synced_at: string;
+      raw_data: string;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      classId: row.class_id,
+      clientId: row.client_id,
+      startDateTime: row.start_date_time,
+      signedIn: row.signed_in === 1,
+      lateCancelled: row.late_cancelled === 1,
+      missed: row.missed === 1,
+      serviceId: row.service_id,
+      lastSyncedAt: row.last_synced_at,
+      rawData: JSON.parse(row.raw_data),
+    }));
+  }
+
+  saveStaffMember(record: StaffRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO staff (
+        id, first_name, last_name, display_name, email, mobile_phone,
+        appointment_instructor, class_teacher, sort_order, raw_data, last_synced_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(id) DO UPDATE SET
+        first_name = excluded.first_name,
+        last_name = excluded.last_name,
+        display_name = excluded.display_name,
+        email = excluded.email,
+        mobile_phone = excluded.mobile_phone,
+        appointment_instructor = excluded.appointment_instructor,
+        class_teacher = excluded.class_teacher,
+        sort_order = excluded.sort_order,
+        raw_data = excluded.raw_data,
+        last_synced_at = CURRENT_TIMESTAMP
+    `);
+
+    stmt.run(
+      record.id,
+      record.firstName,
+      record.lastName,
+      record.displayName,
+      record.email,
+      record.mobilePhone,
+      record.appointmentInstructor ? 1 : 0,
+      record.classTeacher ? 1 : 0,
+      record.sortOrder,
+      JSON.stringify(record.rawData)
+    );
+  }
+
+  saveStaffMembers(records: StaffRecord[]): void {
+    this.db.transaction(() => {
+      for (const record of records) {
+        this.saveStaffMember(record);
+      }
+    })();
+  }
+
+  getStaff(filters: {
+    appointmentInstructor?: boolean;
+    classTeacher?: boolean;
+  } = {}): StaffRecord[] {
+    const conditions: string[] = [];
+
+    if (filters.appointmentInstructor !== undefined) {
+      conditions.push(`appointment_instructor = ${filters.appointmentInstructor ? 1 : 0}`);
+    }
+    if (filters.classTeacher !== undefined) {
+      conditions.push(`class_teacher = ${filters.classTeacher ? 1 : 0}`);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db.query(`
+      SELECT id, first_name, last_name, display_name, email, mobile_phone,
+        appointment_instructor, class_teacher, sort_order, last_synced_at, raw_data
+      FROM staff${where}
+      ORDER BY sort_order, last_name, first_name
+    `).all() as StaffRow[];
+
+    return rows.map(row => this.toStaffRecord(row));
+  }
+
+  getStaffMember(id: string): StaffRecord | null {
+    const row = this.db.query(`
+      SELECT id, first_name, last_name, display_name, email, mobile_phone,
+        appointment_instructor, class_teacher, sort_order, last_synced_at, raw_data
+      FROM staff WHERE id = ?
+    `).get(id) as StaffRow | null;
+
+    return row ? this.toStaffRecord(row) : null;
+  }
+
+  private toStaffRecord(row: StaffRow): StaffRecord {
+    return {
+      id: row.id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      displayName: row.display_name,
+      email: row.email,
+      mobilePhone: row.mobile_phone,
+      appointmentInstructor: row.appointment_instructor === 1,
+      classTeacher: row.class_teacher === 1,
+      sortOrder: row.sort_order,
+      lastSyncedAt: row.last_synced_at,
+      rawData: JSON.parse(row.raw_data),
+    };
+  }
+
+  saveStaffPermissions(staffId: string, group: StaffPermissionGroup): void {
+    this.db.prepare(`
+      INSERT INTO staff_permissions (
+        staff_id, permission_group_name, ip_restricted, allowed_permissions, denied_permissions, last_synced_at
+      )
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(staff_id) DO UPDATE SET
+        permission_group_name = excluded.permission_group_name,
+        ip_restricted = excluded.ip_restricted,
+        allowed_permissions = excluded.allowed_permissions,
+        denied_permissions = excluded.denied_permissions,
+        last_synced_at = CURRENT_TIMESTAMP
+    `).run(
+      staffId,
+      group.PermissionGroupName ?? null,
+      group.IpRestricted ? 1 : 0,
+      JSON.stringify(group.AllowedPermissions ?? []),
+      JSON.stringify(group.DeniedPermissions ?? [])
+    );
+  }
+
+  getStaffPermissions(staffId: string): {
+    staffId: string;
+    permissionGroupName: string | null;
+    ipRestricted: boolean;
+    allowedPermissions: string[];
+    deniedPermissions: string[];
+    lastSyncedAt: string;
+  } | null {
+    const row = this.db.query(`
+      SELECT staff_id, permission_group_name, ip_restricted, allowed_permissions, denied_permissions, last_synced_at
+      FROM staff_permissions WHERE staff_id = ?
+    `).get(staffId) as {
+      staff_id: string;
+      permission_group_name: string | null;
+      ip_restricted: number;
+      allowed_permissions: string;
+      denied_permissions: string;
+      last_synced_at: string;
+    } | null;
+
+    return row
+      ? {
+          staffId: row.staff_id,
+          permissionGroupName: row.permission_group_name,
+          ipRestricted: row.ip_restricted === 1,
+          allowedPermissions: JSON.parse(row.allowed_permissions),
+          deniedPermissions: JSON.parse(row.denied_permissions),
+          lastSyncedAt: row.last_synced_at,
+        }
+      : null;
+  }
+
+  /**
+   * Replace the session types a staff member can perform
+   *
+   * The API returns the full list per staff member, so rows missing from
+   * it are removed rather than left stale.
+   */
+  saveStaffSessionTypes(staffId: string, records: StaffSessionTypeRecord[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO staff_session_types (
+        staff_id, session_type_id, name, program_id, time_length,
+        pay_rate_type, pay_rate_amount, raw_data, last_synced_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM staff_session_types WHERE staff_id = ?").run(staffId);
+      for (const record of records) {
+        insert.run(
+          staffId,
+          record.sessionTypeId,
+          record.name,
+          record.programId,
+          record.timeLength,
+          record.payRateType,
+          record.payRateAmount,
+          JSON.stringify(record.rawData)
+        );
+      }
+    })();
+  }
+
+  getStaffSessionTypes(filters: {
+    staffId?: string;
+    sessionTypeId?: string;
+  } = {}): StaffSessionTypeRecord[] {
+    const conditions: string[] = [];
+    const values: string[] = [];
+
+    if (filters.staffId) {
+      conditions.push("staff_id = ?");
+      values.push(filters.staffId);
+    }
+    if (filters.sessionTypeId) {
+      conditions.push("session_type_id = ?");
+      values.push(filters.sessionTypeId);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db.query(`
+      SELECT staff_id, session_type_id, name, program_id, time_length, pay_rate_type, pay_rate_amount, raw_data
+      FROM staff_session_types${where}
+      ORDER BY staff_id, name
+    `).all(...values) as Array<{
+      staff_id: string;
+      session_type_id: string;
+      name: string | null;
+      program_id: string | null;
+      time_length: number | null;
+      pay_rate_type: string | null;
+      pay_rate_amount: number | null;
+      raw_data: string;
+    }>;
+
+    return rows.map(row => ({
+      staffId: row.staff_id,
+      sessionTypeId: row.session_type_id,
+      name: row.name,
+      programId: row.program_id,
+      timeLength: row.time_length,
+      payRateType: row.pay_rate_type,
+      payRateAmount: row.pay_rate_amount,
+      rawData: JSON.parse(row.raw_data),
+    }));
+  }
+
+  /**
+   * Replace a reference list with a complete download; IDs missing from
+   * records are removed
+   */
+  replaceSiteReference(kind: SiteReferenceKind, records: SiteReferenceRecord[]): void {
+    const table = SITE_REFERENCE_TABLES[kind];
+    const insert = this.db.prepare(
+      `INSERT INTO ${table} (id, name, raw_data, last_synced_at) VALUES (?, ?, ?, CURRENT_TIMESTAMP)`
+    );
+
+    this.db.transaction(() => {
+      this.db.exec(`DELETE FROM ${table}`);
+      for (const record of records) {
+        insert.run(record.id, record.name, JSON.stringify(record.rawData));
+      }
+    })();
+  }
+
+  getSiteReference(kind: SiteReferenceKind): Array<SiteReferenceRecord & { lastSyncedAt: string }> {
+    const rows = this.db.query(
+      `SELECT id, name, raw_data, last_synced_at FROM ${SITE_REFERENCE_TABLES[kind]} ORDER BY name, id`
+    ).all() as Array<{
+      id: string;
+      name: string | null;
+      raw_data: string;
+      last_synced_at: string;
+    }>;
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      rawData: JSON.parse(row.raw_data),
+      lastSyncedAt: row.last_synced_at,
+    }));
+  }
+
   getApiUsage(date: string): number {
     const result = this.db.query("SELECT count FROM api_usage WHERE date = ?").get(date) as { count: number } | null;
     return result?.count ?? 0;
@@ -156,6 +1656,260 @@ export class DatabaseClient {
     `).run(date);
   }
 
+  getApiRetries(date: string): number {
+    const result = this.db.query("SELECT retries FROM api_usage WHERE date = ?").get(date) as { retries: number } | null;
+    return result?.retries ?? 0;
+  }
+
+  /**
+   * Count a retried call: it uses quota like any call and is tallied apart
+   */
+  incrementApiRetries(date: string): void {
+    this.db.prepare(`
+      INSERT INTO api_usage (date, count, retries)
+      VALUES (?, 1, 1)
+      ON CONFLICT(date) DO UPDATE SET count = count + 1, retries = retries + 1
+    `).run(date);
+  }
+
+  /**
+   * Open a journal entry before a write is sent; returns its ID
+   */
+  addAuditEntry(entry: {
+    endpoint: string;
+    entityType: AuditEntityType | null;
+    entityId: string | null;
+    beforeState: unknown;
+    beforeSource: AuditEntry["beforeSource"];
+    requestBody: unknown;
+    test: boolean;
+    undoOf?: number;
+  }): number {
+    const result = this.db.prepare(`
+      INSERT INTO audit_journal (
+        endpoint, entity_type, entity_id, before_state, before_source, request_body, test, undo_of
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.endpoint,
+      entry.entityType,
+      entry.entityId,
+      entry.beforeState === null || entry.beforeState === undefined ? null : JSON.stringify(entry.beforeState),
+      entry.beforeSource,
+      entry.requestBody === undefined ? null : JSON.stringify(entry.requestBody),
+      entry.test ? 1 : 0,
+      entry.undoOf ?? null
+    );
+
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Close a journal entry with the response (or error); entityId fills in
+   * the ID of an entity the write created
+   */
+  completeAuditEntry(id: number, outcome: {
+    status: "success" | "error";
+    responseBody?: unknown;
+    error?: string;
+    entityId?: string;
+  }): void {
+    this.db.prepare(`
+      UPDATE audit_journal
+      SET status = ?, response_body = ?, error = ?, entity_id = COALESCE(entity_id, ?),
+        completed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(
+      outcome.status,
+      outcome.responseBody === undefined ? null : JSON.stringify(outcome.responseBody),
+      outcome.error ?? null,
+      outcome.entityId ?? null,
+      id
+    );
+  }
+
+  markAuditEntryUndone(id: number, undoneBy: number): void {
+    this.db.prepare("UPDATE audit_journal SET undone_by = ? WHERE id = ?").run(undoneBy, id);
+  }
+
+  getAuditEntry(id: number): AuditEntry | null {
+    const row = this.db.query("SELECT * FROM audit_journal WHERE id = ?").get(id) as AuditRow | null;
+    return row ? this.toAuditEntry(row) : null;
+  }
+
+  /**
+   * Journal entries, newest first
+   */
+  getAuditEntries(filters: {
+    entityType?: AuditEntityType;
+    entityId?: string;
+    limit?: number;
+  } = {}): AuditEntry[] {
+    const conditions: string[] = [];
+    const values: Array<string | number> = [];
+
+    if (filters.entityType) {
+      conditions.push("entity_type = ?");
+      values.push(filters.entityType);
+    }
+    if (filters.entityId) {
+      conditions.push("entity_id = ?");
+      values.push(filters.entityId);
+    }
+    values.push(filters.limit ?? 50);
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db.query(
+      `SELECT * FROM audit_journal${where} ORDER BY id DESC LIMIT ?`
+    ).all(...values) as AuditRow[];
+
+    return rows.map(row => this.toAuditEntry(row));
+  }
+
+  private toAuditEntry(row: AuditRow): AuditEntry {
+    const parse = (value: string | null) => (value === null ? null : JSON.parse(value));
+    return {
+      id: row.id,
+      endpoint: row.endpoint,
+      entityType: row.entity_type as AuditEntityType | null,
+      entityId: row.entity_id,
+      beforeState: parse(row.before_state),
+      beforeSource: row.before_source as AuditEntry["beforeSource"],
+      requestBody: parse(row.request_body),
+      responseBody: parse(row.response_body),
+      status: row.status as AuditEntry["status"],
+      error: row.error,
+      test: row.test === 1,
+      undoOf: row.undo_of,
+      undoneBy: row.undone_by,
+      createdAt: row.created_at,
+      completedAt: row.completed_at,
+    };
+  }
+
+  /**
+   * Stage a write for approval; returns the stored action
+   */
+  addPendingAction(action: {
+    token: string;
+    request: GatedRequest;
+    assessment: RiskAssessment;
+    ttlHours: number;
+  }): PendingAction {
+    const result = this.db.prepare(`
+      INSERT INTO pending_actions (
+        token, method, endpoint, params, request_body, undo_of, acting_client_id, idempotency_key,
+        risk_level, reasons, record_count, expires_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now', ?))
+    `).run(
+      action.token,
+      action.request.method,
+      action.request.endpoint,
+      action.request.params === undefined ? null : JSON.stringify(action.request.params),
+      action.request.body === undefined ? null : JSON.stringify(action.request.body),
+      action.request.undoOf ?? null,
+      action.request.actingClientId ?? null,
+      action.request.idempotencyKey ?? null,
+      action.assessment.level,
+      JSON.stringify(action.assessment.reasons),
+      action.assessment.recordCount,
+      `+${action.ttlHours} hours`
+    );
+
+    const row = this.db.query("SELECT * FROM pending_actions WHERE id = ?")
+      .get(Number(result.lastInsertRowid)) as PendingActionRow;
+    return this.toPendingAction(row);
+  }
+
+  getPendingActionByToken(token: string): PendingAction | null {
+    const row = this.db.query("SELECT * FROM pending_actions WHERE token = ?").get(token) as PendingActionRow | null;
+    return row ? this.toPendingAction(row) : null;
+  }
+
+  /**
+   * Actions awaiting approval that have not expired, oldest first
+   */
+  getPendingActions(limit = 50): PendingAction[] {
+    const rows = this.db.query(`
+      SELECT * FROM pending_actions
+      WHERE status = 'pending' AND expires_at > datetime('now')
+      ORDER BY id ASC
+      LIMIT ?
+    `).all(limit) as PendingActionRow[];
+
+    return rows.map(row => this.toPendingAction(row));
+  }
+
+  /**
+   * Move a pending action to executing; false when another caller got
+   * there first (or it is no longer pending)
+   */
+  claimPendingAction(id: number): boolean {
+    const result = this.db.prepare(`
+      UPDATE pending_actions SET status = 'executing' WHERE id = ? AND status = 'pending'
+    `).run(id);
+    return result.changes === 1;
+  }
+
+  resolvePendingAction(id: number, outcome: { status: Exclude<PendingActionStatus, "pending">; error?: string }): void {
+    this.db.prepare(`
+      UPDATE pending_actions
+      SET status = ?, error = ?, resolved_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(outcome.status, outcome.error ?? null, id);
+  }
+
+  private toPendingAction(row: PendingActionRow): PendingAction {
+    return {
+      id: row.id,
+      token: row.token,
+      method: row.method,
+      endpoint: row.endpoint,
+      params: row.params === null ? null : JSON.parse(row.params),
+      body: row.request_body === null ? undefined : JSON.parse(row.request_body),
+      undoOf: row.undo_of,
+      actingClientId: row.acting_client_id,
+      idempotencyKey: row.idempotency_key,
+      riskLevel: row.risk_level as PendingAction["riskLevel"],
+      reasons: JSON.parse(row.reasons),
+      recordCount: row.record_count,
+      status: row.status as PendingActionStatus,
+      error: row.error,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      resolvedAt: row.resolved_at,
+    };
+  }
+
+  /**
+   * Store an (already encrypted) token for a subject such as "staff" or
+   * "client:100015", replacing any previous one
+   */
+  saveAuthToken(subject: string, token: { accessToken: string; refreshToken: string | null; expiresAt: string }): void {
+    this.db.prepare(`
+      INSERT INTO auth_tokens (subject, access_token, refresh_token, expires_at, updated_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(subject) DO UPDATE SET
+        access_token = excluded.access_token,
+        refresh_token = excluded.refresh_token,
+        expires_at = excluded.expires_at,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(subject, token.accessToken, token.refreshToken, token.expiresAt);
+  }
+
+  getAuthToken(subject: string): { accessToken: string; refreshToken: string | null; expiresAt: string } | null {
+    const row = this.db.query(
+      "SELECT access_token, refresh_token, expires_at FROM auth_tokens WHERE subject = ?"
+    ).get(subject) as { access_token: string; refresh_token: string | null; expires_at: string } | null;
+
+    return row ? { accessToken: row.access_token, refreshToken: row.refresh_token, expiresAt: row.expires_at } : null;
+  }
+
+  deleteAuthToken(subject: string): void {
+    this.db.prepare("DELETE FROM auth_tokens WHERE subject = ?").run(subject);
+  }
+
   addSyncLog(log: {
     operation: string;
     status: "success" | "error" | "warning";
@@ -196,18 +1950,123 @@ export class DatabaseClient {
     }>;
   }
 
+  getSyncCursor(key: string): {
+    key: string;
+    offset: number;
+    totalResults: number | null;
+    updatedAt: string;
+  } | null {
+    const row = this.db.query(
+      "SELECT key, offset, total_results, updated_at FROM sync_cursors WHERE key = ?"
+    ).get(key) as { key: string; offset: number; total_results: number | null; updated_at: string } | null;
+
+    return row
+      ? { key: row.key, offset: row.offset, totalResults: row.total_results, updatedAt: row.updated_at }
+      : null;
+  }
+
+  saveSyncCursor(key: string, offset: number, totalResults: number | null = null): void {
+    this.db.prepare(`
+      INSERT INTO sync_cursors (key, offset, total_results, updated_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(key) DO UPDATE SET
+        offset = excluded.offset,
+        total_results = excluded.total_results,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(key, offset, totalResults);
+  }
+
+  deleteSyncCursor(key: string): void {
+    this.db.prepare("DELETE FROM sync_cursors WHERE key = ?").run(key);
+  }
+
+  getSyncWatermark(entity: string): {
+    entity: string;
+    highWaterMark: string | null;
+    pendingMark: string | null;
+    updatedAt: string;
+  } | null {
+    const row = this.db.query(
+      "SELECT entity, high_water_mark, pending_mark, updated_at FROM sync_watermarks WHERE entity = ?"
+    ).get(entity) as {
+      entity: string;
+      high_water_mark: string | null;
+      pending_mark: string | null;
+      updated_at: string;
+    } | null;
+
+    return row
+      ? {
+          entity: row.entity,
+          highWaterMark: row.high_water_mark,
+          pendingMark: row.pending_mark,
+          updatedAt: row.updated_at,
+        }
+      : null;
+  }
+
+  /**
+   * Record the start of a delta run. An unfinished run keeps its original
+   * mark so changes made while it was paused are picked up next time.
+   */
+  beginSyncWatermark(entity: string, mark: string): string {
+    this.db.prepare(`
+      INSERT INTO sync_watermarks (entity, pending_mark, updated_at)
+      VALUES (?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(entity) DO UPDATE SET
+        pending_mark = COALESCE(sync_watermarks.pending_mark, excluded.pending_mark),
+        updated_at = CURRENT_TIMESTAMP
+    `).run(entity, mark);
+
+    return this.getSyncWatermark(entity)?.pendingMark ?? mark;
+  }
+
+  /**
+   * Promote the pending mark once a run has seen every changed row
+   */
+  commitSyncWatermark(entity: string): void {
+    this.db.prepare(`
+      UPDATE sync_watermarks
+      SET high_water_mark = COALESCE(pending_mark, high_water_mark),
+          pending_mark = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE entity = ?
+    `).run(entity);
+  }
+
   getCacheSummary(): {
     clients: number;
     sales: number;
+    appointments: number;
+    bookableItems: number;
+    classes: number;
+    classVisits: number;
+    staff: number;
+    clientContracts: number;
+    clientServices: number;
     lastSync: string | null;
   } {
     const clientCount = this.db.query("SELECT COUNT(*) as count FROM clients").get() as { count: number };
     const salesCount = this.db.query("SELECT COUNT(*) as count FROM sales").get() as { count: number };
+    const appointmentCount = this.db.query("SELECT COUNT(*) as count FROM appointments").get() as { count: number };
+    const bookableItemCount = this.db.query("SELECT COUNT(*) as count FROM bookable_items").get() as { count: number };
+    const classCount = this.db.query("SELECT COUNT(*) as count FROM classes").get() as { count: number };
+    const classVisitCount = this.db.query("SELECT COUNT(*) as count FROM class_visits").get() as { count: number };
+    const staffCount = this.db.query("SELECT COUNT(*) as count FROM staff").get() as { count: number };
+    const clientContractCount = this.db.query("SELECT COUNT(*) as count FROM client_contracts").get() as { count: number };
+    const clientServiceCount = this.db.query("SELECT COUNT(*) as count FROM client_services").get() as { count: number };
     const lastSync = this.db.query("SELECT MAX(last_synced_at) as last_sync FROM clients").get() as { last_sync: string | null };
 
     return {
       clients: clientCount.count,
       sales: salesCount.count,
+      appointments: appointmentCount.count,
+      bookableItems: bookableItemCount.count,
+      classes: classCount.count,
+      classVisits: classVisitCount.count,
+      staff: staffCount.count,
+      clientContracts: clientContractCount.count,
+      clientServices: clientServiceCount.count,
       lastSync: lastSync.last_sync,
     };
   }
@@ -0,0 +1,207 @@
+import type { Database } from "bun:sqlite";
+import {
+  SCHEMA_SQL,
+  CLASSES_SCHEMA_SQL,
+  STAFF_SCHEMA_SQL,
+  SITE_REFERENCE_SCHEMA_SQL,
+  SALE_DETAIL_SCHEMA_SQL,
+  MEMBERSHIPS_SCHEMA_SQL,
+  AUDIT_JOURNAL_SCHEMA_SQL,
+  PENDING_ACTIONS_SCHEMA_SQL,
+  AUTH_TOKENS_SCHEMA_SQL,
+} from "./schema.js";
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export interface MigrationPlan {
+  currentVersion: number;
+  targetVersion: number;
+  pending: Array<{ version: number; name: string; sql: string }>;
+}
+
+/**
+ * Schema history, applied in order. Never edit a migration that has shipped;
+ * add a new one instead.
+ *
+ * Version 1 is written with IF NOT EXISTS so databases created before
+ * versioning existed are adopted without changes.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    sql: SCHEMA_SQL,
+  },
+  {
+    version: 2,
+    name: "sync_cursors",
+    sql: `
+CREATE TABLE IF NOT EXISTS sync_cursors (
+  key TEXT PRIMARY KEY,
+  offset INTEGER NOT NULL DEFAULT 0,
+  total_results INTEGER,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`,
+  },
+  {
+    version: 3,
+    name: "sync_watermarks",
+    sql: `
+CREATE TABLE IF NOT EXISTS sync_watermarks (
+  entity TEXT PRIMARY KEY,
+  high_water_mark TEXT,
+  pending_mark TEXT,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`,
+  },
+  {
+    version: 4,
+    name: "classes",
+    sql: CLASSES_SCHEMA_SQL,
+  },
+  {
+    version: 5,
+    name: "staff",
+    sql: STAFF_SCHEMA_SQL,
+  },
+  {
+    version: 6,
+    name: "site_reference",
+    sql: SITE_REFERENCE_SCHEMA_SQL,
+  },
+  {
+    version: 7,
+    name: "sale_detail",
+    sql: SALE_DETAIL_SCHEMA_SQL,
+  },
+  {
+    version: 8,
+    name: "memberships",
+    sql: MEMBERSHIPS_SCHEMA_SQL,
+  },
+  {
+    version: 9,
+    name: "audit_journal",
+    sql: AUDIT_JOURNAL_SCHEMA_SQL,
+  },
+  {
+    version: 10,
+    name: "pending_actions",
+    sql: PENDING_ACTIONS_SCHEMA_SQL,
+  },
+  {
+    version: 11,
+    name: "auth_tokens",
+    sql: AUTH_TOKENS_SCHEMA_SQL,
+  },
+  {
+    version: 12,
+    name: "api_usage_retries",
+    sql: `
+ALTER TABLE api_usage ADD COLUMN retries INTEGER NOT NULL DEFAULT 0;
+`,
+  },
+  {
+    version: 13,
+    name: "api_response_cache_lru",
+    sql: `
+ALTER TABLE api_response_cache ADD COLUMN last_hit_at DATETIME;
+`,
+  },
+  {
+    version: 14,
+    name: "pending_actions_request_options",
+    sql: `
+ALTER TABLE pending_actions ADD COLUMN undo_of INTEGER;
+ALTER TABLE pending_actions ADD COLUMN acting_client_id TEXT;
+ALTER TABLE pending_actions ADD COLUMN idempotency_key TEXT;
+`,
+  },
+];
+
+const SCHEMA_VERSION_SQL = `
+CREATE TABLE IF NOT EXISTS schema_version (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
+/**
+ * Highest applied migration, 0 for a new (or pre-versioning) database
+ */
+export function getSchemaVersion(db: Database): number {
+  const table = db.query(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'"
+  ).get();
+  if (!table) {
+    return 0;
+  }
+
+  const row = db.query("SELECT MAX(version) as version FROM schema_version").get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Work out which migrations would run, without touching the database
+ */
+export function planMigrations(db: Database, migrations: Migration[] = MIGRATIONS): MigrationPlan {
+  validateMigrations(migrations);
+
+  const currentVersion = getSchemaVersion(db);
+  const targetVersion = migrations.at(-1)?.version ?? 0;
+
+  if (currentVersion > targetVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this server supports (${targetVersion})`
+    );
+  }
+
+  return {
+    currentVersion,
+    targetVersion,
+    pending: migrations
+      .filter((migration) => migration.version > currentVersion)
+      .map(({ version, name, sql }) => ({ version, name, sql: sql.trim() })),
+  };
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction
+ *
+ * A failing migration is rolled back and rethrown; earlier ones stay applied.
+ */
+export function applyMigrations(db: Database, migrations: Migration[] = MIGRATIONS): MigrationPlan {
+  db.exec(SCHEMA_VERSION_SQL);
+  const plan = planMigrations(db, migrations);
+
+  for (const migration of plan.pending) {
+    try {
+      db.transaction(() => {
+        db.exec(migration.sql);
+        db.prepare("INSERT INTO schema_version (version, name) VALUES (?, ?)").run(migration.version, migration.name);
+      })();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${reason}`);
+    }
+  }
+
+  return plan;
+}
+
+function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migrations must be numbered consecutively from 1 (found ${migration.version} at position ${index + 1})`
+      );
+    }
+  });
+}
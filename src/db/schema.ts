@@ -1,4 +1,10 @@
-
+/**
+ * Baseline schema (migration 1)
+ *
+ * Later changes are registered as numbered migrations in migrations.ts
+ * instead of being edited into this constant, so existing databases pick
+ * them up.
+ */
 export const SCHEMA_SQL = `
 CREATE TABLE IF NOT EXISTS clients (
   id TEXT PRIMARY KEY,
@@ -95,3 +101,317 @@ CREATE TABLE IF NOT EXISTS api_response_cache (
 CREATE INDEX IF NOT EXISTS idx_api_cache_endpoint ON api_response_cache(endpoint);
 CREATE INDEX IF NOT EXISTS idx_api_cache_created ON api_response_cache(created_at);
 `;
+
+/**
+ * Class schedule and class visit tables (migration 4)
+ */
+export const CLASSES_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS classes (
+  id TEXT PRIMARY KEY,
+  class_schedule_id TEXT,
+  class_description_id TEXT,
+  name TEXT,
+  start_date_time DATETIME,
+  end_date_time DATETIME,
+  staff_id TEXT,
+  location_id TEXT,
+  is_canceled INTEGER NOT NULL DEFAULT 0,
+  max_capacity INTEGER,
+  total_booked INTEGER,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_classes_start_date ON classes(start_date_time);
+CREATE INDEX IF NOT EXISTS idx_classes_description ON classes(class_description_id);
+CREATE INDEX IF NOT EXISTS idx_classes_staff ON classes(staff_id);
+CREATE INDEX IF NOT EXISTS idx_classes_location ON classes(location_id);
+
+CREATE TABLE IF NOT EXISTS class_visits (
+  id TEXT PRIMARY KEY,
+  class_id TEXT,
+  client_id TEXT,
+  start_date_time DATETIME,
+  signed_in INTEGER NOT NULL DEFAULT 0,
+  late_cancelled INTEGER NOT NULL DEFAULT 0,
+  missed INTEGER NOT NULL DEFAULT 0,
+  service_id TEXT,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_visits_class ON class_visits(class_id);
+CREATE INDEX IF NOT EXISTS idx_class_visits_client ON class_visits(client_id);
+`;
+
+/**
+ * Staff directory tables (migration 5)
+ *
+ * staff.id holds the same TEXT IDs as appointments.staff_id and
+ * classes.staff_id, so schedules join directly to staff profiles.
+ */
+export const STAFF_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS staff (
+  id TEXT PRIMARY KEY,
+  first_name TEXT,
+  last_name TEXT,
+  display_name TEXT,
+  email TEXT,
+  mobile_phone TEXT,
+  appointment_instructor INTEGER NOT NULL DEFAULT 0,
+  class_teacher INTEGER NOT NULL DEFAULT 0,
+  sort_order INTEGER,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS staff_permissions (
+  staff_id TEXT PRIMARY KEY,
+  permission_group_name TEXT,
+  ip_restricted INTEGER NOT NULL DEFAULT 0,
+  allowed_permissions JSON,
+  denied_permissions JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS staff_session_types (
+  staff_id TEXT NOT NULL,
+  session_type_id TEXT NOT NULL,
+  name TEXT,
+  program_id TEXT,
+  time_length INTEGER,
+  pay_rate_type TEXT,
+  pay_rate_amount REAL,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (staff_id, session_type_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_session_types_session_type ON staff_session_types(session_type_id);
+`;
+
+/**
+ * Site reference lookup tables (migration 6)
+ *
+ * One table per /site list, keyed by the TEXT IDs stored on appointments,
+ * classes and bookable items. Refresh times live in sync_watermarks under
+ * "site:{kind}".
+ */
+export const SITE_REFERENCE_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS sites (
+  id TEXT PRIMARY KEY,
+  name TEXT,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS locations (
+  id TEXT PRIMARY KEY,
+  name TEXT,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS programs (
+  id TEXT PRIMARY KEY,
+  name TEXT,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS session_types (
+  id TEXT PRIMARY KEY,
+  name TEXT,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS resources (
+  id TEXT PRIMARY KEY,
+  name TEXT,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
+/**
+ * Sale line items, payments and card transactions (migration 7)
+ *
+ * Items and payments are keyed by their position in the sale, since
+ * SaleDetailId and payment IDs are not reliably unique across sites.
+ */
+export const SALE_DETAIL_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS sale_items (
+  sale_id TEXT NOT NULL,
+  line_number INTEGER NOT NULL,
+  item_id TEXT,
+  description TEXT,
+  is_service INTEGER NOT NULL DEFAULT 0,
+  quantity REAL,
+  unit_price REAL,
+  discount_amount REAL,
+  tax_amount REAL,
+  total_amount REAL,
+  returned INTEGER NOT NULL DEFAULT 0,
+  raw_data JSON,
+  PRIMARY KEY (sale_id, line_number)
+);
+
+CREATE TABLE IF NOT EXISTS sale_payments (
+  sale_id TEXT NOT NULL,
+  line_number INTEGER NOT NULL,
+  payment_id TEXT,
+  amount REAL,
+  method TEXT,
+  type TEXT,
+  transaction_id TEXT,
+  raw_data JSON,
+  PRIMARY KEY (sale_id, line_number)
+);
+
+CREATE TABLE IF NOT EXISTS sale_transactions (
+  id TEXT PRIMARY KEY,
+  sale_id TEXT,
+  client_id TEXT,
+  amount REAL,
+  settled INTEGER NOT NULL DEFAULT 0,
+  status TEXT,
+  transaction_time DATETIME,
+  location_id TEXT,
+  card_type TEXT,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_payments_transaction ON sale_payments(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_sale_transactions_sale ON sale_transactions(sale_id);
+`;
+
+/**
+ * Client contracts and pricing options, plus the contract and service
+ * catalogs they were sold from (migration 8)
+ */
+export const MEMBERSHIPS_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS client_contracts (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES clients(id),
+  contract_id TEXT,
+  name TEXT,
+  start_date DATETIME,
+  end_date DATETIME,
+  termination_date DATETIME,
+  autopay_status TEXT,
+  auto_renewing INTEGER NOT NULL DEFAULT 0,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS client_services (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL REFERENCES clients(id),
+  product_id TEXT,
+  name TEXT,
+  program_id TEXT,
+  active_date DATETIME,
+  expiration_date DATETIME,
+  count INTEGER,
+  remaining INTEGER,
+  current INTEGER NOT NULL DEFAULT 0,
+  returned INTEGER NOT NULL DEFAULT 0,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS contracts (
+  id TEXT PRIMARY KEY,
+  name TEXT,
+  assigns_membership_name TEXT,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS services (
+  id TEXT PRIMARY KEY,
+  name TEXT,
+  program_id TEXT,
+  price REAL,
+  count INTEGER,
+  raw_data JSON,
+  last_synced_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_contracts_client ON client_contracts(client_id);
+CREATE INDEX IF NOT EXISTS idx_client_services_client ON client_services(client_id);
+`;
+
+/**
+ * Write-ahead journal of every mutating API call (migration 9)
+ *
+ * A row is written before the request is sent, with the entity state it
+ * is about to change, and completed with the response or error.
+ */
+export const AUDIT_JOURNAL_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS audit_journal (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  endpoint TEXT NOT NULL,
+  entity_type TEXT,
+  entity_id TEXT,
+  before_state JSON,
+  before_source TEXT,
+  request_body JSON,
+  response_body JSON,
+  status TEXT NOT NULL DEFAULT 'pending',
+  error TEXT,
+  test INTEGER NOT NULL DEFAULT 0,
+  undo_of INTEGER REFERENCES audit_journal(id),
+  undone_by INTEGER REFERENCES audit_journal(id),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_journal_entity ON audit_journal(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_journal_created ON audit_journal(created_at);
+`;
+
+/**
+ * Writes held for human approval (migration 10)
+ *
+ * Each row is the exact request to send; approve_action replays it once
+ * the matching token is supplied.
+ */
+export const PENDING_ACTIONS_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS pending_actions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  token TEXT NOT NULL UNIQUE,
+  method TEXT NOT NULL,
+  endpoint TEXT NOT NULL,
+  params JSON,
+  request_body JSON,
+  risk_level TEXT NOT NULL,
+  reasons JSON NOT NULL,
+  record_count INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'pending',
+  error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  resolved_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_actions_status ON pending_actions(status);
+`;
+
+/**
+ * Staff and client-user tokens (migration 11)
+ *
+ * Token columns hold AES-GCM ciphertext written by TokenStore; nothing in
+ * this table is readable without the token key.
+ */
+export const AUTH_TOKENS_SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  subject TEXT PRIMARY KEY,
+  access_token TEXT NOT NULL,
+  refresh_token TEXT,
+  expires_at DATETIME NOT NULL,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
@@ -9,15 +9,26 @@ import {
   ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { loadConfig } from "./config.js";
-import { DatabaseClient } from "./db/client.js";
-import { MindbodyApiClient } from "./services/mindbody.js";
-import { RateLimitGuard } from "./services/rateLimit.js";
+import { SiteRegistry } from "./services/siteRegistry.js";
+import type { SiteContext } from "./services/siteRegistry.js";
+import { loadOpenApiSpec } from "./metadata/openapi.js";
+import { EndpointRegistry } from "./metadata/registry.js";
+import { generateTools, withSiteArgument } from "./mcp/toolGenerator.js";
+import { GenericToolHandler } from "./mcp/handlers/genericToolHandler.js";
+import { customTools, findCustomTool } from "./mcp/tools/index.js";
+import { toolErrorResult } from "./mcp/tools/shared.js";
 import {
   getQuotaStatus,
   getSyncLogs,
   getCacheSummary,
+  getApiCacheStats,
+  getAuditJournal,
+  getPendingApprovals,
+  getSites,
+  getSiteReference,
   listResources,
 } from "./mcp/resources/index.js";
+import { isSiteReferenceKind } from "./types/site.js";
 
 async function main(): Promise<void> {
   // Load and validate configuration
@@ -26,10 +37,36 @@ async function main(): Promise<void> {
   // Ensure data directory exists
   await Bun.write(`${config.DATA_DIR}/.gitkeep`, "");
 
-  // Initialize foundational services
-  const db = new DatabaseClient(config);
-  const rateLimitGuard = new RateLimitGuard(db, config);
-  const apiClient = new MindbodyApiClient(config, rateLimitGuard);
+  // Initialize per-site services (the default site is opened eagerly so
+  // its migrations run at startup)
+  const sites = new SiteRegistry(config);
+  const defaultSite = sites.get();
+
+  // Build endpoint registry from the bundled OpenAPI spec
+  const registry = EndpointRegistry.fromOpenApiSpec(await loadOpenApiSpec());
+  const tools = [
+    ...customTools.map((tool) => tool.definition),
+    ...generateTools(registry),
+  ].map(withSiteArgument);
+
+  // Only GET API tools can be served from the response cache
+  const cachedTools = new Set(config.API_CACHE_TOOLS ?? []);
+  for (const name of cachedTools) {
+    if (registry.get(name)?.method !== "GET") {
+      console.error(`[${config.MCP_SERVER_NAME}] API_CACHE_TOOLS: ${name} is not a GET API tool; ignored`);
+      cachedTools.delete(name);
+    }
+  }
+
+  const toolHandlers = new Map<string, GenericToolHandler>();
+  const toolHandlerFor = (site: SiteContext): GenericToolHandler => {
+    let handler = toolHandlers.get(site.siteId);
+    if (!handler) {
+      handler = new GenericToolHandler(registry, site.apiClient, cachedTools);
+      toolHandlers.set(site.siteId, handler);
+    }
+    return handler;
+  };
 
   // Create MCP server
   const server = new Server(
@@ -45,26 +82,32 @@ async function main(): Promise<void> {
     }
   );
 
-  // Register tool handlers
-  // TODO: Implement metadata-driven tool registration (EP1-S01 through EP1-S12)
+  // Register tool handlers (migration tools plus one tool per endpoint in the registry)
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: [
-        // Tools will be dynamically registered from endpoint metadata
-      ],
+      tools,
     };
   });
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     try {
-      // TODO: Implement generic tool handler (EP1-S02)
-      throw new Error(`Tool not yet implemented: ${request.params.name}`);
+      const { name, arguments: args } = request.params;
+      const { siteId, ...toolArgs } = args ?? {};
+      const site = sites.get(siteId === undefined || siteId === null ? undefined : String(siteId));
+
+      const customTool = findCustomTool(name);
+      if (customTool) {
+        return await customTool.handle(toolArgs, site);
+      }
+
+      const toolHandler = toolHandlerFor(site);
+      if (toolHandler.canHandle(name)) {
+        return await toolHandler.handle(name, toolArgs);
+      }
+
+      throw new Error(`Unknown tool: ${name}`);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [{ type: "text", text: `Error: ${errorMessage}` }],
-        isError: true,
-      };
+      return toolErrorResult(request.params.name, error);
     }
   });
 
@@ -79,7 +122,25 @@ async function main(): Promise<void> {
     const uri = request.params.uri;
 
     try {
-      if (uri === "mindbody://quota/status") {
+      // Any resource can be read for another site with ?siteId=<id>
+      const [resource = uri, query = ""] = uri.split("?");
+      const siteId = new URLSearchParams(query).get("siteId");
+      const { db, apiClient, syncService } = sites.get(siteId ?? undefined);
+
+      if (resource === "mindbody://sites") {
+        const content = getSites(sites);
+        return {
+          contents: [
+            {
+              uri: content.uri,
+              mimeType: content.mimeType,
+              text: content.text,
+            },
+          ],
+        };
+      }
+
+      if (resource === "mindbody://quota/status") {
         const content = getQuotaStatus(apiClient);
         return {
           contents: [
@@ -92,7 +153,7 @@ async function main(): Promise<void> {
         };
       }
 
-      if (uri === "mindbody://sync/logs") {
+      if (resource === "mindbody://sync/logs") {
         const content = getSyncLogs(db);
         return {
           contents: [
@@ -105,7 +166,7 @@ async function main(): Promise<void> {
         };
       }
 
-      if (uri === "mindbody://cache/summary") {
+      if (resource === "mindbody://cache/summary") {
         const content = getCacheSummary(db);
         return {
           contents: [
@@ -118,6 +179,59 @@ async function main(): Promise<void> {
         };
       }
 
+      if (resource === "mindbody://cache/api") {
+        const content = getApiCacheStats(apiClient);
+        return {
+          contents: [
+            {
+              uri: content.uri,
+              mimeType: content.mimeType,
+              text: content.text,
+            },
+          ],
+        };
+      }
+
+      if (resource === "mindbody://audit/journal") {
+        const content = getAuditJournal(db);
+        return {
+          contents: [
+            {
+              uri: content.uri,
+              mimeType: content.mimeType,
+              text: content.text,
+            },
+          ],
+        };
+      }
+
+      if (resource === "mindbody://approvals/pending") {
+        const content = getPendingApprovals(db);
+        return {
+          contents: [
+            {
+              uri: content.uri,
+              mimeType: content.mimeType,
+              text: content.text,
+            },
+          ],
+        };
+      }
+
+      const siteKind = resource.startsWith("mindbody://site/") ? resource.slice("mindbody://site/".length) : null;
+      if (siteKind !== null && isSiteReferenceKind(siteKind)) {
+        const content = await getSiteReference(siteKind, db, syncService);
+        return {
+          contents: [
+            {
+              uri: content.uri,
+              mimeType: content.mimeType,
+              text: content.text,
+            },
+          ],
+        };
+      }
+
       throw new Error(`Unknown resource: ${uri}`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -133,8 +247,16 @@ async function main(): Promise<void> {
   console.error(`[${config.MCP_SERVER_NAME}] Server started successfully`);
   console.error(`[${config.MCP_SERVER_NAME}] Version: 2.0.0 (Hybrid Architecture)`);
   console.error(`[${config.MCP_SERVER_NAME}] Data directory: ${config.DATA_DIR}`);
+  console.error(
+    `[${config.MCP_SERVER_NAME}] Schema version: ${defaultSite.db.migrations.targetVersion}` +
+    (defaultSite.db.migrations.pending.length > 0
+      ? ` (migrated from ${defaultSite.db.migrations.currentVersion}: ${defaultSite.db.migrations.pending.map((m) => m.name).join(", ")})`
+      : "")
+  );
+  console.error(`[${config.MCP_SERVER_NAME}] Sites: ${sites.list().map((site) => site.siteId).join(", ")} (default ${sites.defaultSiteId})`);
   console.error(`[${config.MCP_SERVER_NAME}] Log level: ${config.LOG_LEVEL}`);
-  console.error(`[${config.MCP_SERVER_NAME}] Ready for metadata-driven tool registration`);
+  console.error(`[${config.MCP_SERVER_NAME}] Registered ${customTools.length} migration tools and ${registry.size} API tools`);
+  console.error(`[${config.MCP_SERVER_NAME}] Cached API tools: ${cachedTools.size > 0 ? [...cachedTools].join(", ") : "none"}`);
 }
 
 // Handle graceful shutdown
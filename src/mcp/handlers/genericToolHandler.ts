@@ -0,0 +1,111 @@
+import type { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { CacheInfo, MindbodyApiClient } from "../../services/mindbody.js";
+import type { EndpointRegistry } from "../../metadata/registry.js";
+import { toRequestOptions } from "../../metadata/registry.js";
+import type { EndpointMetadata } from "../../metadata/types.js";
+import type { SchemaWarning } from "../../metadata/validation.js";
+import {
+  buildArgumentSchema,
+  buildResponseSchema,
+  formatIssues,
+  validateResponse,
+} from "../../metadata/validation.js";
+
+/**
+ * Generic Tool Handler
+ *
+ * Single execution path for every registry-backed tool:
+ * validate arguments -> MindbodyApiClient.request -> validate response.
+ * Response mismatches are reported as warnings next to the data, and
+ * cached answers carry their age and staleness under `cache`. Tools in
+ * cachedTools ask an opt-in response cache to serve them.
+ */
+export class GenericToolHandler {
+  private argumentSchemas = new Map<string, z.ZodTypeAny>();
+  private responseSchemas = new Map<string, z.ZodTypeAny | null>();
+
+  constructor(
+    private registry: EndpointRegistry,
+    private apiClient: MindbodyApiClient,
+    private cachedTools: ReadonlySet<string> = new Set()
+  ) {}
+
+  canHandle(name: string): boolean {
+    return this.registry.has(name);
+  }
+
+  async handle(name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+    const endpoint = this.registry.get(name);
+    if (!endpoint) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const parsed = this.getArgumentSchema(endpoint).safeParse(args);
+    if (!parsed.success) {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            error: "invalid_arguments",
+            tool: name,
+            issues: formatIssues(parsed.error),
+          }, null, 2),
+        }],
+        isError: true,
+      };
+    }
+
+    const { data, cache } = await this.apiClient.requestWithCacheInfo<unknown>({
+      ...toRequestOptions(endpoint, parsed.data as Record<string, unknown>),
+      ...(this.cachedTools.has(name) && { cache: true }),
+    });
+    const warnings = validateResponse(this.getResponseSchema(endpoint), data);
+
+    if (warnings.length > 0) {
+      console.error(`[Tools] ${name} response does not match API spec (${warnings.length} warnings)`);
+    }
+
+    return formatResult(name, data, warnings, cache);
+  }
+
+  private getArgumentSchema(endpoint: EndpointMetadata): z.ZodTypeAny {
+    let schema = this.argumentSchemas.get(endpoint.name);
+    if (!schema) {
+      schema = buildArgumentSchema(endpoint);
+      this.argumentSchemas.set(endpoint.name, schema);
+    }
+    return schema;
+  }
+
+  private getResponseSchema(endpoint: EndpointMetadata): z.ZodTypeAny | null {
+    if (!this.responseSchemas.has(endpoint.name)) {
+      this.responseSchemas.set(endpoint.name, buildResponseSchema(endpoint));
+    }
+    return this.responseSchemas.get(endpoint.name) ?? null;
+  }
+}
+
+function formatResult(
+  tool: string,
+  data: unknown,
+  warnings: SchemaWarning[],
+  cache: CacheInfo | null
+): CallToolResult {
+  const payload = {
+    tool,
+    data,
+    ...(cache && { cache }),
+    ...(warnings.length > 0 && {
+      warnings: [{
+        type: "schema_drift",
+        message: "Response does not match the bundled API spec; data returned unchanged",
+        issues: warnings,
+      }],
+    }),
+  };
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+  };
+}
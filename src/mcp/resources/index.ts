@@ -1,5 +1,9 @@
 import type { MindbodyApiClient } from "../../services/mindbody.js";
 import type { DatabaseClient } from "../../db/client.js";
+import type { SyncService } from "../../services/sync.js";
+import type { SiteRegistry } from "../../services/siteRegistry.js";
+import { SITE_REFERENCE_KINDS } from "../../types/site.js";
+import type { SiteReferenceKind } from "../../types/site.js";
 
 
 export interface ResourceContent {
@@ -13,6 +17,7 @@ export function getQuotaStatus(apiClient: MindbodyApiClient): ResourceContent {
 
   const data = {
     callsMade: stats.callsMade,
+    retriesMade: stats.retriesMade,
     limit: stats.limit,
     callsRemaining: stats.callsRemaining,
     resetTime: stats.resetTime,
@@ -60,7 +65,26 @@ export function getCacheSummary(db: DatabaseClient): ResourceContent {
     sales: {
       total: summary.sales,
     },
-    status: summary.clients > 0 || summary.sales > 0 ? "populated" : "empty",
+    appointments: {
+      total: summary.appointments,
+    },
+    bookableItems: {
+      total: summary.bookableItems,
+    },
+    classes: {
+      total: summary.classes,
+      visits: summary.classVisits,
+    },
+    staff: {
+      total: summary.staff,
+    },
+    memberships: {
+      contracts: summary.clientContracts,
+      services: summary.clientServices,
+    },
+    status: summary.clients + summary.sales + summary.appointments + summary.bookableItems + summary.classes + summary.staff > 0
+      ? "populated"
+      : "empty",
   };
 
   return {
@@ -70,6 +94,138 @@ export function getCacheSummary(db: DatabaseClient): ResourceContent {
   };
 }
 
+export function getApiCacheStats(apiClient: MindbodyApiClient): ResourceContent {
+  const cache = apiClient.getResponseCache();
+  const stats = cache?.getStats();
+
+  const data = {
+    enabled: cache !== null,
+    entries: stats?.totalEntries ?? 0,
+    sizeBytes: stats?.cacheSize ?? 0,
+    hits: stats?.hits ?? 0,
+    misses: stats?.misses ?? 0,
+    hitRatio: stats?.hitRatio ?? null,
+    entryHits: stats?.totalHits ?? 0,
+  };
+
+  return {
+    uri: "mindbody://cache/api",
+    mimeType: "application/json",
+    text: JSON.stringify(data, null, 2),
+  };
+}
+
+export function getAuditJournal(db: DatabaseClient, limit = 50): ResourceContent {
+  const entries = db.getAuditEntries({ limit }).map((entry) => ({
+    id: entry.id,
+    createdAt: entry.createdAt,
+    endpoint: entry.endpoint,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    status: entry.status,
+    test: entry.test,
+    ...(entry.error && { error: entry.error }),
+    ...(entry.undoOf !== null && { undoOf: entry.undoOf }),
+    ...(entry.undoneBy !== null && { undoneBy: entry.undoneBy }),
+    snapshot: entry.beforeSource,
+    request: entry.requestBody,
+  }));
+
+  return {
+    uri: "mindbody://audit/journal",
+    mimeType: "application/json",
+    text: JSON.stringify(entries, null, 2),
+  };
+}
+
+/**
+ * Registered sites, for the siteId argument on tools and resource URIs
+ */
+export function getSites(sites: SiteRegistry): ResourceContent {
+  return {
+    uri: "mindbody://sites",
+    mimeType: "application/json",
+    text: JSON.stringify(sites.list(), null, 2),
+  };
+}
+
+/**
+ * Writes waiting for approve_action, oldest first. Tokens are left out:
+ * the agent must not be able to approve its own writes, so a person gets
+ * them from the server log or `bun run approvals`.
+ */
+export function getPendingApprovals(db: DatabaseClient, limit = 50): ResourceContent {
+  const actions = db.getPendingActions(limit).map((action) => ({
+    id: action.id,
+    method: action.method,
+    endpoint: action.endpoint,
+    riskLevel: action.riskLevel,
+    reasons: action.reasons,
+    recordCount: action.recordCount,
+    createdAt: action.createdAt,
+    expiresAt: action.expiresAt,
+    ...(action.params && Object.keys(action.params).length > 0 && { params: action.params }),
+    ...(action.undoOf !== null && { undoOf: action.undoOf }),
+    ...(action.actingClientId !== null && { actingClientId: action.actingClientId }),
+    request: action.body ?? null,
+  }));
+
+  return {
+    uri: "mindbody://approvals/pending",
+    mimeType: "application/json",
+    text: JSON.stringify(actions, null, 2),
+  };
+}
+
+const SITE_REFERENCE_NAMES: Record<SiteReferenceKind, string> = {
+  sites: "Sites",
+  locations: "Locations",
+  programs: "Programs",
+  sessiontypes: "Session Types",
+  resources: "Resources",
+};
+
+/**
+ * Cached reference list, refreshed first if older than its TTL
+ *
+ * A failed refresh (quota, network) falls back to the cached copy and
+ * reports why in refreshError.
+ */
+export async function getSiteReference(
+  kind: SiteReferenceKind,
+  db: DatabaseClient,
+  syncService: SyncService
+): Promise<ResourceContent> {
+  let refreshError: string | undefined;
+
+  if (syncService.getSiteReferenceStatus(kind).stale) {
+    try {
+      const result = await syncService.syncSiteReference({ kinds: [kind] });
+      refreshError = result.stoppedReason;
+    } catch (error) {
+      refreshError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const records = db.getSiteReference(kind);
+  const { lastRefreshed, stale } = syncService.getSiteReferenceStatus(kind);
+
+  const data = {
+    kind,
+    total: records.length,
+    lastRefreshed,
+    stale,
+    ...(refreshError && { refreshError }),
+    items: records.map((record) => record.rawData),
+  };
+
+  return {
+    uri: `mindbody://site/${kind}`,
+    mimeType: "application/json",
+    text: JSON.stringify(data, null, 2),
+  };
+}
+
 export function listResources(): Array<{
   uri: string;
   name: string;
@@ -77,6 +233,12 @@ export function listResources(): Array<{
   mimeType: string;
 }> {
   return [
+    {
+      uri: "mindbody://sites",
+      name: "Sites",
+      description: "Registered Mindbody sites; append ?siteId=<id> to any other resource URI to read that site",
+      mimeType: "application/json",
+    },
     {
       uri: "mindbody://quota/status",
       name: "API Quota Status",
@@ -95,5 +257,29 @@ export function listResources(): Array<{
       description: "Summary of locally cached data",
       mimeType: "application/json",
     },
+    {
+      uri: "mindbody://cache/api",
+      name: "API Response Cache",
+      description: "Cached API responses and the hit ratio since startup",
+      mimeType: "application/json",
+    },
+    {
+      uri: "mindbody://audit/journal",
+      name: "Audit Journal",
+      description: "Recent writes to Mindbody with their snapshots, for review and undo_change",
+      mimeType: "application/json",
+    },
+    {
+      uri: "mindbody://approvals/pending",
+      name: "Pending Approvals",
+      description: "Risky writes held for review; a person supplies the approval token",
+      mimeType: "application/json",
+    },
+    ...SITE_REFERENCE_KINDS.map((kind) => ({
+      uri: `mindbody://site/${kind}`,
+      name: SITE_REFERENCE_NAMES[kind],
+      description: `Site ${SITE_REFERENCE_NAMES[kind].toLowerCase()} lookup, refreshed daily`,
+      mimeType: "application/json",
+    })),
   ];
 }
@@ -0,0 +1,81 @@
+import type { EndpointMetadata, JsonSchema } from "../metadata/types.js";
+import type { EndpointRegistry } from "../metadata/registry.js";
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: "object";
+    properties: Record<string, JsonSchema>;
+    required?: string[];
+  };
+}
+
+/**
+ * Generate one MCP tool per registered endpoint
+ */
+export function generateTools(registry: EndpointRegistry, category?: string): ToolDefinition[] {
+  return registry.list(category).map(generateTool);
+}
+
+export function generateTool(endpoint: EndpointMetadata): ToolDefinition {
+  const header = `[${endpoint.method} ${endpoint.path}]`;
+
+  return {
+    name: endpoint.name,
+    description: endpoint.description ? `${header} ${endpoint.description}` : header,
+    inputSchema: buildInputSchema(endpoint),
+  };
+}
+
+/**
+ * Build the JSON Schema advertised to MCP clients for an endpoint
+ *
+ * Query, path and body arguments share one flat namespace. Every tool also
+ * accepts `force` to bypass the daily API limit guard.
+ */
+export function buildInputSchema(endpoint: EndpointMetadata): ToolDefinition["inputSchema"] {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const param of endpoint.parameters) {
+    properties[param.name] = param.description
+      ? { ...param.schema, description: param.description }
+      : param.schema;
+    if (param.required) {
+      required.push(param.name);
+    }
+  }
+
+  properties.force = {
+    type: "boolean",
+    description: "Bypass the daily API limit guard. Use only when explicitly requested.",
+  };
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+/**
+ * Add the `siteId` argument every tool accepts; the server routes the call
+ * to that site's services (see SiteRegistry) and strips the argument before
+ * the tool sees it
+ */
+export function withSiteArgument(definition: ToolDefinition): ToolDefinition {
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: {
+        ...definition.inputSchema.properties,
+        siteId: {
+          type: "string",
+          description: "Mindbody site to run against (default: MBO_SITE_ID)",
+        },
+      },
+    },
+  };
+}
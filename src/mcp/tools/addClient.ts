@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { toClientRecord } from "../../services/sync.js";
+import { AddClientRequestSchema } from "../../types/client.js";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const AddClientParamsSchema = z.object({
+  client: AddClientRequestSchema,
+  dry_run: z.boolean().default(true),
+  allow_duplicate: z.boolean().default(false),
+  force: z.boolean().default(false),
+});
+
+export const addClientTool: CustomTool = {
+  definition: {
+    name: "create_client_checked",
+    description:
+      "Creates a client. First checks the local clients table for likely duplicates (same email, " +
+      "normalized name or phone) and, if any are found, returns them instead of creating a record so an " +
+      "existing client can be updated. Runs as a dry run by default, which asks Mindbody to validate the " +
+      "new client (Test mode); call again with dry_run=false to create it. Prefer this over add_client, " +
+      "which skips the duplicate check.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        client: {
+          type: "object",
+          description:
+            "Mindbody AddClientRequest fields: FirstName and LastName are required; Email, MobilePhone, " +
+            "BirthDate, AddressLine1, ... as the site requires",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Validate in Mindbody test mode without creating the client (default: true)",
+        },
+        allow_duplicate: {
+          type: "boolean",
+          description: "Create the client even though cached clients look like duplicates",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["client"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = AddClientParamsSchema.parse(args);
+    const client = params.client;
+
+    const duplicateCandidates = db.findClientDuplicates({
+      email: client.Email,
+      firstName: client.FirstName,
+      lastName: client.LastName,
+      phones: [client.MobilePhone, client.HomePhone, client.WorkPhone],
+    });
+
+    if (duplicateCandidates.length > 0 && !params.allow_duplicate) {
+      return jsonResult({
+        dryRun: params.dry_run,
+        created: false,
+        duplicateCandidates,
+        message:
+          `Found ${duplicateCandidates.length} possible duplicate(s) in the local cache. Update one of them ` +
+          "with write_client_profile, or call again with allow_duplicate=true to create a new client",
+      });
+    }
+
+    if (params.dry_run) {
+      const response = await apiClient.addClient({ client, dryRun: true, force: params.force });
+      return jsonResult({
+        dryRun: true,
+        created: false,
+        duplicateCandidates,
+        client: response?.Client ?? null,
+        message: "Mindbody accepted the client in test mode; call again with dry_run=false to create it",
+      });
+    }
+
+    try {
+      const response = await apiClient.addClient({ client, force: params.force });
+
+      if (response?.Client?.Id) {
+        db.saveClient(toClientRecord(response.Client));
+      }
+
+      db.addSyncLog({
+        operation: "create_client_checked",
+        status: "success",
+        message: `Created client ${response?.Client?.Id ?? "(no ID returned)"} for ${client.FirstName} ${client.LastName}`,
+        details: { clientId: response?.Client?.Id ?? null, duplicatesOverridden: duplicateCandidates.map((candidate) => candidate.id) },
+      });
+
+      return jsonResult({
+        dryRun: false,
+        created: true,
+        duplicateCandidates,
+        client: response?.Client ?? null,
+      });
+    } catch (error) {
+      db.addSyncLog({
+        operation: "create_client_checked",
+        status: "error",
+        message: error instanceof Error ? error.message : String(error),
+        details: { firstName: client.FirstName, lastName: client.LastName },
+      });
+      throw error;
+    }
+  },
+};
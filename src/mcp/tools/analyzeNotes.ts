@@ -0,0 +1,125 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const AnalyzeFormulaNotesParamsSchema = z.object({
+  client_id_list: z.array(z.string().min(1)).min(1, "At least one client ID is required"),
+  force: z.boolean().default(false),
+});
+
+export interface FormulaSuggestion {
+  colors: string[];
+  developer: string[];
+  ratios: string[];
+  amounts: string[];
+  processingTimes: string[];
+}
+
+const FORMULA_PATTERNS: Record<keyof FormulaSuggestion, RegExp> = {
+  // Level + tone codes: 6N, 5RV, 7.1, 8/43
+  colors: /(?<![:.])\b\d{1,2}(?:[./]\d{1,2}[A-Z]{0,3}|[A-Z]{1,3})\b/g,
+  // Developer strength: 20 vol, 30 volume, 6%
+  developer: /\b\d{1,2}\s*(?:vol(?:ume)?\b|%)/gi,
+  // Mixing ratios: 1:1, 1:1.5
+  ratios: /\b\d(?:\.\d)?\s*:\s*\d(?:\.\d)?\b/g,
+  // Product amounts: 30g, 1.5 oz, 60 ml
+  amounts: /\b\d+(?:\.\d+)?\s*(?:g|grams?|oz|ml)\b/gi,
+  // Processing time: 35 min, 20 minutes
+  processingTimes: /\b\d{1,3}\s*min(?:ute)?s?\b/gi,
+};
+
+/**
+ * Terms that suggest medical or otherwise sensitive information
+ */
+const SENSITIVE_PATTERN =
+  /\b(allerg\w*|pregnan\w*|medication\w*|medical|sensitiv\w*|patch test|reaction|diagnos\w*|prescri\w*)\b/gi;
+
+/**
+ * Extract structured formula details from a free-text note
+ *
+ * Returns null when nothing formula-like is found.
+ */
+export function parseFormulaNote(text: string): FormulaSuggestion | null {
+  const suggestion = {} as FormulaSuggestion;
+  let found = false;
+
+  for (const [key, pattern] of Object.entries(FORMULA_PATTERNS) as Array<[keyof FormulaSuggestion, RegExp]>) {
+    const matches = Array.from(new Set((text.match(pattern) ?? []).map((match) => match.trim())));
+    suggestion[key] = matches;
+    found = found || matches.length > 0;
+  }
+
+  return found ? suggestion : null;
+}
+
+export function findSensitiveTerms(text: string): string[] {
+  return Array.from(new Set((text.match(SENSITIVE_PATTERN) ?? []).map((term) => term.toLowerCase())));
+}
+
+export const analyzeFormulaNotesTool: CustomTool = {
+  definition: {
+    name: "analyze_formula_notes",
+    description:
+      "Retrieves and structures unstructured SOAP/Formula notes for specific clients. " +
+      "Returns the raw text plus a structured suggestion when formula patterns (color codes, " +
+      "developer, ratios, timings) are detected, and flags possibly sensitive medical terms.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        client_id_list: {
+          type: "array",
+          items: { type: "string" },
+          description: "Client IDs to fetch formula notes for",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["client_id_list"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = AnalyzeFormulaNotesParamsSchema.parse(args);
+
+    try {
+      const response = await apiClient.getClientFormulaNotes({
+        clientIds: params.client_id_list,
+        force: params.force,
+      });
+
+      const notes = (response.ClientFormulaNotes ?? []).map((note) => ({
+        clientId: note.ClientId,
+        text: note.Notes,
+        suggestion: parseFormulaNote(note.Notes ?? ""),
+        sensitiveTerms: findSensitiveTerms(note.Notes ?? ""),
+      }));
+
+      const flagged = notes.filter((note) => note.sensitiveTerms.length > 0).length;
+
+      db.addSyncLog({
+        operation: "analyze_formula_notes",
+        status: "success",
+        message: `Analyzed ${notes.length} formula notes for ${params.client_id_list.length} clients`,
+        details: { clientIds: params.client_id_list, notes: notes.length, flagged },
+      });
+
+      return jsonResult({
+        clients: params.client_id_list.length,
+        notes,
+        ...(flagged > 0 && {
+          warning: `${flagged} notes mention possibly sensitive medical information`,
+        }),
+      });
+    } catch (error) {
+      db.addSyncLog({
+        operation: "analyze_formula_notes",
+        status: "error",
+        message: error instanceof Error ? error.message : String(error),
+        details: { clientIds: params.client_id_list },
+      });
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,247 @@
+import { z } from "zod";
+import { AddAppointmentRequestSchema, UpdateAppointmentRequestSchema, transformAppointment } from "../../types/appointment.js";
+import type { AppointmentWriteResponse } from "../../types/appointment.js";
+import type { DatabaseClient } from "../../db/client.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const AddAppointmentParamsSchema = z.object({
+  appointment: AddAppointmentRequestSchema,
+  act_as_client: z.boolean().default(false),
+  dry_run: z.boolean().default(true),
+  force: z.boolean().default(false),
+});
+
+export const UpdateAppointmentParamsSchema = z.object({
+  appointment_id: z.string().min(1, "Appointment ID is required"),
+  data: UpdateAppointmentRequestSchema.refine(
+    (data) => Object.keys(data).length > 0,
+    "At least one field to update is required"
+  ),
+  dry_run: z.boolean().default(true),
+  force: z.boolean().default(false),
+});
+
+export const CancelAppointmentParamsSchema = z.object({
+  appointment_id: z.string().min(1, "Appointment ID is required"),
+  late_cancel: z.boolean().default(false),
+  send_email: z.boolean().default(false),
+  dry_run: z.boolean().default(true),
+  force: z.boolean().default(false),
+});
+
+/**
+ * Run an appointment write, or its Test-mode preview
+ *
+ * Dry runs still cost one API call (Mindbody does the validation) but
+ * leave the cache and sync log alone. Applied writes refresh the cached
+ * appointment and are logged either way.
+ */
+async function runAppointmentWrite(
+  db: DatabaseClient,
+  options: {
+    operation: string;
+    dryRun: boolean;
+    summary: string;
+    details: Record<string, unknown>;
+    write: () => Promise<AppointmentWriteResponse>;
+  }
+): Promise<CallToolResult> {
+  if (options.dryRun) {
+    const response = await options.write();
+    return jsonResult({
+      dryRun: true,
+      ...options.details,
+      appointment: response?.Appointment ?? null,
+      message: "Mindbody accepted the request in test mode; call again with dry_run=false to apply it",
+    });
+  }
+
+  try {
+    const response = await options.write();
+
+    if (response?.Appointment?.Id) {
+      db.saveAppointment(transformAppointment(response.Appointment));
+    }
+
+    db.addSyncLog({
+      operation: options.operation,
+      status: "success",
+      message: options.summary,
+      details: options.details,
+    });
+
+    return jsonResult({
+      dryRun: false,
+      ...options.details,
+      appointment: response?.Appointment ?? null,
+    });
+  } catch (error) {
+    db.addSyncLog({
+      operation: options.operation,
+      status: "error",
+      message: error instanceof Error ? error.message : String(error),
+      details: options.details,
+    });
+    throw error;
+  }
+}
+
+export const addAppointmentTool: CustomTool = {
+  definition: {
+    name: "book_appointment",
+    description:
+      "Books an appointment. Requires confirmation: runs as a dry run by default, which asks Mindbody to " +
+      "validate the booking (Test mode) and returns the would-be appointment. Call again with " +
+      "dry_run=false to book it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appointment: {
+          type: "object",
+          description:
+            "Mindbody AddAppointmentRequest fields: ClientId, LocationId, SessionTypeId, StaffId and " +
+            "StartDateTime are required; optional EndDateTime, Notes, StaffRequested, SendEmail, ...",
+        },
+        act_as_client: {
+          type: "boolean",
+          description:
+            "Book as the client user with their OAuth token (see start_client_authorization) instead of " +
+            "the staff user (default: false)",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Validate in Mindbody test mode without writing (default: true)",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["appointment"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = AddAppointmentParamsSchema.parse(args);
+
+    return runAppointmentWrite(db, {
+      operation: "book_appointment",
+      dryRun: params.dry_run,
+      summary: `Booked client ${params.appointment.ClientId} at ${params.appointment.StartDateTime}`,
+      details: { request: params.appointment, actAsClient: params.act_as_client },
+      write: () => apiClient.addAppointment({
+        appointment: params.appointment,
+        actAsClient: params.act_as_client,
+        dryRun: params.dry_run,
+        force: params.force,
+      }),
+    });
+  },
+};
+
+export const updateAppointmentTool: CustomTool = {
+  definition: {
+    name: "change_appointment",
+    description:
+      "Updates an appointment (time, staff, session type, notes or an Execute action). Runs as a dry run " +
+      "by default: Mindbody validates the change in Test mode and the result is returned next to the " +
+      "locally cached appointment. Call again with dry_run=false to apply it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appointment_id: { type: "string", description: "Mindbody appointment ID" },
+        data: {
+          type: "object",
+          description:
+            "Mindbody UpdateAppointmentRequest fields, e.g. StartDateTime, EndDateTime, StaffId, Notes, Execute",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Validate in Mindbody test mode without writing (default: true)",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["appointment_id", "data"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = UpdateAppointmentParamsSchema.parse(args);
+
+    return runAppointmentWrite(db, {
+      operation: "change_appointment",
+      dryRun: params.dry_run,
+      summary: `Updated appointment ${params.appointment_id} (${Object.keys(params.data).join(", ")})`,
+      details: {
+        appointmentId: params.appointment_id,
+        changes: params.data,
+        cached: db.getAppointment(params.appointment_id)?.rawData ?? null,
+      },
+      write: () => apiClient.updateAppointment({
+        appointmentId: params.appointment_id,
+        changes: params.data,
+        dryRun: params.dry_run,
+        force: params.force,
+      }),
+    });
+  },
+};
+
+export const cancelAppointmentTool: CustomTool = {
+  definition: {
+    name: "cancel_appointment",
+    description:
+      "Cancels an appointment, optionally as a late cancellation. Runs as a dry run by default: Mindbody " +
+      "validates the cancellation in Test mode. Call again with dry_run=false to cancel.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appointment_id: { type: "string", description: "Mindbody appointment ID" },
+        late_cancel: {
+          type: "boolean",
+          description: "Record a late cancellation (may forfeit the session or incur a fee)",
+        },
+        send_email: {
+          type: "boolean",
+          description: "Email the client about the cancellation",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Validate in Mindbody test mode without writing (default: true)",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["appointment_id"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = CancelAppointmentParamsSchema.parse(args);
+
+    return runAppointmentWrite(db, {
+      operation: "cancel_appointment",
+      dryRun: params.dry_run,
+      summary: `${params.late_cancel ? "Late-cancelled" : "Cancelled"} appointment ${params.appointment_id}`,
+      details: {
+        appointmentId: params.appointment_id,
+        lateCancel: params.late_cancel,
+        cached: db.getAppointment(params.appointment_id)?.rawData ?? null,
+      },
+      write: () => apiClient.cancelAppointment({
+        appointmentId: params.appointment_id,
+        lateCancel: params.late_cancel,
+        sendEmail: params.send_email,
+        dryRun: params.dry_run,
+        force: params.force,
+      }),
+    });
+  },
+};
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { toClientRecord } from "../../services/sync.js";
+import type { MindbodyClient } from "../../services/mindbody.js";
+import { transformAppointment } from "../../types/appointment.js";
+import type { MindbodyAppointment } from "../../types/appointment.js";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const ApproveActionParamsSchema = z.object({
+  token: z.string().min(1, "Approval token is required"),
+  force: z.boolean().default(false),
+});
+
+export const approveActionTool: CustomTool = {
+  definition: {
+    name: "approve_action",
+    description:
+      "Runs a write that was held for human approval. Risky writes (cancellations, destructive " +
+      "endpoints, bulk changes) are staged instead of sent and listed in the mindbody://approvals/pending " +
+      "resource; this tool sends the staged request exactly as it was staged (as the same client user, " +
+      "for the same undo) once its approval token is supplied. The token is only given to people, so " +
+      "call this tool only with a token a person has provided after reviewing the action.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        token: { type: "string", description: "Approval token of the pending action" },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard (does not bypass approval)",
+        },
+      },
+      required: ["token"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = ApproveActionParamsSchema.parse(args);
+    const action = db.getPendingActionByToken(params.token);
+    if (!action) {
+      throw new Error("No pending action matches this approval token");
+    }
+
+    const summary = {
+      actionId: action.id,
+      method: action.method,
+      endpoint: action.endpoint,
+      riskLevel: action.riskLevel,
+      reasons: action.reasons,
+      recordCount: action.recordCount,
+    };
+
+    try {
+      const response = await apiClient.request<{ Client?: MindbodyClient; Appointment?: MindbodyAppointment }>({
+        method: action.method,
+        endpoint: action.endpoint,
+        params: (action.params ?? undefined) as Record<string, string | number | boolean> | undefined,
+        body: action.body,
+        undoOf: action.undoOf ?? undefined,
+        actingClientId: action.actingClientId ?? undefined,
+        idempotencyKey: action.idempotencyKey ?? undefined,
+        force: params.force,
+        approvalToken: params.token,
+      });
+
+      if (response?.Client?.Id) {
+        db.saveClient(toClientRecord(response.Client));
+      }
+      if (response?.Appointment?.Id) {
+        db.saveAppointment(transformAppointment(response.Appointment));
+      }
+
+      db.addSyncLog({
+        operation: "approve_action",
+        status: "success",
+        message: `Ran approved action ${action.id} (${action.method} ${action.endpoint})`,
+        details: summary,
+      });
+
+      return jsonResult({ ...summary, status: "executed", result: response });
+    } catch (error) {
+      db.addSyncLog({
+        operation: "approve_action",
+        status: "error",
+        message: error instanceof Error ? error.message : String(error),
+        details: summary,
+      });
+      throw error;
+    }
+  },
+};
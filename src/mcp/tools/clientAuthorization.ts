@@ -0,0 +1,87 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const StartClientAuthorizationParamsSchema = z.object({
+  client_id: z.string().min(1, "Client ID is required"),
+});
+
+export const CompleteClientAuthorizationParamsSchema = z.object({
+  state: z.string().min(1, "State is required"),
+  code: z.string().min(1, "Authorization code is required"),
+});
+
+export const startClientAuthorizationTool: CustomTool = {
+  definition: {
+    name: "start_client_authorization",
+    description:
+      "Starts Mindbody's OAuth sign-in for a client user, so tools can act as that client (e.g. " +
+      "book_appointment with act_as_client). Returns a URL for the client to open; after they sign in, " +
+      "pass the code and state Mindbody sends to the redirect URI to complete_client_authorization.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        client_id: { type: "string", description: "Mindbody client ID of the user signing in" },
+      },
+      required: ["client_id"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = StartClientAuthorizationParamsSchema.parse(args);
+    const { url, state } = apiClient.getAuthService().getAuthorizationUrl(params.client_id);
+    const cached = db.getClient(params.client_id);
+
+    return jsonResult({
+      clientId: params.client_id,
+      clientName: cached ? [cached.firstName, cached.lastName].filter(Boolean).join(" ") : null,
+      authorizationUrl: url,
+      state,
+      message:
+        "Ask the client to open the URL and sign in, then call complete_client_authorization with the " +
+        "code and state posted to the redirect URI",
+    });
+  },
+};
+
+export const completeClientAuthorizationTool: CustomTool = {
+  definition: {
+    name: "complete_client_authorization",
+    description:
+      "Finishes a client user's OAuth sign-in: exchanges the authorization code for tokens, which are " +
+      "stored encrypted and refreshed automatically. The tokens belong to the client the sign-in was " +
+      "started for (matched by state). The tokens themselves are never returned.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        state: { type: "string", description: "State from the redirect (as returned by start_client_authorization)" },
+        code: { type: "string", description: "Authorization code from the redirect" },
+      },
+      required: ["state", "code"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = CompleteClientAuthorizationParamsSchema.parse(args);
+
+    try {
+      const { clientId, expiresAt } = await apiClient.getAuthService().exchangeAuthorizationCode(params.state, params.code);
+
+      db.addSyncLog({
+        operation: "complete_client_authorization",
+        status: "success",
+        message: `Client ${clientId} authorized this app`,
+        details: { clientId },
+      });
+
+      return jsonResult({ clientId, authorized: true, accessTokenExpiresAt: expiresAt.toISOString() });
+    } catch (error) {
+      db.addSyncLog({
+        operation: "complete_client_authorization",
+        status: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { join } from "path";
+import type { MindbodySale } from "../../services/mindbody.js";
+import { toSaleRecord } from "../../services/sync.js";
+import type { CustomTool } from "./shared.js";
+import { DATE_REGEX, jsonResult, toCsv } from "./shared.js";
+
+export const ExportSalesParamsSchema = z.object({
+  start_date: z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD format"),
+  end_date: z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD format"),
+  format: z.enum(["json", "csv"]).default("json"),
+  force: z.boolean().default(false),
+});
+
+const CSV_COLUMNS = ["id", "sale_date", "client_id", "total_amount"] as const;
+
+export function salesToCsv(sales: MindbodySale[]): string {
+  return toCsv(CSV_COLUMNS, sales.map((sale) => {
+    const record = toSaleRecord(sale);
+    return [record.id, record.saleDate, record.clientId, record.totalAmount];
+  }));
+}
+
+export const exportSalesHistoryTool: CustomTool = {
+  definition: {
+    name: "export_sales_history",
+    description:
+      "Extracts sales data for a date range. Automatically chunks large ranges into weekly " +
+      "requests to prevent timeouts, caches the sales locally and writes an export file to the data directory.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        start_date: { type: "string", description: "Start date (YYYY-MM-DD)" },
+        end_date: { type: "string", description: "End date (YYYY-MM-DD), inclusive" },
+        format: {
+          type: "string",
+          enum: ["json", "csv"],
+          description: "Export file format (default: json)",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["start_date", "end_date"],
+    },
+  },
+
+  async handle(args, { config, db, syncService }) {
+    const params = ExportSalesParamsSchema.parse(args);
+
+    const result = await syncService.syncSales({
+      startDate: params.start_date,
+      endDate: params.end_date,
+      force: params.force,
+    });
+
+    // A resumed run only fetches what is left, so the file is built from the
+    // sales table, and only once the whole range is in it
+    if (!result.complete) {
+      return jsonResult({ ...result, file: null });
+    }
+
+    const sales = db.getSalesInRange({ startDate: params.start_date, endDate: params.end_date }) as MindbodySale[];
+    const filePath = join(
+      config.DATA_DIR,
+      `sales_${params.start_date}_${params.end_date}.${params.format}`
+    );
+    const contents = params.format === "csv"
+      ? salesToCsv(sales)
+      : JSON.stringify(sales, null, 2);
+    await Bun.write(filePath, contents);
+
+    return jsonResult({ ...result, file: filePath });
+  },
+};
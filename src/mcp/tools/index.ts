@@ -0,0 +1,55 @@
+import type { CustomTool } from "./shared.js";
+import { syncClientsTool } from "./syncClients.js";
+import { exportSalesHistoryTool } from "./exportSales.js";
+import { analyzeFormulaNotesTool } from "./analyzeNotes.js";
+import { writeClientProfileTool } from "./writeProfile.js";
+import { addClientTool } from "./addClient.js";
+import { planClientMergesTool } from "./planClientMerges.js";
+import { syncAppointmentsTool } from "./syncAppointments.js";
+import { syncBookableItemsTool } from "./syncBookableItems.js";
+import { syncClassesTool } from "./syncClasses.js";
+import { syncClassVisitsTool } from "./syncClassVisits.js";
+import { syncStaffTool } from "./syncStaff.js";
+import { syncSiteReferenceTool } from "./syncSiteReference.js";
+import { exportSalesReconciliationTool } from "./reconcileSales.js";
+import { syncMembershipsTool } from "./syncMemberships.js";
+import { reportClientMembershipsTool } from "./reportMemberships.js";
+import { addAppointmentTool, updateAppointmentTool, cancelAppointmentTool } from "./appointmentWrites.js";
+import { undoChangeTool } from "./undoChange.js";
+import { approveActionTool } from "./approveAction.js";
+import { startClientAuthorizationTool, completeClientAuthorizationTool } from "./clientAuthorization.js";
+
+export type { CustomTool, ToolContext } from "./shared.js";
+
+/**
+ * Hand-written migration tools (see SPEC.md section 5.1) plus the
+ * local-mirror sync tools that build on them
+ */
+export const customTools: CustomTool[] = [
+  syncClientsTool,
+  exportSalesHistoryTool,
+  analyzeFormulaNotesTool,
+  writeClientProfileTool,
+  addClientTool,
+  planClientMergesTool,
+  syncAppointmentsTool,
+  syncBookableItemsTool,
+  syncClassesTool,
+  syncClassVisitsTool,
+  syncStaffTool,
+  syncSiteReferenceTool,
+  exportSalesReconciliationTool,
+  syncMembershipsTool,
+  reportClientMembershipsTool,
+  addAppointmentTool,
+  updateAppointmentTool,
+  cancelAppointmentTool,
+  undoChangeTool,
+  approveActionTool,
+  startClientAuthorizationTool,
+  completeClientAuthorizationTool,
+];
+
+export function findCustomTool(name: string): CustomTool | undefined {
+  return customTools.find((tool) => tool.definition.name === name);
+}
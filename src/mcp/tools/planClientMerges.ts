@@ -0,0 +1,282 @@
+import { z } from "zod";
+import { join } from "path";
+import type { DatabaseClient } from "../../db/client.js";
+import { clientPhones, normalizeEmail, normalizeName, normalizePhone } from "../../types/client.js";
+import type { ClientMatchKey } from "../../types/client.js";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const PlanClientMergesParamsSchema = z.object({
+  min_score: z.number().min(0).max(1).default(0.5),
+  include_inactive: z.boolean().default(true),
+  limit: z.number().int().min(1).max(500).default(25),
+});
+
+type CachedClient = ReturnType<DatabaseClient["getClients"]>[number];
+
+/**
+ * How much each shared key says about two records being one person. An
+ * email alone is strong evidence, a name alone is weak.
+ */
+export const MATCH_WEIGHTS: Record<ClientMatchKey, number> = {
+  email: 0.5,
+  phone: 0.3,
+  name: 0.2,
+};
+
+export interface DuplicateCluster {
+  clientIds: string[];
+  /** Weakest member's best pair score, 0-1 */
+  score: number;
+  matchedOn: ClientMatchKey[];
+}
+
+export interface MergePlanRecord {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  status: string | null;
+  saleIds: string[];
+  appointmentIds: string[];
+}
+
+export interface MergePlanEntry {
+  score: number;
+  matchedOn: ClientMatchKey[];
+  survivor: MergePlanRecord & { reason: string };
+  /** Records whose sales and appointments would move to the survivor */
+  merge: Array<MergePlanRecord & { score: number; matchedOn: ClientMatchKey[] }>;
+  /**
+   * Clustered records that do not match the survivor itself well enough
+   * (e.g. linked only through another member); left alone for review
+   */
+  review: Array<MergePlanRecord & { score: number; matchedOn: ClientMatchKey[] }>;
+  salesToRepoint: number;
+  appointmentsToRepoint: number;
+}
+
+function matchKeys(client: CachedClient): Array<[ClientMatchKey, string]> {
+  const keys: Array<[ClientMatchKey, string]> = [];
+  const email = normalizeEmail(client.email);
+  const name = normalizeName(client.firstName, client.lastName);
+  if (email) {
+    keys.push(["email", email]);
+  }
+  if (name) {
+    keys.push(["name", name]);
+  }
+  for (const phone of clientPhones(client.rawData)) {
+    const normalized = normalizePhone(phone);
+    if (normalized) {
+      keys.push(["phone", normalized]);
+    }
+  }
+  return keys;
+}
+
+function sharedKeys(a: Array<[ClientMatchKey, string]>, b: Array<[ClientMatchKey, string]>): ClientMatchKey[] {
+  const values = new Set(b.map(([kind, value]) => `${kind}:${value}`));
+  const shared = new Set(a.filter(([kind, value]) => values.has(`${kind}:${value}`)).map(([kind]) => kind));
+  return (Object.keys(MATCH_WEIGHTS) as ClientMatchKey[]).filter((kind) => shared.has(kind));
+}
+
+function pairScore(keys: ClientMatchKey[]): number {
+  return Math.min(1, keys.reduce((sum, kind) => sum + MATCH_WEIGHTS[kind], 0));
+}
+
+/**
+ * Group clients that share an email, normalized name or phone
+ *
+ * Records are linked transitively (A~B and B~C puts all three together),
+ * so each cluster is scored by its weakest member: the best pair score
+ * that member has with anyone else in the cluster. buildMergePlan only
+ * merges records that match the survivor directly.
+ */
+export function clusterDuplicateClients(clients: CachedClient[]): DuplicateCluster[] {
+  const keys = clients.map(matchKeys);
+  const parent = clients.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]!]!;
+      index = parent[index]!;
+    }
+    return index;
+  };
+
+  const buckets = new Map<string, number>();
+  keys.forEach((clientKeys, index) => {
+    for (const [kind, value] of clientKeys) {
+      const bucket = `${kind}:${value}`;
+      const first = buckets.get(bucket);
+      if (first === undefined) {
+        buckets.set(bucket, index);
+      } else {
+        parent[find(index)] = find(first);
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  clients.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) {
+      continue;
+    }
+
+    const matchedOn = new Set<ClientMatchKey>();
+    let score = 1;
+    for (const member of members) {
+      let best = 0;
+      for (const other of members) {
+        if (other === member) {
+          continue;
+        }
+        const shared = sharedKeys(keys[member]!, keys[other]!);
+        shared.forEach((kind) => matchedOn.add(kind));
+        best = Math.max(best, pairScore(shared));
+      }
+      score = Math.min(score, best);
+    }
+
+    clusters.push({
+      clientIds: members.map((index) => clients[index]!.id),
+      score: Math.round(score * 100) / 100,
+      matchedOn: (Object.keys(MATCH_WEIGHTS) as ClientMatchKey[]).filter((kind) => matchedOn.has(kind)),
+    });
+  }
+
+  return clusters.sort((a, b) => b.score - a.score || b.clientIds.length - a.clientIds.length);
+}
+
+/**
+ * Pick a survivor per cluster and list what would move to it
+ *
+ * The survivor is the active record with the most sales and appointments;
+ * ties go to the earliest CreationDate, then the lowest ID. A record is
+ * proposed for merging only when it shares keys with the survivor itself,
+ * scoring at least minScore; the rest of the cluster goes to review, and
+ * clusters with nothing to merge are left out. Nothing is written: the
+ * plan is for review.
+ */
+export function buildMergePlan(
+  clusters: DuplicateCluster[],
+  clients: CachedClient[],
+  linked: Map<string, { saleIds: string[]; appointmentIds: string[] }>,
+  minScore = 0
+): MergePlanEntry[] {
+  const byId = new Map(clients.map((client) => [client.id, client]));
+  const toRecord = (id: string): MergePlanRecord => {
+    const client = byId.get(id);
+    const records = linked.get(id);
+    return {
+      id,
+      firstName: client?.firstName ?? null,
+      lastName: client?.lastName ?? null,
+      email: client?.email ?? null,
+      status: client?.status ?? null,
+      saleIds: records?.saleIds ?? [],
+      appointmentIds: records?.appointmentIds ?? [],
+    };
+  };
+  const creationDate = (id: string): string => {
+    const raw = byId.get(id)?.rawData as { CreationDate?: unknown } | undefined;
+    return typeof raw?.CreationDate === "string" ? raw.CreationDate : "9999";
+  };
+  const activity = (record: MergePlanRecord) => record.saleIds.length + record.appointmentIds.length;
+
+  const entries = clusters.map((cluster): MergePlanEntry => {
+    const records = cluster.clientIds.map(toRecord).sort((a, b) =>
+      Number(b.status === "Active") - Number(a.status === "Active") ||
+      activity(b) - activity(a) ||
+      creationDate(a.id).localeCompare(creationDate(b.id)) ||
+      a.id.localeCompare(b.id)
+    );
+    const [survivor, ...others] = records as [MergePlanRecord, ...MergePlanRecord[]];
+    const survivorKeys = matchKeys(byId.get(survivor.id)!);
+
+    const reasons = [
+      survivor.status === "Active" ? "active" : null,
+      `${activity(survivor)} linked records`,
+      creationDate(survivor.id) !== "9999" ? `created ${creationDate(survivor.id).slice(0, 10)}` : null,
+    ].filter((reason): reason is string => reason !== null);
+
+    const candidates = others.map((record) => {
+      const matchedOn = sharedKeys(matchKeys(byId.get(record.id)!), survivorKeys);
+      return { ...record, score: pairScore(matchedOn), matchedOn };
+    });
+    const isDirectMatch = (record: { score: number }) => record.score > 0 && record.score >= minScore;
+    const merge = candidates.filter(isDirectMatch);
+
+    return {
+      score: cluster.score,
+      matchedOn: cluster.matchedOn,
+      survivor: { ...survivor, reason: reasons.join(", ") },
+      merge,
+      review: candidates.filter((record) => !isDirectMatch(record)),
+      salesToRepoint: merge.reduce((sum, record) => sum + record.saleIds.length, 0),
+      appointmentsToRepoint: merge.reduce((sum, record) => sum + record.appointmentIds.length, 0),
+    };
+  });
+
+  return entries.filter((entry) => entry.merge.length > 0);
+}
+
+export const planClientMergesTool: CustomTool = {
+  definition: {
+    name: "plan_client_merges",
+    description:
+      "Finds likely duplicate client profiles in the local mirror by shared email, normalized name and " +
+      "phone numbers, scores each cluster and writes a merge plan to the data directory: which record " +
+      "survives and which sales and appointments would be re-pointed to it. Read-only: nothing is merged " +
+      "or written to Mindbody, so the plan can be reviewed first. Run sync_clients beforehand.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        min_score: {
+          type: "number",
+          description:
+            "Only merge records matching the survivor at least this well (0-1; email 0.5, phone 0.3, " +
+            "name 0.2; default 0.5 needs an email, or a phone and a name)",
+        },
+        include_inactive: {
+          type: "boolean",
+          description: "Consider inactive clients as well (default true)",
+        },
+        limit: {
+          type: "number",
+          description: "Clusters to return inline, strongest first (default 25; the file has all of them)",
+        },
+      },
+    },
+  },
+
+  async handle(args, { config, db }) {
+    const params = PlanClientMergesParamsSchema.parse(args);
+
+    const clients = db.getClients().filter(
+      (client) => params.include_inactive || client.status !== "Inactive"
+    );
+    const clusters = clusterDuplicateClients(clients);
+    const linked = db.getClientLinkedRecords(clusters.flatMap((cluster) => cluster.clientIds));
+    const plan = buildMergePlan(clusters, clients, linked, params.min_score);
+
+    const filePath = join(config.DATA_DIR, "client_merge_plan.json");
+    await Bun.write(filePath, JSON.stringify(plan, null, 2));
+
+    return jsonResult({
+      clientsScanned: clients.length,
+      clusters: plan.length,
+      recordsToMerge: plan.reduce((sum, entry) => sum + entry.merge.length, 0),
+      salesToRepoint: plan.reduce((sum, entry) => sum + entry.salesToRepoint, 0),
+      appointmentsToRepoint: plan.reduce((sum, entry) => sum + entry.appointmentsToRepoint, 0),
+      file: filePath,
+      plan: plan.slice(0, params.limit),
+    });
+  },
+};
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { join } from "path";
+import type { SaleReconciliation } from "../../types/sale.js";
+import type { CustomTool } from "./shared.js";
+import { DATE_REGEX, jsonResult, toCsv } from "./shared.js";
+
+export const ReconcileSalesParamsSchema = z.object({
+  start_date: z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD format"),
+  end_date: z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD format"),
+  format: z.enum(["json", "csv"]).default("json"),
+  mismatches_only: z.boolean().default(false),
+  refresh: z.boolean().default(false),
+  include_transactions: z.boolean().default(false),
+  force: z.boolean().default(false),
+});
+
+const CSV_COLUMNS = [
+  "sale_id",
+  "sale_date",
+  "client_id",
+  "total_amount",
+  "item_count",
+  "items_total",
+  "tax_total",
+  "payment_count",
+  "payments_total",
+  "difference",
+  "status",
+] as const;
+
+export function reconciliationToCsv(rows: SaleReconciliation[]): string {
+  return toCsv(CSV_COLUMNS, rows.map((row) => [
+    row.saleId,
+    row.saleDate,
+    row.clientId,
+    row.totalAmount,
+    row.itemCount,
+    row.itemsTotal,
+    row.taxTotal,
+    row.paymentCount,
+    row.paymentsTotal,
+    row.difference,
+    row.status,
+  ]));
+}
+
+export const exportSalesReconciliationTool: CustomTool = {
+  definition: {
+    name: "export_sales_reconciliation",
+    description:
+      "Reconciles cached sales line items against each sale's total_amount and writes the result to the " +
+      "data directory, with a payment-method breakdown. Works from the local sale_items and sale_payments " +
+      "tables (filled by export_sales_history); set refresh to re-download the range first.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        start_date: { type: "string", description: "Start date (YYYY-MM-DD)" },
+        end_date: { type: "string", description: "End date (YYYY-MM-DD), inclusive" },
+        format: {
+          type: "string",
+          enum: ["json", "csv"],
+          description: "Export file format (default: json)",
+        },
+        mismatches_only: {
+          type: "boolean",
+          description: "Only write sales that do not reconcile",
+        },
+        refresh: {
+          type: "boolean",
+          description: "Re-download sales, items and payments for the range before reconciling",
+        },
+        include_transactions: {
+          type: "boolean",
+          description: "Also sync card/ACH transactions for the range into sale_transactions",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["start_date", "end_date"],
+    },
+  },
+
+  async handle(args, { config, db, syncService }) {
+    const params = ReconcileSalesParamsSchema.parse(args);
+    const range = { startDate: params.start_date, endDate: params.end_date };
+
+    const syncs = [];
+    if (params.refresh) {
+      syncs.push(await syncService.syncSales({ ...range, force: params.force }));
+    }
+    if (params.include_transactions) {
+      syncs.push(await syncService.syncSaleTransactions({ ...range, force: params.force }));
+    }
+
+    const reconciliation = db.getSaleReconciliation(range);
+    const rows = params.mismatches_only
+      ? reconciliation.filter((row) => row.status !== "matched")
+      : reconciliation;
+
+    const filePath = join(
+      config.DATA_DIR,
+      `sales_reconciliation_${params.start_date}_${params.end_date}.${params.format}`
+    );
+    await Bun.write(filePath, params.format === "csv" ? reconciliationToCsv(rows) : JSON.stringify(rows, null, 2));
+
+    const count = (status: SaleReconciliation["status"]) =>
+      reconciliation.filter((row) => row.status === status).length;
+
+    return jsonResult({
+      sales: reconciliation.length,
+      matched: count("matched"),
+      mismatched: count("mismatch"),
+      noItems: count("no_items"),
+      noTotal: count("no_total"),
+      netDifference: Math.round(
+        reconciliation.reduce((sum, row) => sum + (row.difference ?? 0), 0) * 100
+      ) / 100,
+      paymentsByMethod: db.getSalePaymentBreakdown(range),
+      ...(syncs.length > 0 && { syncs }),
+      file: filePath,
+    });
+  },
+};
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { DATE_REGEX, jsonResult } from "./shared.js";
+
+export const ReportMembershipsParamsSchema = z.object({
+  client_ids: z.array(z.string()).optional(),
+  as_of: z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD format").optional(),
+  refresh: z.boolean().default(false),
+  force: z.boolean().default(false),
+});
+
+export const reportClientMembershipsTool: CustomTool = {
+  definition: {
+    name: "report_client_memberships",
+    description:
+      "Reports each client's active contracts and pricing options with the visits they have left, " +
+      "from the local client_contracts and client_services tables (filled by sync_memberships). " +
+      "Set refresh to re-download the listed clients first.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        client_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Clients to report on (default: every client with an active membership)",
+        },
+        as_of: {
+          type: "string",
+          description: "Date to evaluate activity on (YYYY-MM-DD, default today)",
+        },
+        refresh: {
+          type: "boolean",
+          description: "Re-sync memberships for client_ids (or every cached client) before reporting",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+    },
+  },
+
+  async handle(args, { db, syncService }) {
+    const params = ReportMembershipsParamsSchema.parse(args);
+    const asOf = params.as_of ?? new Date().toISOString().slice(0, 10);
+
+    const sync = params.refresh
+      ? await syncService.syncMemberships({
+        clientIds: params.client_ids ?? db.getClients().map((client) => client.id),
+        force: params.force,
+      })
+      : undefined;
+
+    const memberships = db.getClientMemberships({ clientIds: params.client_ids, asOf });
+
+    return jsonResult({
+      asOf,
+      clients: memberships.length,
+      activeContracts: memberships.reduce((sum, client) => sum + client.activeContracts.length, 0),
+      remainingVisits: memberships.reduce((sum, client) => sum + client.remainingVisits, 0),
+      ...(sync && { sync }),
+      memberships: memberships.map((client) => ({
+        clientId: client.clientId,
+        firstName: client.firstName,
+        lastName: client.lastName,
+        remainingVisits: client.remainingVisits,
+        contracts: client.activeContracts.map((contract) => ({
+          id: contract.id,
+          name: contract.name,
+          startDate: contract.startDate,
+          endDate: contract.endDate,
+          autopayStatus: contract.autopayStatus,
+        })),
+        services: client.activeServices.map((service) => ({
+          id: service.id,
+          name: service.name,
+          remaining: service.remaining,
+          count: service.count,
+          expirationDate: service.expirationDate,
+        })),
+      })),
+    });
+  },
+};
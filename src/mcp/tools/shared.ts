@@ -0,0 +1,75 @@
+import { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "../../config.js";
+import type { DatabaseClient } from "../../db/client.js";
+import { formatIssues } from "../../metadata/validation.js";
+import { MindbodyError } from "../../services/errors.js";
+import type { MindbodyApiClient } from "../../services/mindbody.js";
+import type { SyncService } from "../../services/sync.js";
+import type { ToolDefinition } from "../toolGenerator.js";
+
+/**
+ * Services available to hand-written tools
+ */
+export interface ToolContext {
+  config: Config;
+  db: DatabaseClient;
+  apiClient: MindbodyApiClient;
+  syncService: SyncService;
+}
+
+/**
+ * A hand-written tool that orchestrates several API calls and local storage,
+ * as opposed to the one-endpoint tools generated from the OpenAPI spec
+ */
+export interface CustomTool {
+  definition: ToolDefinition;
+  handle(args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult>;
+}
+
+export function jsonResult(payload: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+  };
+}
+
+/**
+ * Failed tool call as a structured isError result
+ *
+ * The payload's `error` field is stable for branching: a MindbodyError
+ * code (auth_failed, validation_failed, not_found, rate_limited,
+ * quota_exhausted, api_error), "invalid_arguments" for rejected arguments,
+ * or "tool_failed" for anything else.
+ */
+export function toolErrorResult(tool: string, error: unknown): CallToolResult {
+  let payload: Record<string, unknown>;
+  if (error instanceof MindbodyError) {
+    payload = { error: error.code, tool, message: error.message, retryable: error.retryable, ...error.details() };
+  } else if (error instanceof z.ZodError) {
+    payload = { error: "invalid_arguments", tool, issues: formatIssues(error) };
+  } else {
+    payload = { error: "tool_failed", tool, message: error instanceof Error ? error.message : String(error) };
+  }
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+    isError: true,
+  };
+}
+
+export const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Render rows as CSV with a header line, quoting fields that need it
+ */
+export function toCsv(columns: readonly string[], rows: unknown[][]): string {
+  const escape = (value: unknown): string => {
+    if (value === undefined || value === null) {
+      return "";
+    }
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [columns.join(","), ...rows.map((row) => row.map(escape).join(","))].join("\n") + "\n";
+}
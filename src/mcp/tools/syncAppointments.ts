@@ -0,0 +1,56 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { DATE_REGEX, jsonResult } from "./shared.js";
+
+export const SyncAppointmentsParamsSchema = z.object({
+  start_date: z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD format"),
+  end_date: z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD format").optional(),
+  staff_ids: z.array(z.string().min(1)).optional(),
+  location_ids: z.array(z.string().min(1)).optional(),
+  force: z.boolean().default(false),
+});
+
+export const syncAppointmentsTool: CustomTool = {
+  definition: {
+    name: "sync_appointments",
+    description:
+      "Downloads staff appointments for a date range into the local appointments table. " +
+      "Handles pagination automatically and resumes from the same page if the daily API quota runs low.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        start_date: { type: "string", description: "Start date (YYYY-MM-DD)" },
+        end_date: { type: "string", description: "End date (YYYY-MM-DD), inclusive" },
+        staff_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only sync appointments for these staff members",
+        },
+        location_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only sync appointments at these locations",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["start_date"],
+    },
+  },
+
+  async handle(args, { syncService }) {
+    const params = SyncAppointmentsParamsSchema.parse(args);
+
+    const result = await syncService.syncAppointments({
+      startDate: params.start_date,
+      endDate: params.end_date,
+      staffIds: params.staff_ids,
+      locationIds: params.location_ids,
+      force: params.force,
+    });
+
+    return jsonResult(result);
+  },
+};
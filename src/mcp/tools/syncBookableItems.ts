@@ -0,0 +1,49 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const SyncBookableItemsParamsSchema = z.object({
+  session_type_ids: z.array(z.string().min(1)).optional(),
+  location_ids: z.array(z.string().min(1)).optional(),
+  force: z.boolean().default(false),
+});
+
+export const syncBookableItemsTool: CustomTool = {
+  definition: {
+    name: "sync_bookable_items",
+    description:
+      "Downloads bookable appointment items (session types, pricing, staff) into the local " +
+      "bookable_items table. Handles pagination automatically.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        session_type_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only sync items for these session types",
+        },
+        location_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only sync items offered at these locations",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+    },
+  },
+
+  async handle(args, { syncService }) {
+    const params = SyncBookableItemsParamsSchema.parse(args);
+
+    const result = await syncService.syncBookableItems({
+      sessionTypeIds: params.session_type_ids,
+      locationIds: params.location_ids,
+      force: params.force,
+    });
+
+    return jsonResult(result);
+  },
+};
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { DATE_REGEX, jsonResult } from "./shared.js";
+
+export const SyncClassVisitsParamsSchema = z.object({
+  class_ids: z.array(z.string().min(1)).min(1).optional(),
+  start_date: z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD format").optional(),
+  end_date: z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD format").optional(),
+  force: z.boolean().default(false),
+}).refine((params) => params.class_ids !== undefined || params.start_date !== undefined, {
+  message: "Provide class_ids or start_date",
+});
+
+export const syncClassVisitsTool: CustomTool = {
+  definition: {
+    name: "sync_class_visits",
+    description:
+      "Downloads client visits (bookings, sign-ins, no-shows) into the local class_visits table. " +
+      "Takes explicit class IDs, or a date range of classes already cached by sync_classes " +
+      "(cancelled and empty classes are skipped). Costs one API call per class.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        class_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Classes to fetch visits for",
+        },
+        start_date: {
+          type: "string",
+          description: "Use cached classes starting on or after this date (YYYY-MM-DD)",
+        },
+        end_date: {
+          type: "string",
+          description: "Use cached classes starting on or before this date (YYYY-MM-DD)",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+    },
+  },
+
+  async handle(args, { db, syncService }) {
+    const params = SyncClassVisitsParamsSchema.parse(args);
+
+    const classIds = params.class_ids ?? db
+      .getClasses({ startDate: params.start_date, endDate: params.end_date, includeCanceled: false })
+      .filter((record) => record.totalBooked !== 0)
+      .map((record) => record.id);
+
+    const result = await syncService.syncClassVisits({ classIds, force: params.force });
+
+    return jsonResult(result);
+  },
+};
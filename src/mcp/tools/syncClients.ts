@@ -0,0 +1,60 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { DATE_REGEX, jsonResult } from "./shared.js";
+
+export const SyncClientsParamsSchema = z.object({
+  status: z.enum(["Active", "Inactive", "All"]).default("Active"),
+  since_date: z.string().datetime({ offset: true }).or(
+    z.string().regex(DATE_REGEX, "Date must be in YYYY-MM-DD or ISO 8601 format")
+  ).optional(),
+  mode: z.enum(["incremental", "full"]).default("incremental"),
+  force: z.boolean().default(false),
+});
+
+export const syncClientsTool: CustomTool = {
+  definition: {
+    name: "sync_clients",
+    description:
+      "Downloads and caches client profiles from Mindbody. Handles pagination automatically. " +
+      "Use this before querying clients. By default only clients modified since the last " +
+      "completed sync are fetched. Stops early when the daily API quota is nearly used up " +
+      "and resumes from the same page on the next run.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["Active", "Inactive", "All"],
+          description: "Which clients to sync (default: Active)",
+        },
+        since_date: {
+          type: "string",
+          description: "Only sync clients modified on or after this date (YYYY-MM-DD or ISO 8601). " +
+            "Overrides the stored watermark.",
+        },
+        mode: {
+          type: "string",
+          enum: ["incremental", "full"],
+          description: "incremental (default) fetches changes since the last completed sync; full re-pulls every client",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+    },
+  },
+
+  async handle(args, { syncService }) {
+    const params = SyncClientsParamsSchema.parse(args);
+
+    const result = await syncService.syncClients({
+      status: params.status === "All" ? undefined : params.status,
+      sinceDate: params.since_date,
+      incremental: params.mode === "incremental",
+      force: params.force,
+    });
+
+    return jsonResult(result);
+  },
+};
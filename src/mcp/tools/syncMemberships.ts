@@ -0,0 +1,65 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const SyncMembershipsParamsSchema = z.object({
+  client_ids: z.array(z.string()).optional(),
+  include_contracts: z.boolean().default(true),
+  active_only: z.boolean().default(false),
+  location_id: z.string().optional(),
+  force: z.boolean().default(false),
+});
+
+export const syncMembershipsTool: CustomTool = {
+  definition: {
+    name: "sync_memberships",
+    description:
+      "Downloads client pricing options (/client/clientservices, batched) and contracts " +
+      "(/client/clientcontracts, one call per client) into the local client_services and " +
+      "client_contracts tables. Defaults to every cached client. Set location_id to also refresh " +
+      "the contract and pricing option catalog.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        client_ids: {
+          type: "array",
+          items: { type: "string" },
+          description: "Clients to sync (default: all clients in the local cache)",
+        },
+        include_contracts: {
+          type: "boolean",
+          description: "Fetch each client's contracts (default true)",
+        },
+        active_only: {
+          type: "boolean",
+          description: "Only download pricing options that are currently active",
+        },
+        location_id: {
+          type: "string",
+          description: "Also sync the /sale/services catalog and this location's /sale/contracts",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+    },
+  },
+
+  async handle(args, { db, syncService }) {
+    const params = SyncMembershipsParamsSchema.parse(args);
+    const clientIds = params.client_ids ?? db.getClients().map((client) => client.id);
+
+    const result = await syncService.syncMemberships({
+      clientIds,
+      includeContracts: params.include_contracts,
+      activeOnly: params.active_only,
+      force: params.force,
+    });
+    const catalog = params.location_id
+      ? await syncService.syncMembershipCatalog({ locationId: params.location_id, force: params.force })
+      : undefined;
+
+    return jsonResult({ ...result, ...(catalog && { catalog }) });
+  },
+};
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+import { SITE_REFERENCE_KINDS } from "../../types/site.js";
+import { SITE_REFERENCE_TTL_HOURS } from "../../services/sync.js";
+
+export const SyncSiteReferenceParamsSchema = z.object({
+  kinds: z.array(z.enum(SITE_REFERENCE_KINDS)).min(1).optional(),
+  max_age_hours: z.number().min(0).default(SITE_REFERENCE_TTL_HOURS),
+  force: z.boolean().default(false),
+});
+
+export const syncSiteReferenceTool: CustomTool = {
+  definition: {
+    name: "sync_site_reference",
+    description:
+      "Refreshes the local lookup tables for sites, locations, programs, session types and resources, " +
+      "so location, session type and program IDs on cached records can be resolved to names. " +
+      `Lists refreshed within max_age_hours (default ${SITE_REFERENCE_TTL_HOURS}) are skipped; ` +
+      "pass 0 to refresh everything.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        kinds: {
+          type: "array",
+          items: { type: "string", enum: [...SITE_REFERENCE_KINDS] },
+          description: "Reference lists to refresh (default: all)",
+        },
+        max_age_hours: {
+          type: "number",
+          description: "Refresh lists older than this many hours",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+    },
+  },
+
+  async handle(args, { syncService }) {
+    const params = SyncSiteReferenceParamsSchema.parse(args);
+
+    const result = await syncService.syncSiteReference({
+      kinds: params.kinds,
+      maxAgeHours: params.max_age_hours,
+      force: params.force,
+    });
+
+    return jsonResult(result);
+  },
+};
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const SyncStaffParamsSchema = z.object({
+  include_session_types: z.boolean().default(true),
+  include_permissions: z.boolean().default(false),
+  force: z.boolean().default(false),
+});
+
+export const syncStaffTool: CustomTool = {
+  definition: {
+    name: "sync_staff",
+    description:
+      "Downloads the staff directory into the local staff table so cached appointments and classes " +
+      "resolve to staff profiles. Optionally fetches the session types each appointment instructor " +
+      "can perform (one call per instructor) and each staff member's permission group (one call each).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        include_session_types: {
+          type: "boolean",
+          description: "Fetch session types for appointment instructors (default true)",
+        },
+        include_permissions: {
+          type: "boolean",
+          description: "Fetch each staff member's permission group (default false)",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+    },
+  },
+
+  async handle(args, { syncService }) {
+    const params = SyncStaffParamsSchema.parse(args);
+
+    const result = await syncService.syncStaff({
+      includeSessionTypes: params.include_session_types,
+      includePermissions: params.include_permissions,
+      force: params.force,
+    });
+
+    return jsonResult(result);
+  },
+};
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { AuditJournal } from "../../services/auditJournal.js";
+import { toClientRecord } from "../../services/sync.js";
+import type { MindbodyClient } from "../../services/mindbody.js";
+import { transformAppointment } from "../../types/appointment.js";
+import type { MindbodyAppointment } from "../../types/appointment.js";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const UndoChangeParamsSchema = z.object({
+  journal_id: z.number().int().positive(),
+  dry_run: z.boolean().default(true),
+  force: z.boolean().default(false),
+});
+
+export const undoChangeTool: CustomTool = {
+  definition: {
+    name: "undo_change",
+    description:
+      "Reverses a write recorded in the audit journal (see the mindbody://audit/journal resource). " +
+      "Client and appointment updates are undone by writing back the values snapshotted before the " +
+      "change; a booking is undone by cancelling it. Runs as a dry run by default: the inverse request " +
+      "is validated in Mindbody test mode. Call again with dry_run=false to apply it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        journal_id: { type: "number", description: "ID of the audit journal entry to reverse" },
+        dry_run: {
+          type: "boolean",
+          description: "Validate the inverse request in Mindbody test mode without writing (default: true)",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["journal_id"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = UndoChangeParamsSchema.parse(args);
+    const plan = new AuditJournal(db).planUndo(params.journal_id);
+    const summary = {
+      journalId: params.journal_id,
+      endpoint: plan.endpoint,
+      entityType: plan.entry.entityType,
+      entityId: plan.entry.entityId,
+      inverse: plan.body,
+    };
+
+    if (params.dry_run) {
+      const response = await apiClient.request<unknown>({
+        method: "POST",
+        endpoint: plan.endpoint,
+        body: { ...plan.body, Test: true },
+        force: params.force,
+        undoOf: params.journal_id,
+      });
+      return jsonResult({
+        dryRun: true,
+        ...summary,
+        result: response,
+        message: "Mindbody accepted the inverse request in test mode; call again with dry_run=false to apply it",
+      });
+    }
+
+    try {
+      const response = await apiClient.request<{ Client?: MindbodyClient; Appointment?: MindbodyAppointment }>({
+        method: "POST",
+        endpoint: plan.endpoint,
+        body: plan.body,
+        force: params.force,
+        undoOf: params.journal_id,
+      });
+
+      if (response?.Client?.Id) {
+        db.saveClient(toClientRecord(response.Client));
+      }
+      if (response?.Appointment?.Id) {
+        db.saveAppointment(transformAppointment(response.Appointment));
+      }
+
+      db.addSyncLog({
+        operation: "undo_change",
+        status: "success",
+        message: `Reversed journal entry ${params.journal_id} (${plan.entry.endpoint})`,
+        details: summary,
+      });
+
+      return jsonResult({ dryRun: false, ...summary, result: response });
+    } catch (error) {
+      db.addSyncLog({
+        operation: "undo_change",
+        status: "error",
+        message: error instanceof Error ? error.message : String(error),
+        details: summary,
+      });
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { toClientRecord } from "../../services/sync.js";
+import type { CustomTool } from "./shared.js";
+import { jsonResult } from "./shared.js";
+
+export const WriteClientProfileParamsSchema = z.object({
+  client_id: z.string().min(1, "Client ID is required"),
+  data: z.record(z.unknown()).refine(
+    (data) => Object.keys(data).length > 0,
+    "At least one field to update is required"
+  ),
+  dry_run: z.boolean().default(true),
+  force: z.boolean().default(false),
+});
+
+export interface FieldChange {
+  field: string;
+  current: unknown;
+  proposed: unknown;
+}
+
+/**
+ * Compare proposed fields against the locally cached client record
+ */
+export function diffClientProfile(
+  current: Record<string, unknown> | null,
+  proposed: Record<string, unknown>
+): FieldChange[] {
+  return Object.entries(proposed)
+    .filter(([field, value]) => JSON.stringify(current?.[field]) !== JSON.stringify(value))
+    .map(([field, value]) => ({
+      field,
+      current: current?.[field] ?? null,
+      proposed: value,
+    }));
+}
+
+export const writeClientProfileTool: CustomTool = {
+  definition: {
+    name: "write_client_profile",
+    description:
+      "Updates a client's profile. Requires confirmation: runs as a dry run by default and returns " +
+      "a diff against the locally cached profile. Call again with dry_run=false to apply the update.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        client_id: { type: "string", description: "Mindbody client ID" },
+        data: {
+          type: "object",
+          description: "Fields to update (Mindbody UpdateClient field names, e.g. FirstName, Email)",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Preview the change without writing to Mindbody (default: true)",
+        },
+        force: {
+          type: "boolean",
+          description: "Bypass the daily API limit guard",
+        },
+      },
+      required: ["client_id", "data"],
+    },
+  },
+
+  async handle(args, { apiClient, db }) {
+    const params = WriteClientProfileParamsSchema.parse(args);
+
+    const cached = db.getClient(params.client_id);
+    const changes = diffClientProfile(
+      (cached?.rawData as Record<string, unknown> | undefined) ?? null,
+      params.data
+    );
+
+    if (params.dry_run) {
+      return jsonResult({
+        dryRun: true,
+        clientId: params.client_id,
+        cachedLocally: cached !== null,
+        changes,
+        message: changes.length > 0
+          ? "Review the changes above, then call again with dry_run=false to apply them"
+          : "No changes detected against the cached profile",
+      });
+    }
+
+    try {
+      const response = await apiClient.updateClient({
+        clientId: params.client_id,
+        data: params.data,
+        force: params.force,
+      });
+
+      if (response?.Client?.Id) {
+        db.saveClient(toClientRecord(response.Client));
+      }
+
+      db.addSyncLog({
+        operation: "write_client_profile",
+        status: "success",
+        message: `Updated client ${params.client_id} (${changes.length} fields changed)`,
+        details: { clientId: params.client_id, changes },
+      });
+
+      return jsonResult({
+        dryRun: false,
+        clientId: params.client_id,
+        changes,
+        client: response?.Client ?? null,
+      });
+    } catch (error) {
+      db.addSyncLog({
+        operation: "write_client_profile",
+        status: "error",
+        message: error instanceof Error ? error.message : String(error),
+        details: { clientId: params.client_id, changes },
+      });
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,168 @@
+import { join } from "path";
+import type { JsonSchema } from "./types.js";
+
+/**
+ * Minimal Swagger 2.0 typings for the bundled Mindbody Public API v6 spec
+ */
+export interface OpenApiSchema {
+  $ref?: string;
+  title?: string;
+  type?: string;
+  format?: string;
+  description?: string;
+  enum?: Array<string | number>;
+  default?: unknown;
+  required?: string[];
+  properties?: Record<string, OpenApiSchema>;
+  items?: OpenApiSchema;
+  additionalProperties?: boolean | OpenApiSchema;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: "header" | "query" | "path" | "body" | "formData";
+  description?: string;
+  required?: boolean;
+  type?: string;
+  format?: string;
+  enum?: Array<string | number>;
+  default?: unknown;
+  items?: OpenApiSchema;
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiOperation {
+  tags?: string[];
+  summary?: string;
+  description?: string;
+  operationId: string;
+  parameters?: OpenApiParameter[];
+  responses?: Record<string, { description?: string; schema?: OpenApiSchema }>;
+}
+
+export interface OpenApiSpec {
+  swagger: string;
+  info: { version: string; title: string };
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  definitions: Record<string, OpenApiSchema>;
+}
+
+export const DEFAULT_SPEC_PATH = join(import.meta.dir, "../../api-specs/mindbody-public-api-v6.json");
+
+/**
+ * Prefix shared by every path in the spec; MINDBODY_API_BASE already includes it
+ */
+export const SPEC_PATH_PREFIX = "/public/v{version}";
+
+/**
+ * Nesting depth after which referenced definitions are no longer expanded
+ */
+const MAX_SCHEMA_DEPTH = 6;
+
+export async function loadOpenApiSpec(path = DEFAULT_SPEC_PATH): Promise<OpenApiSpec> {
+  const spec = (await Bun.file(path).json()) as OpenApiSpec;
+
+  if (!spec.paths || !spec.definitions) {
+    throw new Error(`Invalid OpenAPI spec at ${path}: missing paths or definitions`);
+  }
+
+  return spec;
+}
+
+/**
+ * Look up a "#/definitions/..." reference
+ */
+export function resolveRef(spec: OpenApiSpec, ref: string): OpenApiSchema {
+  const name = ref.replace(/^#\/definitions\//, "");
+  const definition = spec.definitions[name];
+
+  if (!definition) {
+    throw new Error(`Unresolved schema reference: ${ref}`);
+  }
+
+  return definition;
+}
+
+const JSON_SCHEMA_TYPES = new Set(["object", "array", "string", "integer", "number", "boolean"]);
+
+/**
+ * Convert a Swagger schema into a self-contained JSON Schema
+ *
+ * References are inlined so MCP clients don't need to resolve $defs.
+ * Recursive definitions and anything nested deeper than MAX_SCHEMA_DEPTH
+ * collapse to a plain object.
+ */
+export function toJsonSchema(
+  spec: OpenApiSpec,
+  schema: OpenApiSchema,
+  depth = 0,
+  seen: string[] = []
+): JsonSchema {
+  if (schema.$ref) {
+    const definition = resolveRef(spec, schema.$ref);
+
+    if (seen.includes(schema.$ref) || depth >= MAX_SCHEMA_DEPTH) {
+      return withDescription({ type: "object" }, schema.description ?? definition.description);
+    }
+
+    const resolved = toJsonSchema(spec, definition, depth, [...seen, schema.$ref]);
+    return withDescription(resolved, schema.description ?? definition.description);
+  }
+
+  const result: JsonSchema = {};
+
+  if (schema.type && JSON_SCHEMA_TYPES.has(schema.type)) {
+    result.type = schema.type as JsonSchema["type"];
+  }
+  if (schema.description) {
+    result.description = schema.description;
+  }
+  if (schema.format) {
+    result.format = schema.format;
+  }
+  if (schema.enum) {
+    result.enum = schema.enum;
+  }
+
+  if (schema.properties) {
+    result.type = "object";
+    result.properties = {};
+    for (const [key, value] of Object.entries(schema.properties)) {
+      result.properties[key] = toJsonSchema(spec, value, depth + 1, seen);
+    }
+    if (schema.required && schema.required.length > 0) {
+      result.required = schema.required;
+    }
+  }
+
+  if (schema.items) {
+    result.items = toJsonSchema(spec, schema.items, depth + 1, seen);
+  }
+
+  if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+    result.additionalProperties = toJsonSchema(spec, schema.additionalProperties, depth + 1, seen);
+  }
+
+  return result;
+}
+
+/**
+ * Convert a non-body parameter (query/path) into JSON Schema
+ */
+export function parameterToJsonSchema(spec: OpenApiSpec, param: OpenApiParameter): JsonSchema {
+  if (param.schema) {
+    return toJsonSchema(spec, param.schema);
+  }
+
+  return toJsonSchema(spec, {
+    type: param.type,
+    format: param.format,
+    enum: param.enum,
+    description: param.description,
+    items: param.items,
+  });
+}
+
+function withDescription(schema: JsonSchema, description?: string): JsonSchema {
+  return description ? { ...schema, description } : schema;
+}
@@ -0,0 +1,258 @@
+import type { MindbodyRequestOptions } from "../services/mindbody.js";
+import type {
+  EndpointMetadata,
+  EndpointParameter,
+  HttpMethod,
+} from "./types.js";
+import type { OpenApiOperation, OpenApiSpec } from "./openapi.js";
+import {
+  SPEC_PATH_PREFIX,
+  parameterToJsonSchema,
+  resolveRef,
+  toJsonSchema,
+} from "./openapi.js";
+
+/**
+ * Categories that are handled internally and never exposed as tools
+ * (token issuing is owned by AuthService)
+ */
+const EXCLUDED_CATEGORIES = new Set(["usertoken"]);
+
+const HTTP_METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Endpoint Registry
+ *
+ * Central catalogue of Mindbody operations. Built once at startup from the
+ * bundled OpenAPI spec; the MCP layer reads it to list and dispatch tools.
+ */
+export class EndpointRegistry {
+  private endpoints = new Map<string, EndpointMetadata>();
+
+  /**
+   * Build a registry with one entry per operation in the spec
+   */
+  static fromOpenApiSpec(spec: OpenApiSpec): EndpointRegistry {
+    const registry = new EndpointRegistry();
+    const entries: Array<Omit<EndpointMetadata, "name"> & { baseName: string }> = [];
+
+    for (const [specPath, pathItem] of Object.entries(spec.paths)) {
+      const path = specPath.startsWith(SPEC_PATH_PREFIX)
+        ? specPath.slice(SPEC_PATH_PREFIX.length)
+        : specPath;
+      const category = (path.split("/")[1] ?? "").toLowerCase();
+
+      if (EXCLUDED_CATEGORIES.has(category)) {
+        continue;
+      }
+
+      for (const [methodKey, operation] of Object.entries(pathItem)) {
+        const method = methodKey.toUpperCase() as HttpMethod;
+        if (!HTTP_METHODS.includes(method)) {
+          continue;
+        }
+
+        entries.push({
+          baseName: toSnakeCase(operation.operationId),
+          ...buildEndpoint(spec, operation, method, path, category),
+        });
+      }
+    }
+
+    // Some operationIds are reused across categories (e.g. RemoveFromWaitlist);
+    // prefix those with their category so tool names stay unique
+    const nameCounts = new Map<string, number>();
+    for (const entry of entries) {
+      nameCounts.set(entry.baseName, (nameCounts.get(entry.baseName) ?? 0) + 1);
+    }
+
+    for (const { baseName, ...endpoint } of entries) {
+      const name = (nameCounts.get(baseName) ?? 0) > 1
+        ? `${endpoint.category}_${baseName}`
+        : baseName;
+      registry.register({ name, ...endpoint });
+    }
+
+    return registry;
+  }
+
+  register(endpoint: EndpointMetadata): void {
+    if (this.endpoints.has(endpoint.name)) {
+      throw new Error(`Endpoint already registered: ${endpoint.name}`);
+    }
+    this.endpoints.set(endpoint.name, endpoint);
+  }
+
+  get(name: string): EndpointMetadata | undefined {
+    return this.endpoints.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.endpoints.has(name);
+  }
+
+  list(category?: string): EndpointMetadata[] {
+    const all = Array.from(this.endpoints.values());
+    return category ? all.filter((endpoint) => endpoint.category === category) : all;
+  }
+
+  categories(): string[] {
+    return Array.from(new Set(this.list().map((endpoint) => endpoint.category))).sort();
+  }
+
+  get size(): number {
+    return this.endpoints.size;
+  }
+}
+
+function buildEndpoint(
+  spec: OpenApiSpec,
+  operation: OpenApiOperation,
+  method: HttpMethod,
+  path: string,
+  category: string
+): Omit<EndpointMetadata, "name"> {
+  const parameters: EndpointParameter[] = [];
+  let bodyMode: EndpointMetadata["bodyMode"] = "none";
+
+  for (const param of operation.parameters ?? []) {
+    // Headers (auth, site, version) are supplied by MindbodyApiClient
+    if (param.in === "header" || (param.in === "path" && param.name === "version")) {
+      continue;
+    }
+
+    if (param.in === "query" || param.in === "path") {
+      parameters.push({
+        name: toArgumentName(param.name),
+        apiName: param.name,
+        location: param.in,
+        required: param.required ?? false,
+        description: param.description,
+        schema: parameterToJsonSchema(spec, param),
+      });
+      continue;
+    }
+
+    if (param.in === "body" && param.schema) {
+      const bodySchema = param.schema.$ref
+        ? resolveRef(spec, param.schema.$ref)
+        : param.schema;
+
+      if (bodySchema.properties) {
+        bodyMode = "properties";
+        const required = new Set(bodySchema.required ?? []);
+        for (const [key, value] of Object.entries(bodySchema.properties)) {
+          const schema = toJsonSchema(spec, value);
+          parameters.push({
+            name: key,
+            apiName: key,
+            location: "body",
+            required: required.has(key),
+            description: schema.description,
+            schema,
+          });
+        }
+      } else {
+        bodyMode = "raw";
+        const schema = toJsonSchema(spec, param.schema);
+        parameters.push({
+          name: param.name,
+          apiName: param.name,
+          location: "body",
+          required: param.required ?? false,
+          description: param.description ?? schema.description,
+          schema,
+        });
+      }
+    }
+  }
+
+  const responseSchema = operation.responses?.["200"]?.schema;
+  const queryNames = parameters
+    .filter((param) => param.location === "query")
+    .map((param) => param.name.toLowerCase());
+
+  return {
+    operationId: operation.operationId,
+    category,
+    method,
+    path,
+    description: [operation.summary, operation.description].filter(Boolean).join("\n\n"),
+    parameters,
+    bodyMode,
+    responseSchema: responseSchema ? toJsonSchema(spec, responseSchema) : undefined,
+    mutating: method !== "GET",
+    paginated: queryNames.includes("limit") && queryNames.includes("offset"),
+  };
+}
+
+/**
+ * Map tool arguments onto an HTTP request for MindbodyApiClient.request
+ *
+ * Unknown arguments are ignored; missing path tokens are an error.
+ */
+export function toRequestOptions(
+  endpoint: EndpointMetadata,
+  args: Record<string, unknown>
+): MindbodyRequestOptions {
+  let path = endpoint.path;
+  const params: NonNullable<MindbodyRequestOptions["params"]> = {};
+  const bodyFields: Record<string, unknown> = {};
+  let body: unknown;
+
+  for (const param of endpoint.parameters) {
+    const value = args[param.name];
+
+    if (param.location === "path") {
+      if (value === undefined || value === null || value === "") {
+        throw new Error(`Missing path parameter "${param.name}" for ${endpoint.name}`);
+      }
+      path = path.replace(`{${param.apiName}}`, encodeURIComponent(String(value)));
+      continue;
+    }
+
+    if (value === undefined) {
+      continue;
+    }
+
+    if (param.location === "query") {
+      params[param.apiName] = Array.isArray(value)
+        ? value.map((item) => item as string | number | boolean)
+        : (value as string | number | boolean);
+    } else if (endpoint.bodyMode === "raw") {
+      body = value;
+    } else {
+      bodyFields[param.apiName] = value;
+    }
+  }
+
+  if (endpoint.bodyMode === "properties") {
+    body = bodyFields;
+  }
+
+  return {
+    method: endpoint.method,
+    endpoint: path,
+    params,
+    body,
+    force: args.force === true,
+  };
+}
+
+/**
+ * "request.clientIDs" -> "clientIDs", "getCoursesRequest.limit" -> "limit"
+ */
+function toArgumentName(apiName: string): string {
+  const parts = apiName.split(".");
+  return parts[parts.length - 1] ?? apiName;
+}
+
+/**
+ * "GetStaffImageURL" -> "get_staff_image_url"
+ */
+export function toSnakeCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .toLowerCase();
+}
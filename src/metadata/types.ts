@@ -0,0 +1,68 @@
+/**
+ * Endpoint metadata types
+ *
+ * Every Mindbody v6 operation is described by an EndpointMetadata record.
+ * The registry builds these from the bundled OpenAPI spec and the MCP layer
+ * turns them into tools without any per-endpoint code.
+ */
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * Subset of JSON Schema used for MCP tool input schemas and response shapes
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  description?: string;
+  format?: string;
+  enum?: Array<string | number>;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: boolean | JsonSchema;
+}
+
+/**
+ * Where a tool argument ends up in the outgoing HTTP request
+ */
+export type ParameterLocation = "query" | "path" | "body";
+
+export interface EndpointParameter {
+  /** Argument name exposed on the MCP tool */
+  name: string;
+  /** Name Mindbody expects on the wire (query key, path token or body property) */
+  apiName: string;
+  location: ParameterLocation;
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+/**
+ * How the request body is assembled from tool arguments
+ * - none: the operation takes no body
+ * - properties: each body property is its own tool argument
+ * - raw: a single argument holds the entire (non-object) body
+ */
+export type BodyMode = "none" | "properties" | "raw";
+
+export interface EndpointMetadata {
+  /** MCP tool name (snake_case operationId) */
+  name: string;
+  operationId: string;
+  /** First path segment, e.g. "client", "appointment", "sale" */
+  category: string;
+  method: HttpMethod;
+  /** Path relative to MINDBODY_API_BASE, may contain {tokens} */
+  path: string;
+  description: string;
+  parameters: EndpointParameter[];
+  bodyMode: BodyMode;
+  /** Shape of the 200 response, if the spec declares one */
+  responseSchema?: JsonSchema;
+  /** True for anything other than GET */
+  mutating: boolean;
+  /** True when the operation accepts limit/offset pagination */
+  paginated: boolean;
+}
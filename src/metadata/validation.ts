@@ -0,0 +1,144 @@
+import { z } from "zod";
+import type { EndpointMetadata, JsonSchema } from "./types.js";
+
+/**
+ * Runtime validation built from endpoint metadata
+ *
+ * Arguments are validated strictly (typos in argument names are rejected) but
+ * nested objects pass through so agents can send fields the spec doesn't list.
+ * Responses are validated strictly all the way down so that fields Mindbody
+ * adds show up as drift warnings rather than being silently ignored.
+ */
+
+export interface SchemaWarning {
+  /** Dotted path into the response, e.g. "Clients.0.Email" */
+  path: string;
+  code: string;
+  message: string;
+}
+
+/**
+ * Number of warnings reported per response before truncating
+ */
+const MAX_WARNINGS = 25;
+
+type SchemaMode = "input" | "response";
+
+export function jsonSchemaToZod(schema: JsonSchema, mode: SchemaMode): z.ZodTypeAny {
+  let result: z.ZodTypeAny;
+
+  switch (schema.type) {
+    case "string":
+      result = schema.enum && schema.enum.length > 0
+        ? z.enum(schema.enum.map(String) as [string, ...string[]])
+        : z.string();
+      break;
+    case "integer":
+      result = z.number().int();
+      break;
+    case "number":
+      result = z.number();
+      break;
+    case "boolean":
+      result = z.boolean();
+      break;
+    case "array":
+      result = z.array(schema.items ? jsonSchemaToZod(schema.items, mode) : z.unknown());
+      break;
+    case "object":
+      result = schema.properties
+        ? objectToZod(schema, mode)
+        : z.record(z.unknown());
+      break;
+    default:
+      result = z.unknown();
+  }
+
+  // Mindbody returns null for most unset fields, regardless of what the spec says
+  return mode === "response" ? result.nullable() : result;
+}
+
+function objectToZod(schema: JsonSchema, mode: SchemaMode): z.ZodTypeAny {
+  const required = new Set(mode === "input" ? schema.required ?? [] : []);
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [key, value] of Object.entries(schema.properties ?? {})) {
+    const field = jsonSchemaToZod(value, mode);
+    shape[key] = required.has(key) ? field : field.optional();
+  }
+
+  const object = z.object(shape);
+  return mode === "response" ? object.strict() : object.passthrough();
+}
+
+/**
+ * Build the Zod schema for a tool's arguments
+ */
+export function buildArgumentSchema(endpoint: EndpointMetadata): z.ZodTypeAny {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const param of endpoint.parameters) {
+    const field = jsonSchemaToZod(param.schema, "input");
+    shape[param.name] = param.required ? field : field.optional();
+  }
+
+  shape.force = z.boolean().optional();
+
+  return z.object(shape).strict();
+}
+
+/**
+ * Build the Zod schema for an endpoint's 200 response, if the spec declares one
+ */
+export function buildResponseSchema(endpoint: EndpointMetadata): z.ZodTypeAny | null {
+  return endpoint.responseSchema ? jsonSchemaToZod(endpoint.responseSchema, "response") : null;
+}
+
+/**
+ * Validate an API response and describe any mismatches
+ *
+ * Never throws; an empty array means the response matched the spec.
+ */
+export function validateResponse(schema: z.ZodTypeAny | null, response: unknown): SchemaWarning[] {
+  if (!schema || response === null || response === undefined) {
+    return [];
+  }
+
+  const result = schema.safeParse(response);
+  if (result.success) {
+    return [];
+  }
+
+  return formatIssues(result.error).slice(0, MAX_WARNINGS);
+}
+
+/**
+ * Flatten Zod issues into path/code/message records
+ *
+ * Unrecognized keys are split into one warning per key so agents can see
+ * exactly which fields are new.
+ */
+export function formatIssues(error: z.ZodError): SchemaWarning[] {
+  const warnings: SchemaWarning[] = [];
+
+  for (const issue of error.issues) {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      for (const key of issue.keys) {
+        warnings.push({
+          path: [...issue.path, key].join("."),
+          code: "unexpected_field",
+          message: "Field is not declared in the API spec",
+        });
+      }
+      continue;
+    }
+
+    warnings.push({
+      path: issue.path.join("."),
+      code: issue.code,
+      message: issue.message,
+    });
+  }
+
+  return warnings;
+}
@@ -1,44 +1,154 @@
 import type { DatabaseClient } from "../db/client.js";
 import { createHash } from "crypto";
 
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * How long responses stay fresh, by endpoint path prefix (the longest
+ * matching prefix wins). Reference data changes rarely; client and
+ * schedule data changes all day.
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  "/site/": 24 * HOUR_MS,
+  "/staff/": 6 * HOUR_MS,
+  "/class/classdescriptions": 6 * HOUR_MS,
+  "/sale/services": 6 * HOUR_MS,
+  "/sale/contracts": 6 * HOUR_MS,
+  "/class/classes": 10 * MINUTE_MS,
+  "/client/": 5 * MINUTE_MS,
+  "/appointment/": 2 * MINUTE_MS,
+};
+
+/**
+ * Cached reads a successful write can change besides its own family, by
+ * the write's first path segment. A write always drops its own family:
+ * /client/updateclient drops every cached /client/ page.
+ */
+export const WRITE_INVALIDATIONS: Record<string, string[]> = {
+  "/client/": ["/class/classvisits"],
+  "/class/": ["/client/clientvisits", "/client/clientschedule"],
+  "/appointment/": ["/client/clientvisits", "/client/clientschedule"],
+  "/enrollment/": ["/client/clientschedule"],
+  "/sale/": ["/client/"],
+};
+
+export interface ApiResponseCacheOptions {
+  /** TTL in ms by endpoint prefix; replaces DEFAULT_CACHE_TTLS */
+  ttls?: Record<string, number>;
+  /** TTL for endpoints no prefix matches */
+  defaultTtlMs?: number;
+  /** How long past its TTL an entry may still be served stale */
+  maxStaleMs?: number;
+  /** Eviction limits; least recently used entries go first */
+  maxEntries?: number;
+  maxBytes?: number;
+  /** Only cache GETs that ask for it (MindbodyRequestOptions.cache) */
+  optIn?: boolean;
+  now?: () => number;
+}
+
+/**
+ * A cached response with its freshness
+ */
+export interface CacheLookup<T> {
+  data: T;
+  ageMs: number;
+  ttlMs: number;
+  stale: boolean;
+}
+
+/**
+ * Key for a GET of endpoint with params, shared by the response cache and
+ * MindbodyApiClient's in-flight request map
+ */
+export function requestKey(endpoint: string, params: Record<string, unknown>): string {
+  const sortedParams = JSON.stringify(params, Object.keys(params).sort());
+  const hash = createHash("sha256").update(`${endpoint}:${sortedParams}`).digest("hex");
+  return hash;
+}
+
 /**
  * API Response Cache Service
  *
- * Provides persistent caching for Mindbody API responses in integration tests.
- * Reduces API load and speeds up test execution by caching responses by endpoint + params.
+ * Persistent cache for Mindbody API responses by endpoint + params. Entries
+ * are fresh for their endpoint's TTL; after that they can still be served
+ * stale for up to maxStaleMs and are then dropped. MindbodyApiClient serves
+ * stale entries while refreshing them in the background, and skips the
+ * refresh while the daily quota runs low. When the cache grows
+ * past maxEntries or maxBytes, the least recently used entries are evicted.
+ * Writes drop the entries they may have changed (see invalidate).
  */
 export class ApiResponseCache {
-  constructor(private db: DatabaseClient) {}
+  private ttls: Array<[string, number]>;
+  private defaultTtlMs: number;
+  private maxStaleMs: number;
+  private maxEntries: number;
+  private maxBytes: number;
+  private now: () => number;
+  /** Requests answered from the cache and sent to the API, since startup */
+  private hits = 0;
+  private misses = 0;
+  readonly optIn: boolean;
+
+  constructor(private db: DatabaseClient, options: ApiResponseCacheOptions = {}) {
+    // Longest prefix first, so the most specific policy wins
+    this.ttls = Object.entries(options.ttls ?? DEFAULT_CACHE_TTLS).sort(([a], [b]) => b.length - a.length);
+    this.defaultTtlMs = options.defaultTtlMs ?? 5 * MINUTE_MS;
+    this.maxStaleMs = options.maxStaleMs ?? HOUR_MS;
+    this.maxEntries = options.maxEntries ?? 5000;
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+    this.optIn = options.optIn ?? false;
+    this.now = options.now ?? Date.now;
+  }
 
   /**
    * Generate cache key from endpoint and parameters
    */
   private generateCacheKey(endpoint: string, params: Record<string, unknown>): string {
-    const sortedParams = JSON.stringify(params, Object.keys(params).sort());
-    const hash = createHash("sha256").update(`${endpoint}:${sortedParams}`).digest("hex");
-    return hash;
+    return requestKey(endpoint, params);
+  }
+
+  ttlFor(endpoint: string): number {
+    return this.ttls.find(([prefix]) => endpoint.startsWith(prefix))?.[1] ?? this.defaultTtlMs;
   }
 
   /**
-   * Get cached response if available
+   * Get cached response if it is still fresh
    */
   get<T>(endpoint: string, params: Record<string, unknown>): T | null {
+    const entry = this.lookup<T>(endpoint, params);
+    return entry && !entry.stale ? entry.data : null;
+  }
+
+  /**
+   * Cached response with its age, fresh or stale (within maxStaleMs).
+   * Entries past that are deleted and reported as missing.
+   */
+  lookup<T>(endpoint: string, params: Record<string, unknown>): CacheLookup<T> | null {
     const cacheKey = this.generateCacheKey(endpoint, params);
 
     const cached = this.db["db"].query(`
-      SELECT response, hit_count FROM api_response_cache WHERE cache_key = ?
-    `).get(cacheKey) as { response: string; hit_count: number } | null;
+      SELECT response, created_at FROM api_response_cache WHERE cache_key = ?
+    `).get(cacheKey) as { response: string; created_at: string } | null;
 
-    if (cached) {
-      // Increment hit count
-      this.db["db"].prepare(`
-        UPDATE api_response_cache SET hit_count = hit_count + 1 WHERE cache_key = ?
-      `).run(cacheKey);
+    if (!cached) {
+      return null;
+    }
 
-      return JSON.parse(cached.response) as T;
+    const ttlMs = this.ttlFor(endpoint);
+    const ageMs = Math.max(0, this.now() - parseTimestamp(cached.created_at));
+    if (ageMs > ttlMs + this.maxStaleMs) {
+      this.db["db"].prepare("DELETE FROM api_response_cache WHERE cache_key = ?").run(cacheKey);
+      return null;
     }
 
-    return null;
+    // Increment hit count
+    this.db["db"].prepare(`
+      UPDATE api_response_cache SET hit_count = hit_count + 1, last_hit_at = ? WHERE cache_key = ?
+    `).run(this.timestamp(), cacheKey);
+
+    return { data: JSON.parse(cached.response) as T, ageMs, ttlMs, stale: ageMs > ttlMs };
   }
 
   /**
@@ -50,13 +160,43 @@ export class ApiResponseCache {
     const responseJson = JSON.stringify(response);
 
     this.db["db"].prepare(`
-      INSERT INTO api_response_cache (cache_key, endpoint, params, response)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO api_response_cache (cache_key, endpoint, params, response, created_at)
+      VALUES (?, ?, ?, ?, ?)
       ON CONFLICT(cache_key) DO UPDATE SET
         response = excluded.response,
-        created_at = CURRENT_TIMESTAMP,
+        created_at = excluded.created_at,
         hit_count = 0
-    `).run(cacheKey, endpoint, paramsJson, responseJson);
+    `).run(cacheKey, endpoint, paramsJson, responseJson, this.timestamp());
+
+    this.evict();
+  }
+
+  /**
+   * Drop the entries a successful write to endpoint may have changed:
+   * its own family plus WRITE_INVALIDATIONS. Returns how many went.
+   */
+  invalidate(endpoint: string): number {
+    const family = endpoint.match(/^\/[^/]+\//)?.[0];
+    if (!family) {
+      return 0;
+    }
+
+    const remove = this.db["db"].prepare(
+      "DELETE FROM api_response_cache WHERE substr(endpoint, 1, length(?1)) = ?1"
+    );
+    let removed = 0;
+    for (const prefix of [family, ...(WRITE_INVALIDATIONS[family] ?? [])]) {
+      removed += remove.run(prefix).changes;
+    }
+    return removed;
+  }
+
+  recordHit(): void {
+    this.hits++;
+  }
+
+  recordMiss(): void {
+    this.misses++;
   }
 
   /**
@@ -67,12 +207,16 @@ export class ApiResponseCache {
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics. totalHits sums the entries still cached; hits,
+   * misses and hitRatio count requests since startup.
    */
   getStats(): {
     totalEntries: number;
     totalHits: number;
     cacheSize: number;
+    hits: number;
+    misses: number;
+    hitRatio: number | null;
   } {
     const stats = this.db["db"].query(`
       SELECT
@@ -86,6 +230,48 @@ export class ApiResponseCache {
       totalEntries: stats.entries,
       totalHits: stats.hits,
       cacheSize: stats.size,
+      hits: this.hits,
+      misses: this.misses,
+      hitRatio: this.hits + this.misses > 0 ? this.hits / (this.hits + this.misses) : null,
     };
   }
+
+  /**
+   * Drop least recently used entries until the cache fits its limits
+   */
+  private evict(): void {
+    const { totalEntries, cacheSize } = this.getStats();
+    let excessEntries = totalEntries - this.maxEntries;
+    let excessBytes = (cacheSize ?? 0) - this.maxBytes;
+    if (excessEntries <= 0 && excessBytes <= 0) {
+      return;
+    }
+
+    const candidates = this.db["db"].query(`
+      SELECT cache_key, LENGTH(response) as size FROM api_response_cache
+      ORDER BY COALESCE(last_hit_at, created_at) ASC, created_at ASC
+    `).all() as Array<{ cache_key: string; size: number }>;
+
+    const remove = this.db["db"].prepare("DELETE FROM api_response_cache WHERE cache_key = ?");
+    for (const candidate of candidates) {
+      if (excessEntries <= 0 && excessBytes <= 0) {
+        break;
+      }
+      remove.run(candidate.cache_key);
+      excessEntries--;
+      excessBytes -= candidate.size;
+    }
+  }
+
+  private timestamp(): string {
+    return new Date(this.now()).toISOString();
+  }
+}
+
+/**
+ * created_at is ISO from set(), or SQLite's "YYYY-MM-DD HH:MM:SS" (UTC) on
+ * rows written before timestamps came from here
+ */
+function parseTimestamp(value: string): number {
+  return Date.parse(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
 }
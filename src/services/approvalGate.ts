@@ -0,0 +1,171 @@
+import { randomUUID } from "crypto";
+import type { Config } from "../config.js";
+import type { DatabaseClient } from "../db/client.js";
+import type { GatedRequest, PendingAction, RiskAssessment, RiskLevel } from "../types/approval.js";
+
+const RISK_RANK: Record<RiskLevel, number> = { low: 1, medium: 2, high: 3 };
+
+export const DEFAULT_APPROVAL_THRESHOLD: RiskLevel = "high";
+export const DEFAULT_APPROVAL_MAX_RECORDS = 10;
+
+/** Staged actions left unapproved this long can no longer run */
+const APPROVAL_TTL_HOURS = 24;
+
+/**
+ * Endpoints that cancel, remove or merge data Mindbody has no undo for
+ */
+const DESTRUCTIVE_ENDPOINTS = new Set([
+  "/class/cancelsingleclass",
+  "/class/removeclientfromclass",
+  "/class/removeclientsfromclasses",
+  "/class/removefromwaitlist",
+  "/client/mergeclients",
+  "/client/suspendcontract",
+  "/client/terminatecontract",
+  "/sale/returnsale",
+  "/site/deactivatepromocode",
+]);
+
+const CANCEL_EXECUTE = new Set(["cancel", "latecancel"]);
+
+/**
+ * Human checkpoint for risky writes
+ *
+ * MindbodyApiClient.request asks the gate about every non-GET request.
+ * Writes rated at or above the configured threshold are staged in
+ * pending_actions instead of being sent, and go through only when replayed
+ * with the action's token (see the approve_action tool). Tokens are only
+ * written to the server log and shown by `bun run approvals`, never to the
+ * agent. The force flag
+ * has no effect here: it bypasses the quota guard, not a person.
+ */
+export class ApprovalGate {
+  private threshold: RiskLevel;
+  private maxRecords: number;
+
+  constructor(private db: DatabaseClient, config: Config) {
+    this.threshold = config.APPROVAL_RISK_THRESHOLD ?? DEFAULT_APPROVAL_THRESHOLD;
+    this.maxRecords = config.APPROVAL_MAX_RECORDS ?? DEFAULT_APPROVAL_MAX_RECORDS;
+  }
+
+  /**
+   * Rate a write
+   *
+   * Creations are low risk and single-record changes medium. Deletes,
+   * cancellations, destructive endpoints and anything touching more than
+   * APPROVAL_MAX_RECORDS records (the longest array in the params or body)
+   * are high.
+   */
+  assess(request: GatedRequest): RiskAssessment {
+    const action = request.endpoint.split("/").pop() ?? "";
+    const recordCount = countRecords(request);
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const reasons: string[] = [];
+
+    if (request.method === "DELETE") {
+      reasons.push("deletes data");
+    }
+    if (DESTRUCTIVE_ENDPOINTS.has(request.endpoint)) {
+      reasons.push(`${action} cannot be undone`);
+    }
+    if (typeof body.Execute === "string" && CANCEL_EXECUTE.has(body.Execute)) {
+      reasons.push(`runs ${body.Execute}`);
+    }
+    if (recordCount > this.maxRecords) {
+      reasons.push(`touches ${recordCount} records (limit ${this.maxRecords})`);
+    }
+
+    if (reasons.length > 0) {
+      return { level: "high", reasons, recordCount };
+    }
+    return action.startsWith("add")
+      ? { level: "low", reasons: ["creates a record"], recordCount }
+      : { level: "medium", reasons: ["changes an existing record"], recordCount };
+  }
+
+  /**
+   * Let a write through or stage it
+   *
+   * Returns the approved action when a token was supplied (to be resolved
+   * once the request finishes), or null when no approval is needed. Throws
+   * after staging a write that needs approval, and for a token that does
+   * not match the request. Test-mode requests change nothing and always
+   * pass.
+   */
+  check(request: GatedRequest, approvalToken?: string): PendingAction | null {
+    if (approvalToken !== undefined) {
+      return this.authorize(request, approvalToken);
+    }
+    if ((request.body as Record<string, unknown> | null | undefined)?.Test === true) {
+      return null;
+    }
+
+    const assessment = this.assess(request);
+    if (RISK_RANK[assessment.level] < RISK_RANK[this.threshold]) {
+      return null;
+    }
+
+    const action = this.db.addPendingAction({
+      token: randomUUID(),
+      request,
+      assessment,
+      ttlHours: APPROVAL_TTL_HOURS,
+    });
+    // The token goes to the operator only; the agent never sees it
+    console.error(`[ApprovalGate] Staged pending action ${action.id} (${request.method} ${request.endpoint}), token ${action.token}`);
+    throw new Error(
+      `${request.method} ${request.endpoint} needs human approval (${assessment.reasons.join("; ")}). ` +
+      `It was staged as pending action ${action.id}; a person must review it and provide the approval ` +
+      `token for approve_action`
+    );
+  }
+
+  resolve(actionId: number, error?: unknown): void {
+    this.db.resolvePendingAction(actionId, error === undefined
+      ? { status: "executed" }
+      : { status: "failed", error: error instanceof Error ? error.message : String(error) });
+  }
+
+  private authorize(request: GatedRequest, token: string): PendingAction {
+    const action = this.db.getPendingActionByToken(token);
+    if (!action) {
+      throw new Error("No pending action matches this approval token");
+    }
+    if (action.status === "executing") {
+      throw new Error(`Pending action ${action.id} is already being executed`);
+    }
+    if (action.status !== "pending") {
+      throw new Error(`Pending action ${action.id} was already ${action.status}`);
+    }
+    if (action.expiresAt <= new Date().toISOString().replace("T", " ").slice(0, 19)) {
+      throw new Error(`Pending action ${action.id} expired at ${action.expiresAt}; stage it again`);
+    }
+
+    const matches = action.method === request.method
+      && action.endpoint === request.endpoint
+      && JSON.stringify(action.params) === JSON.stringify(request.params ?? null)
+      && JSON.stringify(action.body ?? null) === JSON.stringify(request.body ?? null)
+      && action.undoOf === (request.undoOf ?? null)
+      && action.actingClientId === (request.actingClientId ?? null)
+      && action.idempotencyKey === (request.idempotencyKey ?? null);
+    if (!matches) {
+      throw new Error(`Approval token for pending action ${action.id} does not match this request`);
+    }
+
+    // Claim it before sending, so concurrent approvals cannot both run it
+    if (!this.db.claimPendingAction(action.id)) {
+      throw new Error(`Pending action ${action.id} is already being executed`);
+    }
+
+    return { ...action, status: "executing" };
+  }
+}
+
+function countRecords(request: GatedRequest): number {
+  const { params, body } = request;
+  const bodyValues = Array.isArray(body)
+    ? [body]
+    : typeof body === "object" && body !== null ? Object.values(body) : [];
+  const values = [...Object.values(params ?? {}), ...bodyValues];
+  return Math.max(1, ...values.filter(Array.isArray).map((value) => value.length));
+}
@@ -0,0 +1,224 @@
+import type { DatabaseClient } from "../db/client.js";
+import type { AuditEntityType, AuditEntry } from "../types/audit.js";
+
+export interface AuditTarget {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+/**
+ * Fetch the current state of an entity from Mindbody, or null when it
+ * cannot be looked up
+ */
+export type EntityStateFetcher = (target: AuditTarget) => Promise<unknown>;
+
+/**
+ * Endpoints whose entity can be identified, and the body path holding its
+ * ID (absent for creations, whose ID comes back in the response).
+ * UpdateClient nests the client, ID included, under Client.
+ */
+const AUDITED_ENTITIES: Record<string, { entityType: AuditEntityType; idPath?: string[]; responseKey: string }> = {
+  "/client/addclient": { entityType: "client", responseKey: "Client" },
+  "/client/updateclient": { entityType: "client", idPath: ["Client", "Id"], responseKey: "Client" },
+  "/appointment/addappointment": { entityType: "appointment", responseKey: "Appointment" },
+  "/appointment/updateappointment": { entityType: "appointment", idPath: ["AppointmentId"], responseKey: "Appointment" },
+};
+
+/**
+ * Body fields that identify or steer a request rather than change the
+ * entity, so an undo never writes them back
+ */
+const CONTROL_FIELDS = new Set([
+  "Id",
+  "ClientId",
+  "AppointmentId",
+  "Test",
+  "Execute",
+  "SendEmail",
+  "ApplyPayment",
+  "CrossRegionalUpdate",
+]);
+
+/**
+ * Execute actions with a direct opposite; cancel, latecancel and complete
+ * cannot be reversed through the API
+ */
+const INVERSE_EXECUTE: Record<string, string> = {
+  confirm: "unconfirm",
+  unconfirm: "confirm",
+  arrive: "unarrive",
+  unarrive: "arrive",
+};
+
+/**
+ * Write-ahead journal for mutating API calls
+ *
+ * MindbodyApiClient.request opens an entry (with a snapshot of the entity
+ * about to change) before sending a POST and completes it afterwards, so
+ * even a request that dies mid-flight leaves a "pending" row behind.
+ */
+export class AuditJournal {
+  constructor(private db: DatabaseClient) {}
+
+  /**
+   * Record a write before it is sent
+   *
+   * Test-mode requests are journaled without a snapshot since they change
+   * nothing. Snapshots prefer a live fetch and fall back to the local
+   * mirror; a failed fetch never blocks the write.
+   */
+  async begin(
+    request: { endpoint: string; body: unknown; undoOf?: number },
+    fetchState: EntityStateFetcher
+  ): Promise<number> {
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const audited = AUDITED_ENTITIES[request.endpoint];
+    const test = body.Test === true;
+    const rawId = audited?.idPath?.reduce<unknown>(
+      (value, key) => (value as Record<string, unknown> | null | undefined)?.[key],
+      body
+    );
+    const target = audited && rawId !== undefined && rawId !== null
+      ? { entityType: audited.entityType, entityId: String(rawId) }
+      : null;
+
+    const snapshot = target && !test ? await this.snapshot(target, fetchState) : { state: null, source: null };
+
+    return this.db.addAuditEntry({
+      endpoint: request.endpoint,
+      entityType: audited?.entityType ?? null,
+      entityId: target?.entityId ?? null,
+      beforeState: snapshot.state,
+      beforeSource: snapshot.source,
+      requestBody: request.body,
+      test,
+      undoOf: request.undoOf,
+    });
+  }
+
+  complete(entryId: number, response: unknown): void {
+    const entry = this.db.getAuditEntry(entryId);
+    const audited = entry ? AUDITED_ENTITIES[entry.endpoint] : undefined;
+    const created = audited
+      ? (response as Record<string, { Id?: unknown } | undefined> | null)?.[audited.responseKey]?.Id
+      : undefined;
+
+    this.db.completeAuditEntry(entryId, {
+      status: "success",
+      responseBody: response,
+      entityId: created !== undefined && created !== null ? String(created) : undefined,
+    });
+
+    if (entry?.undoOf && !entry.test) {
+      this.db.markAuditEntryUndone(entry.undoOf, entryId);
+    }
+  }
+
+  fail(entryId: number, error: unknown): void {
+    this.db.completeAuditEntry(entryId, {
+      status: "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  /**
+   * Work out the request that reverses a journaled write
+   *
+   * Updates are reversed by writing back the snapshotted value of every
+   * field they changed; a booking is reversed by cancelling it. Throws when
+   * the entry cannot be undone.
+   */
+  planUndo(entryId: number): { entry: AuditEntry; endpoint: string; body: Record<string, unknown> } {
+    const entry = this.db.getAuditEntry(entryId);
+    if (!entry) {
+      throw new Error(`Journal entry ${entryId} not found`);
+    }
+    if (entry.test) {
+      throw new Error(`Journal entry ${entryId} was a test-mode request and changed nothing`);
+    }
+    if (entry.status !== "success") {
+      throw new Error(`Journal entry ${entryId} did not succeed (status: ${entry.status})`);
+    }
+    if (entry.undoneBy !== null) {
+      throw new Error(`Journal entry ${entryId} was already undone by entry ${entry.undoneBy}`);
+    }
+
+    const request = (entry.requestBody ?? {}) as Record<string, unknown>;
+
+    switch (entry.endpoint) {
+      case "/client/updateclient": {
+        const client = (request.Client ?? {}) as Record<string, unknown>;
+        return {
+          entry,
+          endpoint: entry.endpoint,
+          body: { Client: { Id: entry.entityId, ...this.restoredFields(entry, client) } },
+        };
+      }
+
+      case "/appointment/updateappointment": {
+        const body: Record<string, unknown> = {
+          AppointmentId: Number(entry.entityId),
+          ...this.restoredFields(entry, request),
+        };
+        if (typeof request.Execute === "string") {
+          const inverse = INVERSE_EXECUTE[request.Execute];
+          if (!inverse) {
+            throw new Error(`Journal entry ${entryId} ran "${request.Execute}", which cannot be reversed`);
+          }
+          body.Execute = inverse;
+        }
+        return { entry, endpoint: entry.endpoint, body };
+      }
+
+      case "/appointment/addappointment":
+        if (!entry.entityId) {
+          throw new Error(`Journal entry ${entryId} has no appointment ID to cancel`);
+        }
+        return {
+          entry,
+          endpoint: "/appointment/updateappointment",
+          body: { AppointmentId: Number(entry.entityId), Execute: "cancel" },
+        };
+
+      default:
+        throw new Error(`Journal entry ${entryId} (${entry.endpoint}) cannot be undone automatically`);
+    }
+  }
+
+  /**
+   * Snapshotted values of the fields a request changed (given the object
+   * holding them); fields the snapshot lacks are cleared
+   */
+  private restoredFields(entry: AuditEntry, changes: Record<string, unknown>): Record<string, unknown> {
+    const changed = Object.keys(changes).filter((field) => !CONTROL_FIELDS.has(field));
+    if (changed.length === 0) {
+      return {};
+    }
+    if (entry.beforeState === null) {
+      throw new Error(`Journal entry ${entry.id} has no snapshot of the previous state`);
+    }
+
+    const before = entry.beforeState as Record<string, unknown>;
+    return Object.fromEntries(changed.map((field) => [field, before[field] ?? null]));
+  }
+
+  private async snapshot(
+    target: AuditTarget,
+    fetchState: EntityStateFetcher
+  ): Promise<{ state: unknown; source: AuditEntry["beforeSource"] }> {
+    try {
+      const live = await fetchState(target);
+      if (live) {
+        return { state: live, source: "live" };
+      }
+    } catch (error) {
+      console.error(`[AuditJournal] Live snapshot of ${target.entityType} ${target.entityId} failed:`, error);
+    }
+
+    const cached = target.entityType === "client"
+      ? this.db.getClient(target.entityId)?.rawData
+      : this.db.getAppointment(target.entityId)?.rawData;
+
+    return cached ? { state: cached, source: "cache" } : { state: null, source: null };
+  }
+}
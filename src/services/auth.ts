@@ -1,30 +1,83 @@
+import { randomBytes } from "crypto";
 import type { Config } from "../config.js";
-import { MINDBODY_API_BASE } from "../config.js";
+import { MINDBODY_API_BASE, MINDBODY_OAUTH_BASE } from "../config.js";
+import type { SecretSource } from "./credentialVault.js";
+import { MindbodyAuthError, mindbodyErrorFor } from "./errors.js";
+import type { StoredToken, TokenStore } from "./tokenStore.js";
 
 interface UserTokenResponse {
   AccessToken: string;
   TokenType: string;
   ExpiresIn: number;
-  RefreshToken?: string;
 }
 
+interface OAuthTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+const STAFF_SUBJECT = "staff";
+const OAUTH_SCOPE = "email profile openid offline_access Mindbody.Api.Public.v6";
+/** How long a started client sign-in can be completed */
+const AUTHORIZATION_TTL_MS = 30 * 60 * 1000;
+
 export class AuthService {
   private userToken: string | null = null;
   private tokenExpiry: Date | null = null;
+  private restored = false;
+  private clientTokens = new Map<string, StoredToken>();
+  /** Client sign-ins in progress, by OAuth state */
+  private authorizations = new Map<string, { clientId: string; expiresAt: number }>();
   private fetchFn: typeof fetch;
 
-  constructor(private config: Config, fetchFn?: typeof fetch) {
+  /**
+   * @param tokenStore - encrypted persistence for staff and client tokens;
+   *   without it tokens live in memory only
+   * @param secrets - credential vault entries, read on every use so a rotated
+   *   password applies without a restart; config values are the fallback
+   */
+  constructor(
+    private config: Config,
+    fetchFn?: typeof fetch,
+    private tokenStore?: TokenStore,
+    private secrets?: SecretSource
+  ) {
     this.fetchFn = fetchFn || fetch;
   }
 
+  /**
+   * Staff token for API requests
+   *
+   * Order of preference: the cached token, a stored token from a previous
+   * run, a renewal of the expiring token, and only then a fresh token issued
+   * with the staff password.
+   */
   async getUserToken(): Promise<string> {
     // Check if we have a valid cached token
-    if (this.userToken && this.tokenExpiry && this.tokenExpiry > new Date()) {
-      return this.userToken;
+    if (this.hasValidToken()) {
+      return this.userToken as string;
+    }
+
+    this.restoreStaffToken();
+    if (this.hasValidToken()) {
+      return this.userToken as string;
+    }
+
+    if (this.userToken) {
+      try {
+        await this.renewToken();
+      } catch (error) {
+        console.error("[Auth] Token renewal failed, issuing a new token:", error);
+      }
     }
 
     // Issue a new token
-    await this.issueNewToken();
+    if (!this.hasValidToken()) {
+      await this.issueNewToken();
+    }
 
     if (!this.userToken) {
       throw new Error("Failed to obtain user token");
@@ -34,6 +87,14 @@ export class AuthService {
   }
 
   private async issueNewToken(): Promise<void> {
+    const password = this.secret("MBO_STAFF_PASSWORD");
+    if (!password) {
+      throw new Error(
+        `No staff password for site ${this.config.MBO_SITE_ID}; ` +
+        `store site:${this.config.MBO_SITE_ID}/MBO_STAFF_PASSWORD with the vault CLI`
+      );
+    }
+
     try {
       const response = await this.fetchFn(`${MINDBODY_API_BASE}/usertoken/issue`, {
         method: "POST",
@@ -44,25 +105,19 @@ export class AuthService {
         },
         body: JSON.stringify({
           Username: this.config.MBO_STAFF_USERNAME,
-          Password: this.config.MBO_STAFF_PASSWORD,
+          Password: password,
         }),
       });
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Token issue failed: ${response.status} - ${errorText}`);
+        throw mindbodyErrorFor("Token issue failed", response.status, errorText);
       }
 
-      const data = (await response.json()) as UserTokenResponse;
-
-      this.userToken = data.AccessToken;
-
-      // Set expiry to 80% of the actual expiry time for safety
-      const expirySeconds = data.ExpiresIn * 0.8;
-      this.tokenExpiry = new Date(Date.now() + expirySeconds * 1000);
+      this.applyStaffToken((await response.json()) as UserTokenResponse);
 
       if (this.config.LOG_LEVEL === "debug") {
-        console.error(`[Auth] New token issued, expires at ${this.tokenExpiry.toISOString()}`);
+        console.error(`[Auth] New token issued, expires at ${this.tokenExpiry?.toISOString()}`);
       }
     } catch (error) {
       console.error("[Auth] Failed to issue token:", error);
@@ -70,12 +125,222 @@ export class AuthService {
     }
   }
 
+  /**
+   * Extend the current staff token without the password. Tokens expire
+   * locally at 80% of their lifetime, so the current one is still valid on
+   * the server and is all the call needs.
+   */
+  private async renewToken(): Promise<void> {
+    const response = await this.fetchFn(`${MINDBODY_API_BASE}/usertoken/renew`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Api-Key": this.config.MBO_API_KEY,
+        "SiteId": this.config.MBO_SITE_ID,
+        "Authorization": `Bearer ${this.userToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw mindbodyErrorFor("Token renewal failed", response.status, errorText);
+    }
+
+    this.applyStaffToken((await response.json()) as UserTokenResponse);
+
+    if (this.config.LOG_LEVEL === "debug") {
+      console.error(`[Auth] Token renewed, expires at ${this.tokenExpiry?.toISOString()}`);
+    }
+  }
+
+  private applyStaffToken(data: UserTokenResponse): void {
+    this.userToken = data.AccessToken;
+    this.tokenExpiry = expiryFrom(data.ExpiresIn);
+
+    this.tokenStore?.save(STAFF_SUBJECT, {
+      accessToken: this.userToken,
+      refreshToken: null,
+      expiresAt: this.tokenExpiry,
+    });
+  }
+
+  /**
+   * Pick up the staff token saved by a previous run (once per instance)
+   */
+  private restoreStaffToken(): void {
+    if (this.restored || !this.tokenStore) {
+      return;
+    }
+    this.restored = true;
+
+    const stored = this.tokenStore.load(STAFF_SUBJECT);
+    if (stored) {
+      this.userToken = stored.accessToken;
+      this.tokenExpiry = stored.expiresAt;
+    }
+  }
+
   invalidateToken(): void {
     this.userToken = null;
     this.tokenExpiry = null;
+    this.restored = true;
+    this.tokenStore?.delete(STAFF_SUBJECT);
   }
 
   hasValidToken(): boolean {
     return Boolean(this.userToken && this.tokenExpiry && this.tokenExpiry > new Date());
   }
+
+  /**
+   * Sign-in URL for a client user to authorize this app (OAuth
+   * authorization code flow). Mindbody posts the code and the state to
+   * MBO_OAUTH_REDIRECT_URI; pass both to exchangeAuthorizationCode. The
+   * state is bound to clientId, so the code can only become that client's
+   * token.
+   */
+  getAuthorizationUrl(clientId: string): { url: string; state: string } {
+    const oauth = this.oauthSettings();
+    const state = randomBytes(16).toString("hex");
+    const url = new URL(`${MINDBODY_OAUTH_BASE}/connect/authorize`);
+    url.searchParams.set("response_mode", "form_post");
+    url.searchParams.set("response_type", "code id_token");
+    url.searchParams.set("client_id", oauth.clientId);
+    url.searchParams.set("redirect_uri", oauth.redirectUri);
+    url.searchParams.set("scope", OAUTH_SCOPE);
+    url.searchParams.set("nonce", randomBytes(16).toString("hex"));
+    url.searchParams.set("state", state);
+    url.searchParams.set("subscriberId", this.config.MBO_SITE_ID);
+
+    this.authorizations.set(state, { clientId, expiresAt: Date.now() + AUTHORIZATION_TTL_MS });
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * Trade an authorization code for the tokens of the client whose sign-in
+   * started with this state, and keep them. Each state works once.
+   */
+  async exchangeAuthorizationCode(state: string, code: string): Promise<{ clientId: string; expiresAt: Date }> {
+    const oauth = this.oauthSettings();
+    const authorization = this.authorizations.get(state);
+    this.authorizations.delete(state);
+    if (!authorization || authorization.expiresAt <= Date.now()) {
+      throw new Error("Unknown or expired authorization state; run start_client_authorization again");
+    }
+
+    const data = await this.requestOAuthToken({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: oauth.redirectUri,
+      scope: OAUTH_SCOPE,
+    });
+
+    const token = this.applyClientToken(authorization.clientId, data, null);
+    return { clientId: authorization.clientId, expiresAt: token.expiresAt };
+  }
+
+  /**
+   * Access token for acting as a client user, refreshed (and the refresh
+   * token rotated) once it expires. Throws MindbodyAuthError (401) when the
+   * client has not authorized this app or the authorization has lapsed.
+   */
+  async getClientToken(clientId: string): Promise<string> {
+    const token = this.clientTokens.get(clientId) ?? this.tokenStore?.load(clientSubject(clientId)) ?? null;
+    if (!token) {
+      throw new MindbodyAuthError(
+        `Client ${clientId} has not authorized this app; run start_client_authorization first`,
+        401,
+        ""
+      );
+    }
+    if (token.expiresAt > new Date()) {
+      this.clientTokens.set(clientId, token);
+      return token.accessToken;
+    }
+    if (!token.refreshToken) {
+      this.revokeClientToken(clientId);
+      throw new MindbodyAuthError(
+        `Authorization for client ${clientId} has expired; run start_client_authorization again`,
+        401,
+        ""
+      );
+    }
+
+    const data = await this.requestOAuthToken({
+      grant_type: "refresh_token",
+      refresh_token: token.refreshToken,
+    });
+    return this.applyClientToken(clientId, data, token.refreshToken).accessToken;
+  }
+
+  /**
+   * Force the next getClientToken to refresh (after the API rejected it)
+   */
+  invalidateClientToken(clientId: string): void {
+    const token = this.clientTokens.get(clientId);
+    if (token) {
+      this.clientTokens.set(clientId, { ...token, expiresAt: new Date(0) });
+    }
+  }
+
+  revokeClientToken(clientId: string): void {
+    this.clientTokens.delete(clientId);
+    this.tokenStore?.delete(clientSubject(clientId));
+  }
+
+  private applyClientToken(clientId: string, data: OAuthTokenResponse, previousRefresh: string | null): StoredToken {
+    const token: StoredToken = {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? previousRefresh,
+      expiresAt: expiryFrom(data.expires_in),
+    };
+    this.clientTokens.set(clientId, token);
+    this.tokenStore?.save(clientSubject(clientId), token);
+    return token;
+  }
+
+  private async requestOAuthToken(grant: Record<string, string>): Promise<OAuthTokenResponse> {
+    const oauth = this.oauthSettings();
+    const response = await this.fetchFn(`${MINDBODY_OAUTH_BASE}/connect/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        ...grant,
+        client_id: oauth.clientId,
+        client_secret: oauth.clientSecret,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw mindbodyErrorFor("OAuth token request failed", response.status, errorText);
+    }
+
+    return (await response.json()) as OAuthTokenResponse;
+  }
+
+  private oauthSettings(): { clientId: string; clientSecret: string; redirectUri: string } {
+    const { MBO_OAUTH_CLIENT_ID, MBO_OAUTH_REDIRECT_URI } = this.config;
+    const MBO_OAUTH_CLIENT_SECRET = this.secret("MBO_OAUTH_CLIENT_SECRET");
+    if (!MBO_OAUTH_CLIENT_ID || !MBO_OAUTH_CLIENT_SECRET || !MBO_OAUTH_REDIRECT_URI) {
+      throw new Error(
+        "OAuth is not configured; set MBO_OAUTH_CLIENT_ID, MBO_OAUTH_CLIENT_SECRET and MBO_OAUTH_REDIRECT_URI"
+      );
+    }
+    return { clientId: MBO_OAUTH_CLIENT_ID, clientSecret: MBO_OAUTH_CLIENT_SECRET, redirectUri: MBO_OAUTH_REDIRECT_URI };
+  }
+
+  private secret(name: "MBO_STAFF_PASSWORD" | "MBO_OAUTH_CLIENT_SECRET"): string | undefined {
+    return this.secrets?.get(name) ?? this.config[name];
+  }
+}
+
+/**
+ * Local expiry at 80% of the token lifetime, for safety
+ */
+function expiryFrom(expiresInSeconds: number): Date {
+  return new Date(Date.now() + expiresInSeconds * 0.8 * 1000);
+}
+
+function clientSubject(clientId: string): string {
+  return `client:${clientId}`;
 }
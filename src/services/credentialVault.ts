@@ -0,0 +1,250 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { spawnSync } from "child_process";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { Config } from "../config.js";
+
+export const VAULT_FILE = "vault.enc";
+const VAULT_KEY_FILE = ".vault-key";
+const KEYRING_SERVICE = "mindbody-mcp";
+const KEYRING_ACCOUNT = "vault-key";
+const KEYRING_TIMEOUT_MS = 5000;
+const CIPHER = "aes-256-gcm";
+
+/**
+ * Entry names are config variable names, optionally scoped to one site:
+ * "MBO_STAFF_PASSWORD" or "site:555/MBO_STAFF_PASSWORD"
+ */
+const ENTRY_NAME = /^(site:-?\d+\/)?[A-Z][A-Z0-9_]*$/;
+
+interface VaultFileContents {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export type VaultKeySource = "env" | "keyring" | "file";
+
+/**
+ * Where the master key comes from. MBO_VAULT_KEY wins; with
+ * MBO_VAULT_KEYRING=true the OS keyring (macOS Keychain or libsecret's
+ * secret-tool) is tried next; DATA_DIR/.vault-key is the fallback.
+ */
+export interface VaultKeyOptions {
+  dataDir: string;
+  masterKey?: string;
+  useKeyring?: boolean;
+}
+
+/**
+ * Named secrets, e.g. one site's view of the vault
+ */
+export interface SecretSource {
+  get(name: string): string | undefined;
+}
+
+export function vaultOptions(
+  config: Pick<Config, "DATA_DIR" | "MBO_VAULT_KEY" | "MBO_VAULT_KEYRING">
+): VaultKeyOptions {
+  return { dataDir: config.DATA_DIR, masterKey: config.MBO_VAULT_KEY, useKeyring: config.MBO_VAULT_KEYRING };
+}
+
+/**
+ * Find the master key, or null when none exists yet
+ */
+export function findVaultKey(options: VaultKeyOptions): { key: string; source: VaultKeySource } | null {
+  if (options.masterKey) {
+    return { key: options.masterKey, source: "env" };
+  }
+  if (options.useKeyring) {
+    const key = runKeyring("get");
+    if (key) {
+      return { key, source: "keyring" };
+    }
+  }
+
+  const path = join(options.dataDir, VAULT_KEY_FILE);
+  return existsSync(path) ? { key: readFileSync(path, "utf-8").trim(), source: "file" } : null;
+}
+
+/**
+ * Store a newly generated master key in the keyring when enabled and
+ * available, otherwise in DATA_DIR/.vault-key (mode 0600)
+ */
+export function storeVaultKey(options: VaultKeyOptions, key: string): VaultKeySource {
+  if (options.useKeyring && runKeyring("set", key) !== null) {
+    return "keyring";
+  }
+  writeFileSync(join(options.dataDir, VAULT_KEY_FILE), key, { mode: 0o600 });
+  return "file";
+}
+
+export function generateVaultKey(): string {
+  return randomBytes(32).toString("base64");
+}
+
+/**
+ * Encrypted credential store under DATA_DIR
+ *
+ * The whole entry map is one AES-256-GCM blob keyed by scrypt(master key,
+ * salt); every write re-encrypts it with a fresh salt and IV. Every read
+ * checks the file for changes, so credentials rotated with the vault CLI
+ * reach a running server on its next token request.
+ */
+export class CredentialVault {
+  private entries: Record<string, string> | null = null;
+  private loadedFrom: string | null = null;
+
+  constructor(readonly path: string, private masterKey: string) {}
+
+  /**
+   * Open the vault in dataDir, or null when there is none
+   *
+   * Throws when a vault exists but no master key can be found.
+   */
+  static openIfPresent(options: VaultKeyOptions): CredentialVault | null {
+    const path = join(options.dataDir, VAULT_FILE);
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    const found = findVaultKey(options);
+    if (!found) {
+      throw new Error(
+        `Credential vault ${path} is locked: set MBO_VAULT_KEY, enable MBO_VAULT_KEYRING or restore ${VAULT_KEY_FILE}`
+      );
+    }
+    return new CredentialVault(path, found.key);
+  }
+
+  list(): string[] {
+    return Object.keys(this.read()).sort();
+  }
+
+  get(name: string): string | undefined {
+    return this.read()[name];
+  }
+
+  /**
+   * One site's secrets: its site-scoped entries, then (for the default
+   * site only) the shared ones
+   */
+  forSite(siteId: string, includeShared: boolean): SecretSource {
+    return {
+      get: (name) => this.get(`site:${siteId}/${name}`) ?? (includeShared ? this.get(name) : undefined),
+    };
+  }
+
+  set(name: string, value: string): void {
+    if (!ENTRY_NAME.test(name)) {
+      throw new Error(`Invalid entry name "${name}"; use e.g. MBO_STAFF_PASSWORD or site:555/MBO_STAFF_PASSWORD`);
+    }
+    if (value.length === 0) {
+      throw new Error(`Refusing to store an empty value for ${name}`);
+    }
+    this.write({ ...this.read(), [name]: value });
+  }
+
+  delete(name: string): boolean {
+    const entries = { ...this.read() };
+    if (!(name in entries)) {
+      return false;
+    }
+    delete entries[name];
+    this.write(entries);
+    return true;
+  }
+
+  /**
+   * Re-encrypt every entry under a new master key
+   */
+  rotateKey(newMasterKey: string): void {
+    const entries = this.read();
+    this.masterKey = newMasterKey;
+    this.write(entries);
+  }
+
+  private read(): Record<string, string> {
+    if (!existsSync(this.path)) {
+      return {};
+    }
+
+    // Only decrypt (and pay for scrypt) when the file changed
+    const raw = readFileSync(this.path, "utf-8");
+    if (this.entries && raw === this.loadedFrom) {
+      return this.entries;
+    }
+
+    const contents = JSON.parse(raw) as VaultFileContents;
+    try {
+      const decipher = createDecipheriv(
+        CIPHER,
+        scryptSync(this.masterKey, Buffer.from(contents.salt, "base64"), 32),
+        Buffer.from(contents.iv, "base64")
+      );
+      decipher.setAuthTag(Buffer.from(contents.tag, "base64"));
+      const plain = Buffer.concat([decipher.update(Buffer.from(contents.data, "base64")), decipher.final()]);
+      this.entries = JSON.parse(plain.toString("utf-8")) as Record<string, string>;
+    } catch {
+      throw new Error(`Could not unlock credential vault ${this.path}: wrong master key or corrupted file`);
+    }
+
+    this.loadedFrom = raw;
+    return this.entries;
+  }
+
+  private write(entries: Record<string, string>): void {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(CIPHER, scryptSync(this.masterKey, salt, 32), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(entries), "utf-8"), cipher.final()]);
+    const contents: VaultFileContents = {
+      version: 1,
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+
+    // Write then rename, so a crash never leaves a half-written vault
+    const raw = JSON.stringify(contents, null, 2);
+    const temporary = `${this.path}.tmp`;
+    writeFileSync(temporary, raw, { mode: 0o600 });
+    renameSync(temporary, this.path);
+
+    this.entries = entries;
+    this.loadedFrom = raw;
+  }
+}
+
+/**
+ * Read or write the master key in the OS keyring; null when no keyring
+ * tool is available or the lookup fails. The key is written through stdin,
+ * never argv, so it cannot be read from the process list.
+ */
+function runKeyring(action: "get" | "set", value?: string): string | null {
+  const darwin = process.platform === "darwin";
+  const command = darwin
+    ? action === "get"
+      ? ["security", ["find-generic-password", "-s", KEYRING_SERVICE, "-a", KEYRING_ACCOUNT, "-w"]]
+      // A trailing -w makes security prompt for the password (and its retype) on stdin
+      : ["security", ["add-generic-password", "-U", "-s", KEYRING_SERVICE, "-a", KEYRING_ACCOUNT, "-w"]]
+    : action === "get"
+      ? ["secret-tool", ["lookup", "service", KEYRING_SERVICE, "account", KEYRING_ACCOUNT]]
+      : ["secret-tool", ["store", "--label=Mindbody MCP vault key", "service", KEYRING_SERVICE, "account", KEYRING_ACCOUNT]];
+
+  const [program, args] = command as [string, string[]];
+  const input = action === "set" ? (darwin ? `${value ?? ""}\n${value ?? ""}\n` : value) : undefined;
+  const result = spawnSync(program, args, {
+    input,
+    encoding: "utf-8",
+    timeout: KEYRING_TIMEOUT_MS,
+  });
+
+  if (result.error || result.status !== 0) {
+    return null;
+  }
+  return action === "get" ? result.stdout.trim() || null : "";
+}
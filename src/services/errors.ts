@@ -0,0 +1,148 @@
+/**
+ * Typed failures from the Mindbody API and the local quota guard
+ *
+ * Every class carries a stable `code` (and `retryable`) so the MCP layer can
+ * turn it into a structured tool error an agent can branch on. Messages keep
+ * the "API request failed: <status> - <body>" shape used in logs.
+ */
+export abstract class MindbodyError extends Error {
+  abstract readonly code: string;
+  /** Whether the same call may succeed later without changes */
+  abstract readonly retryable: boolean;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  /**
+   * Machine-readable fields for tool results
+   */
+  details(): Record<string, unknown> {
+    return {};
+  }
+}
+
+/**
+ * The API answered with an error status
+ */
+export class MindbodyApiError extends MindbodyError {
+  readonly code: string = "api_error";
+  readonly retryable: boolean;
+  /** Error.Code / Error.Message from the response body, when present */
+  readonly apiCode: string | null;
+  readonly apiMessage: string | null;
+
+  constructor(message: string, readonly status: number, readonly body: string) {
+    super(message);
+    const parsed = parseApiErrorBody(body);
+    this.apiCode = parsed.code;
+    this.apiMessage = parsed.message;
+    this.retryable = status >= 500;
+  }
+
+  details(): Record<string, unknown> {
+    return { status: this.status, apiCode: this.apiCode, apiMessage: this.apiMessage };
+  }
+}
+
+/**
+ * Credentials or tokens were rejected (401/403), or a client user has not
+ * authorized this app
+ */
+export class MindbodyAuthError extends MindbodyApiError {
+  readonly code = "auth_failed";
+  readonly retryable = false;
+}
+
+/**
+ * The request was malformed or broke a business rule (400/422)
+ */
+export class MindbodyValidationError extends MindbodyApiError {
+  readonly code = "validation_failed";
+  readonly retryable = false;
+}
+
+export class MindbodyNotFoundError extends MindbodyApiError {
+  readonly code = "not_found";
+  readonly retryable = false;
+}
+
+/**
+ * Mindbody throttled the request (429) and retries did not get through
+ */
+export class MindbodyRateLimitError extends MindbodyApiError {
+  readonly code = "rate_limited";
+  readonly retryable = true;
+
+  constructor(message: string, status: number, body: string, readonly retryAfterMs: number | null) {
+    super(message, status, body);
+  }
+
+  details(): Record<string, unknown> {
+    return { ...super.details(), retryAfterMs: this.retryAfterMs };
+  }
+}
+
+/**
+ * The local daily call budget (DAILY_API_LIMIT_OVERRIDE) is spent; nothing
+ * was sent
+ */
+export class QuotaExhaustedError extends MindbodyError {
+  readonly code = "quota_exhausted";
+  readonly retryable = false;
+
+  constructor(readonly callsMade: number, readonly limit: number, readonly resetTime: string) {
+    super(
+      `Daily API limit reached (${callsMade}/${limit}). ` +
+      `Resets at midnight UTC. Use force flag to override.`
+    );
+  }
+
+  details(): Record<string, unknown> {
+    return { callsMade: this.callsMade, limit: this.limit, resetTime: this.resetTime };
+  }
+}
+
+/**
+ * The typed error for an error response
+ *
+ * @param prefix - start of the message, e.g. "API request failed"
+ */
+export function mindbodyErrorFor(
+  prefix: string,
+  status: number,
+  body: string,
+  retryAfterMs: number | null = null
+): MindbodyApiError {
+  const message = `${prefix}: ${status} - ${body}`;
+  switch (status) {
+    case 400:
+    case 422:
+      return new MindbodyValidationError(message, status, body);
+    case 401:
+    case 403:
+      return new MindbodyAuthError(message, status, body);
+    case 404:
+      return new MindbodyNotFoundError(message, status, body);
+    case 429:
+      return new MindbodyRateLimitError(message, status, body, retryAfterMs);
+    default:
+      return new MindbodyApiError(message, status, body);
+  }
+}
+
+/**
+ * Mindbody error bodies look like {"Error": {"Code": "...", "Message": "..."}}
+ */
+function parseApiErrorBody(body: string): { code: string | null; message: string | null } {
+  try {
+    const parsed = JSON.parse(body) as { Error?: { Code?: unknown; Message?: unknown } };
+    return {
+      code: typeof parsed?.Error?.Code === "string" ? parsed.Error.Code : null,
+      message: typeof parsed?.Error?.Message === "string" ? parsed.Error.Message : null,
+    };
+  } catch {
+    return { code: null, message: null };
+  }
+}
@@ -2,23 +2,100 @@ import type { Config } from "../config.js";
 import { MINDBODY_API_BASE } from "../config.js";
 import { AuthService } from "./auth.js";
 import { RateLimitGuard } from "./rateLimit.js";
+import { mindbodyErrorFor } from "./errors.js";
+import { backoffDelay, canRetry, isRetryableStatus, parseRetryAfter, retryPolicyFrom, sleep } from "./retryPolicy.js";
+import type { RetryPolicy } from "./retryPolicy.js";
+import { requestKey } from "./apiResponseCache.js";
 import type { ApiResponseCache } from "./apiResponseCache.js";
+import type { AuditJournal, AuditTarget } from "./auditJournal.js";
+import type { ApprovalGate } from "./approvalGate.js";
+import { Paginator } from "./pagination.js";
+import type { PageFetcher, PaginateOptions } from "./pagination.js";
 import type {
+  AddAppointmentRequest,
+  AppointmentWriteResponse,
+  UpdateAppointmentRequest,
   MindbodyAppointment,
   PaginatedAppointmentResponse,
   MindbodyBookableItem,
   PaginatedBookableItemResponse,
 } from "../types/appointment.js";
+import type {
+  MindbodyClass,
+  MindbodyClassDescription,
+  MindbodyWaitlistEntry,
+  PaginatedClassResponse,
+  PaginatedClassDescriptionResponse,
+  ClassVisitsResponse,
+  PaginatedWaitlistEntryResponse,
+} from "../types/class.js";
+import type {
+  MindbodyStaff,
+  PaginatedStaffResponse,
+  StaffPermissionsResponse,
+  StaffSessionType,
+  PaginatedStaffSessionTypeResponse,
+} from "../types/staff.js";
+import type {
+  ClientContract,
+  ClientService,
+  MindbodyContract,
+  MindbodyService,
+  PaginatedClientContractResponse,
+  PaginatedClientServiceResponse,
+  PaginatedContractResponse,
+  PaginatedServiceResponse,
+} from "../types/contract.js";
+import type { AddClientRequest } from "../types/client.js";
+import type { PaginatedTransactionResponse, PurchasedItem, SalePayment, MindbodyTransaction } from "../types/sale.js";
+import type {
+  PaginatedSiteResponse,
+  PaginatedLocationResponse,
+  PaginatedProgramResponse,
+  PaginatedSessionTypeResponse,
+  PaginatedResourceResponse,
+  SiteReferenceItem,
+  SiteReferenceKind,
+} from "../types/site.js";
 
-interface MindbodyRequestOptions {
+type QueryValue = string | number | boolean;
+
+export interface MindbodyRequestOptions {
   method?: string;
   endpoint: string;
-  params?: Record<string, string | number | boolean | undefined>;
+  params?: Record<string, QueryValue | QueryValue[] | undefined>;
   body?: unknown;
   force?: boolean;
+  /** Journal entry this write reverses (see AuditJournal.planUndo) */
+  undoOf?: number;
+  /** Token of the pending action this request replays (see ApprovalGate) */
+  approvalToken?: string;
+  /** Send as this client user (their OAuth token) instead of the staff user */
+  actingClientId?: string;
+  /** Sent as Idempotency-Key; lets a POST or PATCH be retried safely */
+  idempotencyKey?: string;
+  /** Go through the response cache; required when the cache is opt-in */
+  cache?: boolean;
+}
+
+/**
+ * How the response cache answered a GET
+ */
+export interface CacheInfo {
+  hit: boolean;
+  stale: boolean;
+  ageMs: number;
+  ttlMs: number;
+  /** A stale entry was served and a refresh is under way */
+  revalidating: boolean;
 }
 
-interface MindbodyClient {
+export interface ResponseWithCacheInfo<T> {
+  data: T;
+  cache: CacheInfo | null;
+}
+
+export interface MindbodyClient {
   Id: string;
   FirstName?: string;
   LastName?: string;
@@ -28,15 +105,17 @@ interface MindbodyClient {
   [key: string]: unknown;
 }
 
-interface MindbodySale {
+export interface MindbodySale {
   Id: string;
   SaleDate?: string;
   ClientId?: string;
   TotalAmount?: number;
+  PurchasedItems?: PurchasedItem[];
+  Payments?: SalePayment[];
   [key: string]: unknown;
 }
 
-interface PaginatedResponse<T> {
+export interface PaginatedResponse<T> {
   PaginationResponse?: {
     RequestedLimit: number;
     RequestedOffset: number;
@@ -50,120 +129,310 @@ export class MindbodyApiClient {
   private authService: AuthService;
   private rateLimitGuard: RateLimitGuard;
   private cache?: ApiResponseCache;
+  private journal?: AuditJournal;
+  private gate?: ApprovalGate;
+  private retryPolicy: RetryPolicy;
+  /** GETs on the wire, by requestKey (and acting client) */
+  private inFlight = new Map<string, Promise<unknown>>();
 
   constructor(
     config: Config,
     rateLimitGuard: RateLimitGuard,
     authService?: AuthService,
-    cache?: ApiResponseCache
+    cache?: ApiResponseCache,
+    journal?: AuditJournal,
+    gate?: ApprovalGate
   ) {
     this.authService = authService || new AuthService(config);
     this.rateLimitGuard = rateLimitGuard;
     this.cache = cache;
+    this.journal = journal;
+    this.gate = gate;
+    this.retryPolicy = retryPolicyFrom(config);
   }
 
-  private async request<T>(options: MindbodyRequestOptions): Promise<T> {
-    const { method = "GET", endpoint, params, body, force = false } = options;
+  /**
+   * Issue a request against any v6 endpoint (path relative to MINDBODY_API_BASE)
+   *
+   * Array query values are sent as repeated keys, matching the spec's
+   * "multi" collection format. Concurrent identical GETs share one call.
+   * With an approval gate, risky non-GET
+   * requests are staged for approval instead of sent (force does not skip
+   * this). With an audit journal, every non-GET request that is sent is
+   * journaled (entity snapshot first, then request and response). A
+   * successful write that is not in test mode drops the cached responses
+   * it may have changed.
+   */
+  async request<T>(options: MindbodyRequestOptions): Promise<T> {
+    const { method = "GET", endpoint, params, body, approvalToken, undoOf, actingClientId, idempotencyKey } = options;
+    if (method === "GET") {
+      return (await this.requestWithCacheInfo<T>(options)).data;
+    }
 
-    // Check cache for GET requests (unless force is true)
-    if (method === "GET" && !force && this.cache && params) {
-      const cached = this.cache.get<T>(endpoint, params as Record<string, unknown>);
-      if (cached) {
-        return cached;
+    const approved = this.gate?.check(
+      { method, endpoint, params, body, undoOf, actingClientId, idempotencyKey },
+      approvalToken
+    ) ?? null;
+    try {
+      const data = await this.journaled<T>(options);
+      if (approved) {
+        this.gate?.resolve(approved.id);
+      }
+      if (this.cache && (body as { Test?: unknown } | undefined)?.Test !== true) {
+        this.cache.invalidate(endpoint);
       }
+      return data;
+    } catch (error) {
+      if (approved) {
+        this.gate?.resolve(approved.id, error);
+      }
+      throw error;
     }
+  }
 
-    // Check rate limit
-    await this.rateLimitGuard.checkLimit(force);
+  /**
+   * request(), plus how the response cache answered a GET (null for writes
+   * or when no cache applies)
+   *
+   * Fresh entries are served as they are. A stale entry (past its TTL but
+   * within the cache's stale window) is served too, and refreshed in the
+   * background unless the daily quota is running low.
+   */
+  async requestWithCacheInfo<T>(options: MindbodyRequestOptions): Promise<ResponseWithCacheInfo<T>> {
+    const { method = "GET", endpoint, params, force = false } = options;
+    if (method !== "GET") {
+      return { data: await this.request<T>(options), cache: null };
+    }
 
-    // Get authentication token
-    const token = await this.authService.getUserToken();
+    const cache = this.responseCacheFor(options);
+    if (!cache || !params) {
+      return { data: await this.singleFlight<T>(options), cache: null };
+    }
+
+    const entry = force ? null : cache.lookup<T>(endpoint, params as Record<string, unknown>);
+    if (entry) {
+      cache.recordHit();
+      // Refreshing spends a call, which serving stale is meant to save when quota is short
+      const revalidating = entry.stale && !this.rateLimitGuard.isApproachingLimit();
+      if (revalidating) {
+        this.singleFlight<T>(options).catch((error) => {
+          console.error(`[Cache] Background refresh of ${endpoint} failed:`, error);
+        });
+      }
+      const { data, ageMs, ttlMs, stale } = entry;
+      return { data, cache: { hit: true, stale, ageMs, ttlMs, revalidating } };
+    }
+
+    cache.recordMiss();
+    const data = await this.singleFlight<T>(options);
+    return { data, cache: { hit: false, stale: false, ageMs: 0, ttlMs: cache.ttlFor(endpoint), revalidating: false } };
+  }
+
+  /**
+   * The response cache, if this GET goes through it
+   */
+  private responseCacheFor(options: MindbodyRequestOptions): ApiResponseCache | null {
+    const { method = "GET", params, actingClientId, cache: useCache } = options;
+    // Responses for a client user are theirs alone, so they are never cached
+    if (!this.cache || method !== "GET" || !params || actingClientId) {
+      return null;
+    }
+    return (useCache ?? !this.cache.optIn) ? this.cache : null;
+  }
+
+  /**
+   * Send a GET, or join an identical one already on the wire so concurrent
+   * callers share one HTTP call (and one recorded call). Joiners get their
+   * own copy of the response.
+   */
+  private singleFlight<T>(options: MindbodyRequestOptions): Promise<T> {
+    const { endpoint, params = {}, actingClientId } = options;
+    const key = requestKey(endpoint, params) + (actingClientId ? `:client:${actingClientId}` : "");
+
+    const pending = this.inFlight.get(key) as Promise<T> | undefined;
+    if (pending) {
+      return pending.then((data) => structuredClone(data));
+    }
+
+    const request = this.send<T>(options).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async journaled<T>(options: MindbodyRequestOptions): Promise<T> {
+    const { endpoint, body, force = false, undoOf } = options;
+    if (!this.journal) {
+      return this.send<T>(options);
+    }
+
+    const entryId = await this.journal.begin(
+      { endpoint, body, undoOf },
+      (target) => this.fetchEntityState(target, force)
+    );
+    try {
+      const data = await this.send<T>(options);
+      this.journal.complete(entryId, data);
+      return data;
+    } catch (error) {
+      this.journal.fail(entryId, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Current state of a journaled entity. Appointments cannot be fetched by
+   * ID alone (/appointment/staffappointments filters by date), so the
+   * journal falls back to the local mirror for them.
+   */
+  private async fetchEntityState(target: AuditTarget, force: boolean): Promise<unknown> {
+    if (target.entityType !== "client") {
+      return null;
+    }
+    const response = await this.getClients({ clientIds: [target.entityId], force });
+    return response.Clients?.[0] ?? null;
+  }
+
+  /**
+   * Send one request, retrying what is worth retrying
+   *
+   * A 401/403 re-authorizes and is sent once more. Throttling (429),
+   * transient 5xx and network failures back off exponentially with jitter,
+   * or for as long as Retry-After asks, up to the retry policy's limits;
+   * POST and PATCH only retry with an idempotency key. Every retry is
+   * checked against and recorded in the RateLimitGuard.
+   */
+  private async send<T>(options: MindbodyRequestOptions): Promise<T> {
+    const { method = "GET", endpoint, params, body, force = false, actingClientId, idempotencyKey } = options;
+
+    const authorize = () => actingClientId
+      ? this.authService.getClientToken(actingClientId)
+      : this.authService.getUserToken();
+    const retryable = canRetry(method, idempotencyKey);
 
     // Build URL with query params
     const url = new URL(`${MINDBODY_API_BASE}${endpoint}`);
     if (params) {
       for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined) {
+        if (Array.isArray(value)) {
+          for (const item of value) {
+            url.searchParams.append(key, String(item));
+          }
+        } else if (value !== undefined) {
           url.searchParams.append(key, String(value));
         }
       }
     }
 
-    // Make request
-    const response = await fetch(url.toString(), {
-      method,
-      headers: {
-        "Content-Type": "application/json",
-        "Api-Key": this.authService["config"].MBO_API_KEY,
-        "SiteId": this.authService["config"].MBO_SITE_ID,
-        "Authorization": `Bearer ${token}`,
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    let retries = 0;
+    let reauthorized = false;
+    for (;;) {
+      // Check rate limit before every attempt, retries included
+      await this.rateLimitGuard.checkLimit(force);
+      const token = await authorize();
 
-    // Record the API call
-    this.rateLimitGuard.recordCall();
-
-    // Handle 401/403 by invalidating token and retrying once
-    if (response.status === 401 || response.status === 403) {
-      this.authService.invalidateToken();
-      const newToken = await this.authService.getUserToken();
-
-      const retryResponse = await fetch(url.toString(), {
-        method,
-        headers: {
-          "Content-Type": "application/json",
-          "Api-Key": this.authService["config"].MBO_API_KEY,
-          "SiteId": this.authService["config"].MBO_SITE_ID,
-          "Authorization": `Bearer ${newToken}`,
-        },
-        body: body ? JSON.stringify(body) : undefined,
-      });
+      let response: Response;
+      try {
+        response = await fetch(url.toString(), {
+          method,
+          headers: {
+            "Content-Type": "application/json",
+            "Api-Key": this.authService["config"].MBO_API_KEY,
+            "SiteId": this.authService["config"].MBO_SITE_ID,
+            "Authorization": `Bearer ${token}`,
+            ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        });
+      } catch (error) {
+        this.recordAttempt(retries);
+        if (!retryable || retries >= this.retryPolicy.maxRetries) {
+          throw error;
+        }
+        await sleep(backoffDelay(retries, this.retryPolicy));
+        retries++;
+        continue;
+      }
 
-      this.rateLimitGuard.recordCall();
+      // Record the API call
+      this.recordAttempt(retries);
 
-      if (!retryResponse.ok) {
-        const errorText = await retryResponse.text();
-        throw new Error(`API request failed after retry: ${retryResponse.status} - ${errorText}`);
+      // Handle 401/403 by invalidating token and retrying once
+      if ((response.status === 401 || response.status === 403) && !reauthorized) {
+        if (actingClientId) {
+          this.authService.invalidateClientToken(actingClientId);
+        } else {
+          this.authService.invalidateToken();
+        }
+        reauthorized = true;
+        retries++;
+        continue;
       }
 
-      const retryData = await retryResponse.json() as T;
+      if (isRetryableStatus(response.status) && retryable && retries < this.retryPolicy.maxRetries) {
+        const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+        if (retryAfter === null || retryAfter <= this.retryPolicy.maxDelayMs) {
+          await response.body?.cancel();
+          await sleep(retryAfter ?? backoffDelay(retries, this.retryPolicy));
+          retries++;
+          continue;
+        }
+      }
 
-      // Cache GET requests after retry
-      if (method === "GET" && this.cache && params) {
-        this.cache.set(endpoint, params as Record<string, unknown>, retryData);
+      if (!response.ok) {
+        const errorText = await response.text();
+        const after = retries > 0 ? " after retry" : "";
+        throw mindbodyErrorFor(
+          `API request failed${after}`,
+          response.status,
+          errorText,
+          parseRetryAfter(response.headers.get("Retry-After"))
+        );
       }
 
-      return retryData;
-    }
+      const data = await this.parseBody<T>(response);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API request failed: ${response.status} - ${errorText}`);
-    }
+      // Cache GET requests
+      this.responseCacheFor(options)?.set(endpoint, params as Record<string, unknown>, data);
 
-    const data = await response.json() as T;
+      return data;
+    }
+  }
 
-    // Cache GET requests
-    if (method === "GET" && this.cache && params) {
-      this.cache.set(endpoint, params as Record<string, unknown>, data);
+  /**
+   * Count a sent attempt; anything after the first is a retry
+   */
+  private recordAttempt(retries: number): void {
+    if (retries === 0) {
+      this.rateLimitGuard.recordCall();
+    } else {
+      this.rateLimitGuard.recordRetry();
     }
+  }
 
-    return data;
+  /**
+   * Parse a JSON response body; 204 and empty bodies resolve to null
+   */
+  private async parseBody<T>(response: Response): Promise<T> {
+    const text = await response.text();
+    return (text ? JSON.parse(text) : null) as T;
   }
 
   async getClients(params: {
+    clientIds?: string[];
     limit?: number;
     offset?: number;
     status?: string;
+    lastModifiedDate?: string;
     force?: boolean;
-  }): Promise<PaginatedResponse<MindbodyClient>> {
-    return this.request<PaginatedResponse<MindbodyClient>>({
+  }): Promise<PaginatedResponse<MindbodyClient> & { Clients?: MindbodyClient[] }> {
+    return this.request({
       endpoint: "/client/clients",
       params: {
         limit: params.limit ?? 100,
         offset: params.offset ?? 0,
+        ...(params.clientIds && params.clientIds.length > 0 && { ClientIds: params.clientIds.join(",") }),
         ...(params.status && { status: params.status }),
+        ...(params.lastModifiedDate && { LastModifiedDate: params.lastModifiedDate }),
       },
       force: params.force,
     });
@@ -175,8 +444,8 @@ export class MindbodyApiClient {
     limit?: number;
     offset?: number;
     force?: boolean;
-  }): Promise<PaginatedResponse<MindbodySale>> {
-    return this.request<PaginatedResponse<MindbodySale>>({
+  }): Promise<PaginatedResponse<MindbodySale> & { Sales?: MindbodySale[] }> {
+    return this.request({
       endpoint: "/sale/sales",
       params: {
         StartSaleDateTime: params.startDate,
@@ -188,6 +457,136 @@ export class MindbodyApiClient {
     });
   }
 
+  async getTransactions(params: {
+    startDate?: string;
+    endDate?: string;
+    saleId?: string;
+    clientId?: string;
+    locationId?: string;
+    status?: string;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedTransactionResponse> {
+    return this.request({
+      endpoint: "/sale/transactions",
+      params: {
+        TransactionStartDateTime: params.startDate,
+        TransactionEndDateTime: params.endDate,
+        SaleId: params.saleId,
+        ClientId: params.clientId,
+        LocationId: params.locationId,
+        Status: params.status,
+        limit: params.limit ?? 100,
+        offset: params.offset ?? 0,
+      },
+      force: params.force,
+    });
+  }
+
+  async getClientContracts(params: {
+    clientId: string;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  }): Promise<PaginatedClientContractResponse> {
+    return this.request({
+      endpoint: "/client/clientcontracts",
+      params: {
+        ClientId: params.clientId,
+        limit: params.limit ?? 100,
+        offset: params.offset ?? 0,
+      },
+      force: params.force,
+    });
+  }
+
+  async getClientServices(params: {
+    clientIds: string[];
+    showActiveOnly?: boolean;
+    programIds?: string[];
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  }): Promise<PaginatedClientServiceResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      ClientIds: params.clientIds.join(","),
+      ShowActiveOnly: params.showActiveOnly,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.programIds && params.programIds.length > 0) {
+      queryParams.ProgramIds = params.programIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/client/clientservices",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  async getContracts(params: {
+    locationId: string;
+    contractIds?: string[];
+    soldOnline?: boolean;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  }): Promise<PaginatedContractResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      LocationId: params.locationId,
+      SoldOnline: params.soldOnline,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.contractIds && params.contractIds.length > 0) {
+      queryParams.ContractIds = params.contractIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/sale/contracts",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  async getServices(params: {
+    programIds?: string[];
+    sessionTypeIds?: string[];
+    serviceIds?: string[];
+    locationId?: string;
+    includeDiscontinued?: boolean;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedServiceResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      LocationId: params.locationId,
+      IncludeDiscontinued: params.includeDiscontinued,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    for (const [key, ids] of [
+      ["ProgramIds", params.programIds],
+      ["SessionTypeIds", params.sessionTypeIds],
+      ["ServiceIds", params.serviceIds],
+    ] as const) {
+      if (ids && ids.length > 0) {
+        queryParams[key] = ids.join(",");
+      }
+    }
+
+    return this.request({
+      endpoint: "/sale/services",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
   async getClientFormulaNotes(params: {
     clientIds: string[];
     force?: boolean;
@@ -201,18 +600,107 @@ export class MindbodyApiClient {
     });
   }
 
+  /**
+   * Create a client; with dryRun, Mindbody validates the request
+   * (Test: true) and returns the would-be client without creating it
+   */
+  async addClient(params: {
+    client: AddClientRequest;
+    dryRun?: boolean;
+    force?: boolean;
+  }): Promise<{ Client: MindbodyClient }> {
+    return this.request({
+      method: "POST",
+      endpoint: "/client/addclient",
+      body: {
+        ...params.client,
+        ...(params.dryRun && { Test: true }),
+      },
+      force: params.force,
+    });
+  }
+
+  /**
+   * With dryRun, Mindbody validates the update (Test: true) and returns the
+   * would-be client without saving it
+   */
   async updateClient(params: {
     clientId: string;
     data: Record<string, unknown>;
+    dryRun?: boolean;
     force?: boolean;
   }): Promise<{ Client: MindbodyClient }> {
     return this.request({
       method: "POST",
       endpoint: "/client/updateclient",
       body: {
-        ClientId: params.clientId,
-        ...params.data,
+        Client: { Id: params.clientId, ...params.data },
+        ...(params.dryRun && { Test: true }),
+      },
+      force: params.force,
+    });
+  }
+
+  /**
+   * Book an appointment. With dryRun, Mindbody validates the booking
+   * (Test: true) and returns the would-be appointment without adding it;
+   * with actAsClient the booking is made as the client user (their OAuth
+   * token) rather than the staff user.
+   */
+  async addAppointment(params: {
+    appointment: AddAppointmentRequest;
+    actAsClient?: boolean;
+    dryRun?: boolean;
+    force?: boolean;
+  }): Promise<AppointmentWriteResponse> {
+    return this.request({
+      method: "POST",
+      endpoint: "/appointment/addappointment",
+      body: {
+        ...params.appointment,
+        ...(params.dryRun && { Test: true }),
+      },
+      force: params.force,
+      ...(params.actAsClient && { actingClientId: String(params.appointment.ClientId) }),
+    });
+  }
+
+  async updateAppointment(params: {
+    appointmentId: string;
+    changes: UpdateAppointmentRequest;
+    dryRun?: boolean;
+    force?: boolean;
+  }): Promise<AppointmentWriteResponse> {
+    return this.request({
+      method: "POST",
+      endpoint: "/appointment/updateappointment",
+      body: {
+        ...params.changes,
+        AppointmentId: Number(params.appointmentId),
+        ...(params.dryRun && { Test: true }),
+      },
+      force: params.force,
+    });
+  }
+
+  /**
+   * Cancel through /appointment/updateappointment (there is no dedicated
+   * endpoint); lateCancel records a late cancellation instead
+   */
+  async cancelAppointment(params: {
+    appointmentId: string;
+    lateCancel?: boolean;
+    sendEmail?: boolean;
+    dryRun?: boolean;
+    force?: boolean;
+  }): Promise<AppointmentWriteResponse> {
+    return this.updateAppointment({
+      appointmentId: params.appointmentId,
+      changes: {
+        Execute: params.lateCancel ? "latecancel" : "cancel",
+        SendEmail: params.sendEmail,
       },
+      dryRun: params.dryRun,
       force: params.force,
     });
   }
@@ -285,7 +773,476 @@ export class MindbodyApiClient {
     });
   }
 
+  async getClasses(params: {
+    startDate: string;
+    endDate?: string;
+    classDescriptionIds?: string[];
+    staffIds?: string[];
+    locationIds?: string[];
+    hideCanceledClasses?: boolean;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  }): Promise<PaginatedClassResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      StartDateTime: params.startDate,
+      EndDateTime: params.endDate,
+      HideCanceledClasses: params.hideCanceledClasses,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.classDescriptionIds && params.classDescriptionIds.length > 0) {
+      queryParams.ClassDescriptionIds = params.classDescriptionIds.join(",");
+    }
+    if (params.staffIds && params.staffIds.length > 0) {
+      queryParams.StaffIds = params.staffIds.join(",");
+    }
+    if (params.locationIds && params.locationIds.length > 0) {
+      queryParams.LocationIds = params.locationIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/class/classes",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  async getClassDescriptions(params: {
+    programIds?: string[];
+    includeInactive?: boolean;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedClassDescriptionResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      IncludeInactive: params.includeInactive,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.programIds && params.programIds.length > 0) {
+      queryParams.ProgramIds = params.programIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/class/classdescriptions",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  /**
+   * Visits (bookings) for a single class; not paginated
+   */
+  async getClassVisits(params: {
+    classId: string;
+    lastModifiedDate?: string;
+    force?: boolean;
+  }): Promise<ClassVisitsResponse> {
+    return this.request({
+      endpoint: "/class/classvisits",
+      params: {
+        ClassID: params.classId,
+        ...(params.lastModifiedDate && { LastModifiedDate: params.lastModifiedDate }),
+      },
+      force: params.force,
+    });
+  }
+
+  async getWaitlistEntries(params: {
+    classIds?: string[];
+    clientIds?: string[];
+    hidePastEntries?: boolean;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedWaitlistEntryResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      HidePastEntries: params.hidePastEntries,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.classIds && params.classIds.length > 0) {
+      queryParams.ClassIds = params.classIds.join(",");
+    }
+    if (params.clientIds && params.clientIds.length > 0) {
+      queryParams.ClientIds = params.clientIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/class/waitlistentries",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  async getStaff(params: {
+    staffIds?: string[];
+    locationId?: string;
+    sessionTypeId?: string;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedStaffResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      LocationId: params.locationId,
+      SessionTypeId: params.sessionTypeId,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.staffIds && params.staffIds.length > 0) {
+      queryParams.StaffIds = params.staffIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/staff/staff",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  async getStaffPermissions(params: {
+    staffId: string;
+    force?: boolean;
+  }): Promise<StaffPermissionsResponse> {
+    return this.request({
+      endpoint: "/staff/staffpermissions",
+      params: { StaffId: params.staffId },
+      force: params.force,
+    });
+  }
+
+  async getStaffSessionTypes(params: {
+    staffId: string;
+    programIds?: string[];
+    onlineOnly?: boolean;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  }): Promise<PaginatedStaffSessionTypeResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      StaffId: params.staffId,
+      OnlineOnly: params.onlineOnly,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.programIds && params.programIds.length > 0) {
+      queryParams.ProgramIds = params.programIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/staff/sessiontypes",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  async getSites(params: {
+    siteIds?: string[];
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedSiteResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.siteIds && params.siteIds.length > 0) {
+      queryParams.SiteIds = params.siteIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/site/sites",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  async getLocations(params: {
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedLocationResponse> {
+    return this.request({
+      endpoint: "/site/locations",
+      params: {
+        limit: params.limit ?? 100,
+        offset: params.offset ?? 0,
+      },
+      force: params.force,
+    });
+  }
+
+  async getPrograms(params: {
+    programIds?: string[];
+    scheduleType?: string;
+    onlineOnly?: boolean;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedProgramResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      ScheduleType: params.scheduleType,
+      OnlineOnly: params.onlineOnly,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.programIds && params.programIds.length > 0) {
+      queryParams.ProgramIds = params.programIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/site/programs",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  async getSessionTypes(params: {
+    programIds?: string[];
+    onlineOnly?: boolean;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedSessionTypeResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      OnlineOnly: params.onlineOnly,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.programIds && params.programIds.length > 0) {
+      queryParams.ProgramIDs = params.programIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/site/sessiontypes",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  async getResources(params: {
+    locationIds?: string[];
+    includeInactive?: boolean;
+    limit?: number;
+    offset?: number;
+    force?: boolean;
+  } = {}): Promise<PaginatedResourceResponse> {
+    const queryParams: Record<string, string | number | boolean | undefined> = {
+      IncludeInactive: params.includeInactive,
+      limit: params.limit ?? 100,
+      offset: params.offset ?? 0,
+    };
+
+    if (params.locationIds && params.locationIds.length > 0) {
+      queryParams.LocationIds = params.locationIds.join(",");
+    }
+
+    return this.request({
+      endpoint: "/site/resources",
+      params: queryParams,
+      force: params.force,
+    });
+  }
+
+  /**
+   * Iterate every page of a limit/offset endpoint
+   *
+   * See Paginator for cursor and quota handling.
+   */
+  paginate<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): Paginator<T> {
+    return new Paginator(fetchPage, this.rateLimitGuard, options);
+  }
+
+  paginateClients(
+    params: Omit<Parameters<MindbodyApiClient["getClients"]>[0], "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyClient> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getClients({ ...params, limit, offset, force: options.force });
+      return { items: page.Clients ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateSales(
+    params: Omit<Parameters<MindbodyApiClient["getSales"]>[0], "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodySale> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getSales({ ...params, limit, offset, force: options.force });
+      return { items: page.Sales ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateTransactions(
+    params: Omit<NonNullable<Parameters<MindbodyApiClient["getTransactions"]>[0]>, "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyTransaction> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getTransactions({ ...params, limit, offset, force: options.force });
+      return { items: page.Transactions ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateClientContracts(
+    params: Omit<Parameters<MindbodyApiClient["getClientContracts"]>[0], "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<ClientContract> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getClientContracts({ ...params, limit, offset, force: options.force });
+      return { items: page.Contracts ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateClientServices(
+    params: Omit<Parameters<MindbodyApiClient["getClientServices"]>[0], "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<ClientService> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getClientServices({ ...params, limit, offset, force: options.force });
+      return { items: page.ClientServices ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateContracts(
+    params: Omit<Parameters<MindbodyApiClient["getContracts"]>[0], "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyContract> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getContracts({ ...params, limit, offset, force: options.force });
+      return { items: page.Contracts ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateServices(
+    params: Omit<NonNullable<Parameters<MindbodyApiClient["getServices"]>[0]>, "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyService> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getServices({ ...params, limit, offset, force: options.force });
+      return { items: page.Services ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateAppointments(
+    params: Omit<Parameters<MindbodyApiClient["getAppointments"]>[0], "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyAppointment> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getAppointments({ ...params, limit, offset, force: options.force });
+      return { items: page.Appointments ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateBookableItems(
+    params: Omit<Parameters<MindbodyApiClient["getBookableItems"]>[0], "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyBookableItem> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getBookableItems({ ...params, limit, offset, force: options.force });
+      return { items: page.BookableItems ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateClasses(
+    params: Omit<Parameters<MindbodyApiClient["getClasses"]>[0], "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyClass> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getClasses({ ...params, limit, offset, force: options.force });
+      return { items: page.Classes ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateClassDescriptions(
+    params: Omit<NonNullable<Parameters<MindbodyApiClient["getClassDescriptions"]>[0]>, "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyClassDescription> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getClassDescriptions({ ...params, limit, offset, force: options.force });
+      return { items: page.ClassDescriptions ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateWaitlistEntries(
+    params: Omit<NonNullable<Parameters<MindbodyApiClient["getWaitlistEntries"]>[0]>, "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyWaitlistEntry> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getWaitlistEntries({ ...params, limit, offset, force: options.force });
+      return { items: page.WaitlistEntries ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateStaff(
+    params: Omit<NonNullable<Parameters<MindbodyApiClient["getStaff"]>[0]>, "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<MindbodyStaff> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getStaff({ ...params, limit, offset, force: options.force });
+      return { items: page.StaffMembers ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  paginateStaffSessionTypes(
+    params: Omit<Parameters<MindbodyApiClient["getStaffSessionTypes"]>[0], "limit" | "offset" | "force">,
+    options: PaginateOptions = {}
+  ): Paginator<StaffSessionType> {
+    return this.paginate(async (limit, offset) => {
+      const page = await this.getStaffSessionTypes({ ...params, limit, offset, force: options.force });
+      return { items: page.StaffSessionTypes ?? [], pagination: page.PaginationResponse };
+    }, options);
+  }
+
+  /**
+   * Iterate a full /site reference list (sites, locations, programs,
+   * session types or resources)
+   */
+  paginateSiteReference(kind: SiteReferenceKind, options: PaginateOptions = {}): Paginator<SiteReferenceItem> {
+    return this.paginate<SiteReferenceItem>(async (limit, offset) => {
+      const pageParams = { limit, offset, force: options.force };
+      switch (kind) {
+        case "sites": {
+          const page = await this.getSites(pageParams);
+          return { items: page.Sites ?? [], pagination: page.PaginationResponse };
+        }
+        case "locations": {
+          const page = await this.getLocations(pageParams);
+          return { items: page.Locations ?? [], pagination: page.PaginationResponse };
+        }
+        case "programs": {
+          const page = await this.getPrograms(pageParams);
+          return { items: page.Programs ?? [], pagination: page.PaginationResponse };
+        }
+        case "sessiontypes": {
+          const page = await this.getSessionTypes(pageParams);
+          return { items: page.SessionTypes ?? [], pagination: page.PaginationResponse };
+        }
+        case "resources": {
+          const page = await this.getResources(pageParams);
+          return { items: page.Resources ?? [], pagination: page.PaginationResponse };
+        }
+      }
+    }, options);
+  }
+
   getRateLimitGuard(): RateLimitGuard {
     return this.rateLimitGuard;
   }
+
+  getResponseCache(): ApiResponseCache | null {
+    return this.cache ?? null;
+  }
+
+  getAuthService(): AuthService {
+    return this.authService;
+  }
 }
@@ -0,0 +1,151 @@
+import type { RateLimitGuard } from "./rateLimit.js";
+
+export interface PaginationInfo {
+  RequestedLimit: number;
+  RequestedOffset: number;
+  PageSize: number;
+  TotalResults: number;
+}
+
+export interface SyncCursor {
+  key: string;
+  offset: number;
+  totalResults: number | null;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for pagination cursors (implemented by DatabaseClient)
+ */
+export interface CursorStore {
+  getSyncCursor(key: string): SyncCursor | null;
+  saveSyncCursor(key: string, offset: number, totalResults?: number | null): void;
+  deleteSyncCursor(key: string): void;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  /** Offset this page was requested at */
+  offset: number;
+  totalResults: number | null;
+  /** 1-based page number within this run */
+  page: number;
+}
+
+export interface PaginationState {
+  offset: number;
+  totalResults: number | null;
+  pages: number;
+  fetched: number;
+  complete: boolean;
+  /** Offset picked up from a saved cursor, if any */
+  resumedFrom: number | null;
+  stoppedReason?: string;
+}
+
+export interface PaginateOptions {
+  pageSize?: number;
+  /** Persist progress under this key so an interrupted run can resume */
+  cursorKey?: string;
+  cursorStore?: CursorStore;
+  /** Stop once this many calls or fewer remain in today's budget */
+  reserveCalls?: number;
+  /** Ignore the daily budget (still recorded) */
+  force?: boolean;
+}
+
+export type PageFetcher<T> = (limit: number, offset: number) => Promise<{
+  items: T[];
+  pagination?: PaginationInfo;
+}>;
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Paginator
+ *
+ * Async iterator over every page of a limit/offset endpoint. Progress is
+ * checkpointed after the consumer has handled each page, so a run that is
+ * interrupted (crash, quota, break) resumes at the first unprocessed page.
+ * The cursor is removed once the last page has been consumed.
+ *
+ * @example
+ * const pages = apiClient.paginateClients({}, { cursorKey: "clients", cursorStore: db });
+ * for await (const page of pages) {
+ *   db.saveClients(page.items.map(toClientRecord));
+ * }
+ * if (!pages.state.complete) console.error(pages.state.stoppedReason);
+ */
+export class Paginator<T> implements AsyncIterable<PageResult<T>> {
+  readonly state: PaginationState = {
+    offset: 0,
+    totalResults: null,
+    pages: 0,
+    fetched: 0,
+    complete: false,
+    resumedFrom: null,
+  };
+
+  constructor(
+    private fetchPage: PageFetcher<T>,
+    private rateLimitGuard: RateLimitGuard,
+    private options: PaginateOptions = {}
+  ) {}
+
+  async *[Symbol.asyncIterator](): AsyncIterator<PageResult<T>> {
+    const { cursorKey, cursorStore, force = false, reserveCalls = 0 } = this.options;
+    const pageSize = this.options.pageSize ?? DEFAULT_PAGE_SIZE;
+
+    if (cursorKey && cursorStore) {
+      const cursor = cursorStore.getSyncCursor(cursorKey);
+      if (cursor) {
+        this.state.offset = cursor.offset;
+        this.state.totalResults = cursor.totalResults;
+        this.state.resumedFrom = cursor.offset;
+      }
+    }
+
+    while (true) {
+      if (!force && this.rateLimitGuard.getUsageStats().callsRemaining <= reserveCalls) {
+        const stats = this.rateLimitGuard.getUsageStats();
+        this.state.stoppedReason =
+          `API quota exhausted (${stats.callsMade}/${stats.limit}); ` +
+          `resume after ${stats.resetTime} from offset ${this.state.offset}`;
+        return;
+      }
+
+      const { items, pagination } = await this.fetchPage(pageSize, this.state.offset);
+      const totalResults = pagination?.TotalResults ?? this.state.totalResults;
+
+      this.state.pages++;
+      this.state.fetched += items.length;
+      this.state.totalResults = totalResults;
+
+      yield {
+        items,
+        offset: this.state.offset,
+        totalResults,
+        page: this.state.pages,
+      };
+
+      // Only advance once the consumer has processed the page
+      this.state.offset += items.length;
+
+      const exhausted = items.length === 0
+        || items.length < pageSize
+        || (totalResults !== null && this.state.offset >= totalResults);
+
+      if (exhausted) {
+        this.state.complete = true;
+        if (cursorKey && cursorStore) {
+          cursorStore.deleteSyncCursor(cursorKey);
+        }
+        return;
+      }
+
+      if (cursorKey && cursorStore) {
+        cursorStore.saveSyncCursor(cursorKey, this.state.offset, totalResults);
+      }
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import type { DatabaseClient } from "../db/client.js";
 import type { Config } from "../config.js";
+import { QuotaExhaustedError } from "./errors.js";
 
 export class RateLimitGuard {
   constructor(
@@ -17,10 +18,7 @@ export class RateLimitGuard {
     const currentUsage = this.db.getApiUsage(today);
 
     if (currentUsage >= this.config.DAILY_API_LIMIT_OVERRIDE && !force) {
-      throw new Error(
-        `Daily API limit reached (${currentUsage}/${this.config.DAILY_API_LIMIT_OVERRIDE}). ` +
-        `Resets at midnight UTC. Use force flag to override.`
-      );
+      throw new QuotaExhaustedError(currentUsage, this.config.DAILY_API_LIMIT_OVERRIDE, this.nextResetTime());
     }
 
     if (this.config.LOG_LEVEL === "debug") {
@@ -33,31 +31,47 @@ export class RateLimitGuard {
     this.db.incrementApiUsage(today);
   }
 
+  /**
+   * Record a retried attempt; it counts towards callsMade as well
+   */
+  recordRetry(): void {
+    this.db.incrementApiRetries(this.getTodayDate());
+  }
+
   getUsageStats(): {
     callsMade: number;
+    retriesMade: number;
     limit: number;
     callsRemaining: number;
     resetTime: string;
   } {
     const today = this.getTodayDate();
     const callsMade = this.db.getApiUsage(today);
+    const retriesMade = this.db.getApiRetries(today);
     const limit = this.config.DAILY_API_LIMIT_OVERRIDE;
     const callsRemaining = Math.max(0, limit - callsMade);
 
-    // Calculate next midnight UTC
-    const tomorrow = new Date();
-    tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
-    tomorrow.setUTCHours(0, 0, 0, 0);
-    const resetTime = tomorrow.toISOString();
+    const resetTime = this.nextResetTime();
 
     return {
       callsMade,
+      retriesMade,
       limit,
       callsRemaining,
       resetTime,
     };
   }
 
+  /**
+   * Next midnight UTC, when the daily count starts over
+   */
+  private nextResetTime(): string {
+    const tomorrow = new Date();
+    tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+    tomorrow.setUTCHours(0, 0, 0, 0);
+    return tomorrow.toISOString();
+  }
+
   isApproachingLimit(): boolean {
     const today = this.getTodayDate();
     const currentUsage = this.db.getApiUsage(today);
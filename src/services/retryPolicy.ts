@@ -0,0 +1,78 @@
+import type { Config } from "../config.js";
+
+export interface RetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number;
+  /** Backoff ceiling for the first retry, doubled for each one after it */
+  baseDelayMs: number;
+  /** Longest wait between attempts; a longer Retry-After is not waited out */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Throttling and transient server errors; everything else is final
+ */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Methods that may be repeated without changing the outcome
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+export function retryPolicyFrom(config: Config): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    maxRetries: config.API_MAX_RETRIES ?? DEFAULT_RETRY_POLICY.maxRetries,
+    baseDelayMs: config.API_RETRY_BASE_MS ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+  };
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Whether a failed attempt may be sent again. A POST or PATCH that reached
+ * the server may already have taken effect, so it is only repeated when it
+ * carries an idempotency key.
+ */
+export function canRetry(method: string, idempotencyKey?: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase()) || Boolean(idempotencyKey);
+}
+
+/**
+ * Exponential backoff with full jitter: a random wait up to
+ * baseDelayMs * 2^retry, capped at maxDelayMs
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * Retry-After header in milliseconds (delta-seconds or an HTTP date), or
+ * null when absent or unparseable
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,205 @@
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { z } from "zod";
+import type { Config } from "../config.js";
+import { DatabaseClient } from "../db/client.js";
+import { ApiResponseCache } from "./apiResponseCache.js";
+import { ApprovalGate } from "./approvalGate.js";
+import { AuditJournal } from "./auditJournal.js";
+import { AuthService } from "./auth.js";
+import { CredentialVault, vaultOptions } from "./credentialVault.js";
+import { MindbodyApiClient } from "./mindbody.js";
+import { RateLimitGuard } from "./rateLimit.js";
+import { SyncService } from "./sync.js";
+import { TokenStore, resolveTokenKey } from "./tokenStore.js";
+
+/**
+ * One studio in MBO_SITES_FILE. apiKey and dailyLimit default to
+ * MBO_API_KEY and DAILY_API_LIMIT_OVERRIDE; staffPassword can be left out
+ * and kept in the credential vault as site:<siteId>/MBO_STAFF_PASSWORD.
+ */
+export const SiteEntrySchema = z.object({
+  siteId: z.string().regex(/^-?\d+$/, "Site ID must be numeric"),
+  name: z.string().optional(),
+  staffUsername: z.string().min(1, "Staff username is required"),
+  staffPassword: z.string().min(1, "Staff password must not be empty").optional(),
+  apiKey: z.string().min(1).optional(),
+  dailyLimit: z.number().int().positive().optional(),
+}).strict();
+
+export type SiteEntry = z.infer<typeof SiteEntrySchema>;
+
+/**
+ * The services for one site, shaped like the MCP ToolContext
+ */
+export interface SiteContext {
+  siteId: string;
+  name: string | null;
+  config: Config;
+  db: DatabaseClient;
+  apiClient: MindbodyApiClient;
+  syncService: SyncService;
+}
+
+export interface SiteSummary {
+  siteId: string;
+  name: string | null;
+  isDefault: boolean;
+  dataDir: string;
+}
+
+/**
+ * Every Mindbody site this server manages
+ *
+ * The site from MBO_SITE_ID / MBO_STAFF_* is the default and keeps using
+ * DATA_DIR. Sites listed in MBO_SITES_FILE get their own database under
+ * DATA_DIR/sites/<siteId>, so each has its own mirror, api_usage counter,
+ * journal, approval queue and stored tokens, plus its own AuthService.
+ * Services are built the first time a site is used. Credentials in the
+ * vault override the ones from the environment or sites file. Each site's
+ * response cache is opt-in: only tools in API_CACHE_TOOLS read from it.
+ */
+export class SiteRegistry {
+  readonly defaultSiteId: string;
+  private entries = new Map<string, SiteEntry>();
+  private contexts = new Map<string, SiteContext>();
+  private tokenKey: Buffer | null = null;
+  private vault: CredentialVault | null;
+
+  /**
+   * @param authFetch - fetch used for token requests (tests inject a mock)
+   */
+  constructor(private config: Config, private authFetch?: typeof fetch) {
+    this.defaultSiteId = config.MBO_SITE_ID;
+    this.vault = CredentialVault.openIfPresent(vaultOptions(config));
+    this.entries.set(config.MBO_SITE_ID, {
+      siteId: config.MBO_SITE_ID,
+      staffUsername: config.MBO_STAFF_USERNAME,
+      staffPassword: config.MBO_STAFF_PASSWORD,
+    });
+
+    if (config.MBO_SITES_FILE) {
+      for (const entry of loadSitesFile(config.MBO_SITES_FILE)) {
+        this.entries.set(entry.siteId, entry);
+      }
+    }
+  }
+
+  list(): SiteSummary[] {
+    return Array.from(this.entries.values()).map((entry) => ({
+      siteId: entry.siteId,
+      name: entry.name ?? null,
+      isDefault: entry.siteId === this.defaultSiteId,
+      dataDir: this.dataDir(entry.siteId),
+    }));
+  }
+
+  has(siteId: string): boolean {
+    return this.entries.has(siteId);
+  }
+
+  /**
+   * Services for a site (the default site when siteId is omitted)
+   */
+  get(siteId: string = this.defaultSiteId): SiteContext {
+    const existing = this.contexts.get(siteId);
+    if (existing) {
+      return existing;
+    }
+
+    const entry = this.entries.get(siteId);
+    if (!entry) {
+      throw new Error(
+        `Unknown site ${siteId}; registered sites: ${Array.from(this.entries.keys()).join(", ")}`
+      );
+    }
+
+    const context = this.build(entry);
+    this.contexts.set(siteId, context);
+    return context;
+  }
+
+  close(): void {
+    for (const context of this.contexts.values()) {
+      context.db.close();
+    }
+    this.contexts.clear();
+  }
+
+  private build(entry: SiteEntry): SiteContext {
+    const dataDir = this.dataDir(entry.siteId);
+    mkdirSync(dataDir, { recursive: true });
+
+    const config: Config = {
+      ...this.config,
+      MBO_SITE_ID: entry.siteId,
+      MBO_API_KEY: entry.apiKey ?? this.config.MBO_API_KEY,
+      MBO_STAFF_USERNAME: entry.staffUsername,
+      MBO_STAFF_PASSWORD: entry.staffPassword ?? "",
+      DAILY_API_LIMIT_OVERRIDE: entry.dailyLimit ?? this.config.DAILY_API_LIMIT_OVERRIDE,
+      DATA_DIR: dataDir,
+    };
+
+    const db = new DatabaseClient(config);
+    this.tokenKey ??= resolveTokenKey(this.config);
+    const apiClient = new MindbodyApiClient(
+      config,
+      new RateLimitGuard(db, config),
+      new AuthService(
+        config,
+        this.authFetch,
+        new TokenStore(db, this.tokenKey),
+        this.vault?.forSite(entry.siteId, entry.siteId === this.defaultSiteId)
+      ),
+      new ApiResponseCache(db, { optIn: true }),
+      new AuditJournal(db),
+      new ApprovalGate(db, config)
+    );
+
+    return {
+      siteId: entry.siteId,
+      name: entry.name ?? null,
+      config,
+      db,
+      apiClient,
+      syncService: new SyncService(apiClient, db),
+    };
+  }
+
+  private dataDir(siteId: string): string {
+    return siteId === this.defaultSiteId ? this.config.DATA_DIR : join(this.config.DATA_DIR, "sites", siteId);
+  }
+}
+
+/**
+ * Read MBO_SITES_FILE: a JSON array of site entries
+ */
+function loadSitesFile(path: string): SiteEntry[] {
+  if (!existsSync(path)) {
+    throw new Error(`Sites file not found: ${path}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Sites file ${path} is not valid JSON: ${reason}`);
+  }
+
+  const parsed = z.array(SiteEntrySchema).safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("\n");
+    throw new Error(`Sites file ${path} is invalid:\n${issues}`);
+  }
+
+  const seen = new Set<string>();
+  for (const entry of parsed.data) {
+    if (seen.has(entry.siteId)) {
+      throw new Error(`Sites file ${path} lists site ${entry.siteId} more than once`);
+    }
+    seen.add(entry.siteId);
+  }
+
+  return parsed.data;
+}
@@ -0,0 +1,874 @@
+import type { DatabaseClient } from "../db/client.js";
+import type { MindbodyApiClient, MindbodyClient, MindbodySale } from "./mindbody.js";
+import type { PaginateOptions } from "./pagination.js";
+import { transformAppointment, transformBookableItem } from "../types/appointment.js";
+import { transformClass, transformClassVisit } from "../types/class.js";
+import { transformStaff, transformStaffSessionType } from "../types/staff.js";
+import type { StaffSessionType } from "../types/staff.js";
+import { SITE_REFERENCE_KINDS, transformSiteReference } from "../types/site.js";
+import { transformSaleDetail, transformTransaction } from "../types/sale.js";
+import type { SiteReferenceItem, SiteReferenceKind } from "../types/site.js";
+import { transformClientContract, transformClientService } from "../types/contract.js";
+import type { ClientContract, ClientService, MindbodyContract, MindbodyService } from "../types/contract.js";
+
+const PAGE_SIZE = 100;
+
+/**
+ * Share of the daily budget sync runs leave untouched (matches
+ * RateLimitGuard.isApproachingLimit)
+ */
+const SYNC_RESERVE_RATIO = 0.2;
+
+/**
+ * Sales requests over long ranges time out, so they are split into windows
+ */
+const SALES_WINDOW_DAYS = 7;
+
+/**
+ * Clients per /client/clientservices request (ClientIds is a list)
+ */
+const CLIENT_SERVICES_BATCH = 20;
+
+/**
+ * How long site reference lists (locations, programs, ...) are trusted
+ * before a refresh
+ */
+export const SITE_REFERENCE_TTL_HOURS = 24;
+
+export interface SyncResult {
+  operation: string;
+  fetched: number;
+  saved: number;
+  apiCalls: number;
+  complete: boolean;
+  stoppedReason?: string;
+  /** Offset (or sales window) a resumed run picked up from */
+  resumedFrom?: number | null;
+  /** LastModifiedDate filter sent, null for a full pull */
+  since?: string | null;
+}
+
+export interface ClientRecord {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  status?: string;
+  rawData: unknown;
+}
+
+export interface SaleRecord {
+  id: string;
+  saleDate: string;
+  clientId?: string;
+  totalAmount?: number;
+  rawData: unknown;
+}
+
+export function toClientRecord(client: MindbodyClient): ClientRecord {
+  return {
+    id: String(client.Id),
+    firstName: client.FirstName,
+    lastName: client.LastName,
+    email: client.Email,
+    status: client.Status,
+    rawData: client,
+  };
+}
+
+export function toSaleRecord(sale: MindbodySale): SaleRecord {
+  return {
+    id: String(sale.Id),
+    saleDate: sale.SaleDate ?? "",
+    clientId: sale.ClientId !== undefined ? String(sale.ClientId) : undefined,
+    totalAmount: sale.TotalAmount,
+    rawData: sale,
+  };
+}
+
+/**
+ * Split an inclusive YYYY-MM-DD range into consecutive windows
+ */
+export function splitDateRange(
+  startDate: string,
+  endDate: string,
+  windowDays = SALES_WINDOW_DAYS
+): Array<{ startDate: string; endDate: string }> {
+  const windows: Array<{ startDate: string; endDate: string }> = [];
+  const end = new Date(`${endDate}T00:00:00Z`);
+  let cursor = new Date(`${startDate}T00:00:00Z`);
+
+  if (Number.isNaN(cursor.getTime()) || Number.isNaN(end.getTime())) {
+    throw new Error(`Invalid date range: ${startDate} to ${endDate}`);
+  }
+  if (cursor > end) {
+    throw new Error(`Start date ${startDate} is after end date ${endDate}`);
+  }
+
+  while (cursor <= end) {
+    const windowEnd = new Date(cursor);
+    windowEnd.setUTCDate(windowEnd.getUTCDate() + windowDays - 1);
+    const clampedEnd = windowEnd > end ? end : windowEnd;
+
+    windows.push({
+      startDate: toDateString(cursor),
+      endDate: toDateString(clampedEnd),
+    });
+
+    cursor = new Date(clampedEnd);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return windows;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0] as string;
+}
+
+/**
+ * Sync Service
+ *
+ * Pulls paginated data from Mindbody into the local SQLite mirror and records
+ * every run in sync_logs. Stops early when the daily API budget is nearly
+ * spent (unless forced) and leaves a cursor so the next run resumes where
+ * this one stopped.
+ */
+export class SyncService {
+  constructor(
+    private apiClient: MindbodyApiClient,
+    private db: DatabaseClient
+  ) {}
+
+  /**
+   * Sync clients into the local mirror
+   *
+   * Every run without an explicit sinceDate tracks a LastModifiedDate
+   * high-water mark per status filter; incremental runs send the last
+   * committed mark so only changed clients are fetched.
+   */
+  async syncClients(options: {
+    status?: string;
+    sinceDate?: string;
+    incremental?: boolean;
+    force?: boolean;
+  } = {}): Promise<SyncResult> {
+    const operation = "sync_clients";
+    const result: SyncResult = { operation, fetched: 0, saved: 0, apiCalls: 0, complete: false };
+    const watermarkKey = options.sinceDate ? null : `clients:${options.status ?? "all"}`;
+
+    try {
+      let sinceDate = options.sinceDate;
+      if (watermarkKey) {
+        if (options.incremental) {
+          sinceDate = this.db.getSyncWatermark(watermarkKey)?.highWaterMark ?? undefined;
+        }
+        this.db.beginSyncWatermark(watermarkKey, new Date().toISOString());
+      }
+      result.since = sinceDate ?? null;
+
+      const cursorKey = `clients:${options.status ?? "all"}:${sinceDate ?? "full"}`;
+      const pages = this.apiClient.paginateClients(
+        { status: options.status, lastModifiedDate: sinceDate },
+        this.paginateOptions(cursorKey, options.force)
+      );
+
+      for await (const page of pages) {
+        result.apiCalls++;
+        result.fetched += page.items.length;
+
+        if (page.items.length > 0) {
+          result.saved += this.db.saveClients(page.items.map(toClientRecord));
+        }
+      }
+
+      result.complete = pages.state.complete;
+      result.stoppedReason = pages.state.stoppedReason;
+      result.resumedFrom = pages.state.resumedFrom;
+
+      if (result.complete && watermarkKey) {
+        this.db.commitSyncWatermark(watermarkKey);
+      }
+
+      this.logResult(result, `Synced ${result.saved} clients`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  async syncSales(options: {
+    startDate: string;
+    endDate: string;
+    force?: boolean;
+  }): Promise<SyncResult> {
+    const operation = "export_sales_history";
+    const result: SyncResult = { operation, fetched: 0, saved: 0, apiCalls: 0, complete: false };
+
+    // The export-level cursor counts finished windows; each window keeps its own
+    // offset cursor. Distinct prefixes, since a single window spans the same dates.
+    const exportKey = `sales-export:${options.startDate}:${options.endDate}`;
+
+    try {
+      const windows = splitDateRange(options.startDate, options.endDate);
+      const firstWindow = this.db.getSyncCursor(exportKey)?.offset ?? 0;
+      if (firstWindow > 0) {
+        result.resumedFrom = firstWindow;
+      }
+
+      for (let index = firstWindow; index < windows.length; index++) {
+        const window = windows[index]!;
+        const pages = this.apiClient.paginateSales(
+          { startDate: window.startDate, endDate: window.endDate },
+          this.paginateOptions(`sales-window:${window.startDate}:${window.endDate}`, options.force)
+        );
+
+        for await (const page of pages) {
+          result.apiCalls++;
+          result.fetched += page.items.length;
+
+          if (page.items.length > 0) {
+            this.db.saveSales(page.items.map(toSaleRecord));
+            // Only replace stored lines when the response actually carried them
+            this.db.saveSaleDetails(page.items
+              .filter((sale) => sale.PurchasedItems !== undefined || sale.Payments !== undefined)
+              .map(transformSaleDetail));
+            result.saved += page.items.length;
+          }
+        }
+
+        if (!pages.state.complete) {
+          result.stoppedReason = `${pages.state.stoppedReason} (window starting ${window.startDate})`;
+          break;
+        }
+
+        this.db.saveSyncCursor(exportKey, index + 1, windows.length);
+      }
+
+      result.complete = result.stoppedReason === undefined;
+      if (result.complete) {
+        this.db.deleteSyncCursor(exportKey);
+      }
+
+      this.logResult(result, `Exported ${result.saved} sales from ${options.startDate} to ${options.endDate}`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync card and ACH transactions (/sale/transactions) for a date range,
+   * linked to sales by sale_id
+   */
+  async syncSaleTransactions(options: {
+    startDate: string;
+    endDate: string;
+    force?: boolean;
+  }): Promise<SyncResult> {
+    const operation = "sync_sale_transactions";
+    const result: SyncResult = { operation, fetched: 0, saved: 0, apiCalls: 0, complete: false };
+
+    try {
+      const pages = this.apiClient.paginateTransactions(
+        { startDate: options.startDate, endDate: options.endDate },
+        this.paginateOptions(`transactions:${options.startDate}:${options.endDate}`, options.force)
+      );
+
+      for await (const page of pages) {
+        result.apiCalls++;
+        result.fetched += page.items.length;
+
+        if (page.items.length > 0) {
+          this.db.saveSaleTransactions(page.items.map(transformTransaction));
+          result.saved += page.items.length;
+        }
+      }
+
+      result.complete = pages.state.complete;
+      result.stoppedReason = pages.state.stoppedReason;
+      result.resumedFrom = pages.state.resumedFrom;
+
+      this.logResult(result, `Synced ${result.saved} sale transactions`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  async syncAppointments(options: {
+    startDate: string;
+    endDate?: string;
+    staffIds?: string[];
+    locationIds?: string[];
+    force?: boolean;
+  }): Promise<SyncResult> {
+    const operation = "sync_appointments";
+    const result: SyncResult = { operation, fetched: 0, saved: 0, apiCalls: 0, complete: false };
+    const cursorKey = [
+      "appointments",
+      options.startDate,
+      options.endDate ?? "",
+      options.staffIds?.join(",") ?? "",
+      options.locationIds?.join(",") ?? "",
+    ].join(":");
+
+    try {
+      const pages = this.apiClient.paginateAppointments(
+        {
+          startDate: options.startDate,
+          endDate: options.endDate,
+          staffIds: options.staffIds,
+          locationIds: options.locationIds,
+        },
+        this.paginateOptions(cursorKey, options.force)
+      );
+
+      for await (const page of pages) {
+        result.apiCalls++;
+        result.fetched += page.items.length;
+
+        if (page.items.length > 0) {
+          this.db.saveAppointments(page.items.map(transformAppointment));
+          result.saved += page.items.length;
+        }
+      }
+
+      result.complete = pages.state.complete;
+      result.stoppedReason = pages.state.stoppedReason;
+      result.resumedFrom = pages.state.resumedFrom;
+
+      this.logResult(result, `Synced ${result.saved} appointments`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  async syncBookableItems(options: {
+    sessionTypeIds?: string[];
+    locationIds?: string[];
+    force?: boolean;
+  } = {}): Promise<SyncResult> {
+    const operation = "sync_bookable_items";
+    const result: SyncResult = { operation, fetched: 0, saved: 0, apiCalls: 0, complete: false };
+    const cursorKey = [
+      "bookable_items",
+      options.sessionTypeIds?.join(",") ?? "",
+      options.locationIds?.join(",") ?? "",
+    ].join(":");
+
+    try {
+      const pages = this.apiClient.paginateBookableItems(
+        { sessionTypeIds: options.sessionTypeIds, locationIds: options.locationIds },
+        this.paginateOptions(cursorKey, options.force)
+      );
+
+      for await (const page of pages) {
+        result.apiCalls++;
+        result.fetched += page.items.length;
+
+        if (page.items.length > 0) {
+          this.db.saveBookableItems(page.items.map(transformBookableItem));
+          result.saved += page.items.length;
+        }
+      }
+
+      result.complete = pages.state.complete;
+      result.stoppedReason = pages.state.stoppedReason;
+      result.resumedFrom = pages.state.resumedFrom;
+
+      this.logResult(result, `Synced ${result.saved} bookable items`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  async syncClasses(options: {
+    startDate: string;
+    endDate?: string;
+    staffIds?: string[];
+    locationIds?: string[];
+    force?: boolean;
+  }): Promise<SyncResult> {
+    const operation = "sync_classes";
+    const result: SyncResult = { operation, fetched: 0, saved: 0, apiCalls: 0, complete: false };
+    const cursorKey = [
+      "classes",
+      options.startDate,
+      options.endDate ?? "",
+      options.staffIds?.join(",") ?? "",
+      options.locationIds?.join(",") ?? "",
+    ].join(":");
+
+    try {
+      const pages = this.apiClient.paginateClasses(
+        {
+          startDate: options.startDate,
+          endDate: options.endDate,
+          staffIds: options.staffIds,
+          locationIds: options.locationIds,
+        },
+        this.paginateOptions(cursorKey, options.force)
+      );
+
+      for await (const page of pages) {
+        result.apiCalls++;
+        result.fetched += page.items.length;
+
+        if (page.items.length > 0) {
+          this.db.saveClasses(page.items.map(transformClass));
+          result.saved += page.items.length;
+        }
+      }
+
+      result.complete = pages.state.complete;
+      result.stoppedReason = pages.state.stoppedReason;
+      result.resumedFrom = pages.state.resumedFrom;
+
+      this.logResult(result, `Synced ${result.saved} classes`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch visits class by class (/class/classvisits takes one class ID)
+   *
+   * Stops before the sync reserve like the paginated syncs; classes already
+   * done are listed so a rerun can skip them.
+   */
+  async syncClassVisits(options: {
+    classIds: string[];
+    force?: boolean;
+  }): Promise<SyncResult & { classesSynced: string[] }> {
+    const operation = "sync_class_visits";
+    const result: SyncResult & { classesSynced: string[] } = {
+      operation,
+      fetched: 0,
+      saved: 0,
+      apiCalls: 0,
+      complete: false,
+      classesSynced: [],
+    };
+    const rateLimitGuard = this.apiClient.getRateLimitGuard();
+    const reserveCalls = Math.ceil(rateLimitGuard.getUsageStats().limit * SYNC_RESERVE_RATIO);
+
+    try {
+      for (const classId of options.classIds) {
+        const stats = rateLimitGuard.getUsageStats();
+        if (!options.force && stats.callsRemaining <= reserveCalls) {
+          result.stoppedReason =
+            `API quota exhausted (${stats.callsMade}/${stats.limit}); ` +
+            `${options.classIds.length - result.classesSynced.length} classes left`;
+          break;
+        }
+
+        const response = await this.apiClient.getClassVisits({ classId, force: options.force });
+        const visits = response.Class?.Visits ?? [];
+        result.apiCalls++;
+        result.fetched += visits.length;
+
+        if (visits.length > 0) {
+          this.db.saveClassVisits(visits.map((visit) => transformClassVisit(visit, classId)));
+          result.saved += visits.length;
+        }
+        result.classesSynced.push(classId);
+      }
+
+      result.complete = result.stoppedReason === undefined;
+
+      this.logResult(result, `Synced ${result.saved} visits for ${result.classesSynced.length} classes`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync the staff directory, then per-staff details
+   *
+   * Session types are fetched for appointment instructors only, since
+   * nobody else can be booked for them. Permissions cost one call per staff
+   * member and are opt-in. Per-staff calls stop before the sync reserve like
+   * syncClassVisits; staff already done are listed in staffSynced.
+   */
+  async syncStaff(options: {
+    includeSessionTypes?: boolean;
+    includePermissions?: boolean;
+    force?: boolean;
+  } = {}): Promise<SyncResult & { staffSynced: string[] }> {
+    const operation = "sync_staff";
+    const result: SyncResult & { staffSynced: string[] } = {
+      operation,
+      fetched: 0,
+      saved: 0,
+      apiCalls: 0,
+      complete: false,
+      staffSynced: [],
+    };
+    const includeSessionTypes = options.includeSessionTypes ?? true;
+    const includePermissions = options.includePermissions ?? false;
+
+    try {
+      const pages = this.apiClient.paginateStaff({}, this.paginateOptions("staff", options.force));
+      const staffIds: string[] = [];
+      const instructorIds = new Set<string>();
+
+      for await (const page of pages) {
+        result.apiCalls++;
+        result.fetched += page.items.length;
+
+        if (page.items.length > 0) {
+          const records = page.items.map(transformStaff);
+          this.db.saveStaffMembers(records);
+          result.saved += records.length;
+          for (const record of records) {
+            staffIds.push(record.id);
+            if (record.appointmentInstructor) {
+              instructorIds.add(record.id);
+            }
+          }
+        }
+      }
+
+      result.resumedFrom = pages.state.resumedFrom;
+      if (!pages.state.complete) {
+        result.stoppedReason = pages.state.stoppedReason;
+        this.logResult(result, `Synced ${result.saved} staff`);
+        return result;
+      }
+
+      const rateLimitGuard = this.apiClient.getRateLimitGuard();
+      const reserveCalls = Math.ceil(rateLimitGuard.getUsageStats().limit * SYNC_RESERVE_RATIO);
+      const detailIds = staffIds.filter(
+        (id) => (includeSessionTypes && instructorIds.has(id)) || includePermissions
+      );
+
+      for (const staffId of detailIds) {
+        const stats = rateLimitGuard.getUsageStats();
+        if (!options.force && stats.callsRemaining <= reserveCalls) {
+          result.stoppedReason =
+            `API quota exhausted (${stats.callsMade}/${stats.limit}); ` +
+            `${detailIds.length - result.staffSynced.length} staff left`;
+          break;
+        }
+
+        if (includeSessionTypes && instructorIds.has(staffId)) {
+          const sessionTypePages = this.apiClient.paginateStaffSessionTypes(
+            { staffId },
+            { pageSize: PAGE_SIZE, reserveCalls, force: options.force }
+          );
+          const sessionTypes: StaffSessionType[] = [];
+          for await (const page of sessionTypePages) {
+            result.apiCalls++;
+            sessionTypes.push(...page.items);
+          }
+          if (!sessionTypePages.state.complete) {
+            result.stoppedReason = sessionTypePages.state.stoppedReason;
+            break;
+          }
+          this.db.saveStaffSessionTypes(
+            staffId,
+            sessionTypes.map((sessionType) => transformStaffSessionType(sessionType, staffId))
+          );
+        }
+
+        if (includePermissions) {
+          const response = await this.apiClient.getStaffPermissions({ staffId, force: options.force });
+          result.apiCalls++;
+          this.db.saveStaffPermissions(staffId, response.UserGroup);
+        }
+
+        result.staffSynced.push(staffId);
+      }
+
+      result.complete = result.stoppedReason === undefined;
+
+      this.logResult(result, `Synced ${result.saved} staff (${result.staffSynced.length} with details)`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync pricing options and contracts for a set of clients
+   *
+   * Pricing options are fetched CLIENT_SERVICES_BATCH clients at a time;
+   * contracts take one call per client. Each client's rows are replaced only
+   * once their pages are complete. Stops before the sync reserve like
+   * syncClassVisits; clients already done are listed in clientsSynced.
+   */
+  async syncMemberships(options: {
+    clientIds: string[];
+    includeContracts?: boolean;
+    activeOnly?: boolean;
+    force?: boolean;
+  }): Promise<SyncResult & { clientsSynced: string[] }> {
+    const operation = "sync_memberships";
+    const result: SyncResult & { clientsSynced: string[] } = {
+      operation,
+      fetched: 0,
+      saved: 0,
+      apiCalls: 0,
+      complete: false,
+      clientsSynced: [],
+    };
+    const includeContracts = options.includeContracts ?? true;
+    const rateLimitGuard = this.apiClient.getRateLimitGuard();
+    const reserveCalls = Math.ceil(rateLimitGuard.getUsageStats().limit * SYNC_RESERVE_RATIO);
+    const pageOptions = { pageSize: PAGE_SIZE, reserveCalls, force: options.force };
+
+    try {
+      batches: for (let start = 0; start < options.clientIds.length; start += CLIENT_SERVICES_BATCH) {
+        const batch = options.clientIds.slice(start, start + CLIENT_SERVICES_BATCH);
+        const stats = rateLimitGuard.getUsageStats();
+        if (!options.force && stats.callsRemaining <= reserveCalls) {
+          result.stoppedReason =
+            `API quota exhausted (${stats.callsMade}/${stats.limit}); ` +
+            `${options.clientIds.length - result.clientsSynced.length} clients left`;
+          break;
+        }
+
+        const servicePages = this.apiClient.paginateClientServices(
+          { clientIds: batch, showActiveOnly: options.activeOnly },
+          pageOptions
+        );
+        const services: ClientService[] = [];
+        for await (const page of servicePages) {
+          result.apiCalls++;
+          services.push(...page.items);
+        }
+        if (!servicePages.state.complete) {
+          result.stoppedReason = servicePages.state.stoppedReason;
+          break;
+        }
+
+        // Single-client responses may omit ClientID; rows that cannot be
+        // attributed are dropped rather than guessed
+        const serviceRecords = services.flatMap((service) => {
+          const clientId = service.ClientID ?? (batch.length === 1 ? batch[0] : undefined);
+          return clientId ? [transformClientService(service, clientId)] : [];
+        });
+        this.db.saveClientServices(batch, serviceRecords);
+        result.fetched += services.length;
+        result.saved += serviceRecords.length;
+
+        for (const clientId of batch) {
+          if (includeContracts) {
+            const contractPages = this.apiClient.paginateClientContracts({ clientId }, pageOptions);
+            const contracts: ClientContract[] = [];
+            for await (const page of contractPages) {
+              result.apiCalls++;
+              contracts.push(...page.items);
+            }
+            if (!contractPages.state.complete) {
+              result.stoppedReason = contractPages.state.stoppedReason;
+              break batches;
+            }
+
+            this.db.saveClientContracts(
+              clientId,
+              contracts.map((contract) => transformClientContract(contract, clientId))
+            );
+            result.fetched += contracts.length;
+            result.saved += contracts.length;
+          }
+          result.clientsSynced.push(clientId);
+        }
+      }
+
+      result.complete = result.stoppedReason === undefined;
+
+      this.logResult(result, `Synced memberships for ${result.clientsSynced.length} clients`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync the pricing option catalog, plus the contract catalog of a
+   * location (/sale/contracts requires a LocationId)
+   */
+  async syncMembershipCatalog(options: {
+    locationId?: string;
+    force?: boolean;
+  } = {}): Promise<SyncResult> {
+    const operation = "sync_membership_catalog";
+    const result: SyncResult = {
+      operation,
+      fetched: 0,
+      saved: 0,
+      apiCalls: 0,
+      complete: false,
+    };
+    const rateLimitGuard = this.apiClient.getRateLimitGuard();
+    const reserveCalls = Math.ceil(rateLimitGuard.getUsageStats().limit * SYNC_RESERVE_RATIO);
+    const pageOptions = { pageSize: PAGE_SIZE, reserveCalls, force: options.force };
+
+    try {
+      const servicePages = this.apiClient.paginateServices({}, pageOptions);
+      const services: MindbodyService[] = [];
+      for await (const page of servicePages) {
+        result.apiCalls++;
+        services.push(...page.items);
+      }
+      result.fetched += services.length;
+      this.db.saveServices(services);
+      result.saved += services.length;
+      result.stoppedReason = servicePages.state.stoppedReason;
+
+      if (options.locationId && servicePages.state.complete) {
+        const contractPages = this.apiClient.paginateContracts({ locationId: options.locationId }, pageOptions);
+        const contracts: MindbodyContract[] = [];
+        for await (const page of contractPages) {
+          result.apiCalls++;
+          contracts.push(...page.items);
+        }
+        result.fetched += contracts.length;
+        this.db.saveContracts(contracts);
+        result.saved += contracts.length;
+        result.stoppedReason = contractPages.state.stoppedReason;
+      }
+
+      result.complete = result.stoppedReason === undefined;
+
+      this.logResult(result, `Synced ${result.saved} catalog entries`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  /**
+   * When a reference list was last fully downloaded, and whether that is
+   * older than maxAgeHours
+   */
+  getSiteReferenceStatus(
+    kind: SiteReferenceKind,
+    maxAgeHours = SITE_REFERENCE_TTL_HOURS
+  ): { lastRefreshed: string | null; stale: boolean } {
+    const lastRefreshed = this.db.getSyncWatermark(`site:${kind}`)?.highWaterMark ?? null;
+    const stale = lastRefreshed === null ||
+      Date.now() - new Date(lastRefreshed).getTime() >= maxAgeHours * 60 * 60 * 1000;
+
+    return { lastRefreshed, stale };
+  }
+
+  /**
+   * Refresh site reference lists older than maxAgeHours
+   *
+   * Each list is downloaded in full and swapped in only once complete, so an
+   * interrupted refresh leaves the previous copy in place. No cursor is kept:
+   * the lists are a page or two at most.
+   */
+  async syncSiteReference(options: {
+    kinds?: SiteReferenceKind[];
+    maxAgeHours?: number;
+    force?: boolean;
+  } = {}): Promise<SyncResult & { refreshed: SiteReferenceKind[]; fresh: SiteReferenceKind[] }> {
+    const operation = "sync_site_reference";
+    const result: SyncResult & { refreshed: SiteReferenceKind[]; fresh: SiteReferenceKind[] } = {
+      operation,
+      fetched: 0,
+      saved: 0,
+      apiCalls: 0,
+      complete: false,
+      refreshed: [],
+      fresh: [],
+    };
+    const { limit } = this.apiClient.getRateLimitGuard().getUsageStats();
+
+    try {
+      for (const kind of options.kinds ?? SITE_REFERENCE_KINDS) {
+        if (!this.getSiteReferenceStatus(kind, options.maxAgeHours).stale) {
+          result.fresh.push(kind);
+          continue;
+        }
+
+        const watermarkKey = `site:${kind}`;
+        this.db.beginSyncWatermark(watermarkKey, new Date().toISOString());
+        const pages = this.apiClient.paginateSiteReference(kind, {
+          pageSize: PAGE_SIZE,
+          reserveCalls: Math.ceil(limit * SYNC_RESERVE_RATIO),
+          force: options.force,
+        });
+        const items: SiteReferenceItem[] = [];
+
+        for await (const page of pages) {
+          result.apiCalls++;
+          result.fetched += page.items.length;
+          items.push(...page.items);
+        }
+
+        if (!pages.state.complete) {
+          result.stoppedReason = `${kind}: ${pages.state.stoppedReason}`;
+          break;
+        }
+
+        this.db.replaceSiteReference(kind, items.map(transformSiteReference));
+        this.db.commitSyncWatermark(watermarkKey);
+        result.saved += items.length;
+        result.refreshed.push(kind);
+      }
+
+      result.complete = result.stoppedReason === undefined;
+
+      this.logResult(result, `Refreshed ${result.refreshed.length} reference lists (${result.saved} rows)`);
+      return result;
+    } catch (error) {
+      this.logError(operation, error, result);
+      throw error;
+    }
+  }
+
+  /**
+   * Pagination settings for sync runs: keep a reserve of the daily budget
+   * for interactive tool calls, and checkpoint progress under cursorKey
+   */
+  private paginateOptions(cursorKey: string, force?: boolean): PaginateOptions {
+    const { limit } = this.apiClient.getRateLimitGuard().getUsageStats();
+
+    return {
+      pageSize: PAGE_SIZE,
+      cursorKey,
+      cursorStore: this.db,
+      reserveCalls: Math.ceil(limit * SYNC_RESERVE_RATIO),
+      force,
+    };
+  }
+
+  private logResult(result: SyncResult, message: string): void {
+    const { operation, fetched, saved, apiCalls, complete, stoppedReason, resumedFrom, since } = result;
+
+    this.db.addSyncLog({
+      operation,
+      status: complete ? "success" : "warning",
+      message: complete ? message : `${message} (incomplete: ${stoppedReason})`,
+      details: { fetched, saved, apiCalls, complete, stoppedReason, resumedFrom, since },
+    });
+  }
+
+  private logError(operation: string, error: unknown, result: SyncResult): void {
+    this.db.addSyncLog({
+      operation,
+      status: "error",
+      message: error instanceof Error ? error.message : String(error),
+      details: { fetched: result.fetched, saved: result.saved, apiCalls: result.apiCalls },
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { Config } from "../config.js";
+import type { DatabaseClient } from "../db/client.js";
+
+const TOKEN_KEY_FILE = ".token-key";
+const CIPHER = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface StoredToken {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date;
+}
+
+/**
+ * 32-byte key for TokenStore
+ *
+ * Derived from TOKEN_ENCRYPTION_KEY when set; otherwise a random key is
+ * generated once into DATA_DIR/.token-key (mode 0600) and reused.
+ */
+export function resolveTokenKey(config: Config): Buffer {
+  if (config.TOKEN_ENCRYPTION_KEY) {
+    return createHash("sha256").update(config.TOKEN_ENCRYPTION_KEY).digest();
+  }
+
+  const path = join(config.DATA_DIR, TOKEN_KEY_FILE);
+  if (existsSync(path)) {
+    return Buffer.from(readFileSync(path, "utf-8").trim(), "hex");
+  }
+
+  const key = randomBytes(32);
+  writeFileSync(path, key.toString("hex"), { mode: 0o600 });
+  return key;
+}
+
+/**
+ * Encrypted token persistence on top of the auth_tokens table
+ *
+ * Tokens survive restarts, so a staff token is renewed rather than
+ * re-issued with the password, and client users stay authorized. Values
+ * are AES-256-GCM encrypted; a row that no longer decrypts (e.g. after
+ * the key changed) is treated as missing.
+ */
+export class TokenStore {
+  constructor(private db: DatabaseClient, private key: Buffer) {}
+
+  save(subject: string, token: StoredToken): void {
+    this.db.saveAuthToken(subject, {
+      accessToken: this.encrypt(token.accessToken),
+      refreshToken: token.refreshToken === null ? null : this.encrypt(token.refreshToken),
+      expiresAt: token.expiresAt.toISOString(),
+    });
+  }
+
+  load(subject: string): StoredToken | null {
+    const row = this.db.getAuthToken(subject);
+    if (!row) {
+      return null;
+    }
+
+    try {
+      return {
+        accessToken: this.decrypt(row.accessToken),
+        refreshToken: row.refreshToken === null ? null : this.decrypt(row.refreshToken),
+        expiresAt: new Date(row.expiresAt),
+      };
+    } catch (error) {
+      console.error(`[TokenStore] Could not decrypt the stored ${subject} token; ignoring it:`, error);
+      return null;
+    }
+  }
+
+  delete(subject: string): void {
+    this.db.deleteAuthToken(subject);
+  }
+
+  private encrypt(value: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(CIPHER, this.key, iv);
+    const encrypted = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64");
+  }
+
+  private decrypt(value: string): string {
+    const data = Buffer.from(value, "base64");
+    const decipher = createDecipheriv(CIPHER, this.key, data.subarray(0, IV_BYTES));
+    decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString("utf-8");
+  }
+}
@@ -70,6 +70,66 @@ export const PaginatedAppointmentResponseSchema = z.object({
   }).optional(),
 });
 
+/**
+ * Actions /appointment/addappointment and /appointment/updateappointment
+ * accept in Execute
+ */
+export const AppointmentExecuteSchema = z.enum([
+  "confirm",
+  "unconfirm",
+  "arrive",
+  "unarrive",
+  "cancel",
+  "latecancel",
+  "complete",
+]);
+
+/**
+ * Zod schema for MinBody API AddAppointmentRequest
+ *
+ * Mirrors `AddAppointmentRequest` in api-specs/mindbody-api-types.ts, less
+ * Test (set from the dryRun flag) and AddAppointmentRequestId (bulk only).
+ */
+export const AddAppointmentRequestSchema = z.object({
+  ClientId: z.string().min(1),
+  LocationId: z.number().int(),
+  SessionTypeId: z.number().int(),
+  StaffId: z.number().int(),
+  StartDateTime: z.string().min(1),
+  EndDateTime: z.string().optional(),
+  Duration: z.number().int().positive().optional(),
+  ApplyPayment: z.boolean().optional(),
+  Execute: AppointmentExecuteSchema.optional(),
+  GenderPreference: z.string().optional(),
+  IsRequest: z.boolean().optional(),
+  IsWaitlist: z.boolean().optional(),
+  Notes: z.string().optional(),
+  PartnerExternalId: z.string().optional(),
+  ProviderId: z.string().optional(),
+  ResourceIds: z.array(z.number().int()).optional(),
+  SendEmail: z.boolean().optional(),
+  StaffRequested: z.boolean().optional(),
+}).strict();
+
+/**
+ * Zod schema for MinBody API UpdateAppointmentRequest, less AppointmentId
+ * (passed separately) and Test
+ */
+export const UpdateAppointmentRequestSchema = z.object({
+  StartDateTime: z.string().min(1).optional(),
+  EndDateTime: z.string().optional(),
+  StaffId: z.number().int().optional(),
+  SessionTypeId: z.number().int().optional(),
+  ApplyPayment: z.boolean().optional(),
+  Execute: AppointmentExecuteSchema.optional(),
+  GenderPreference: z.string().optional(),
+  Notes: z.string().optional(),
+  PartnerExternalId: z.string().optional(),
+  ProviderId: z.string().optional(),
+  ResourceIds: z.array(z.number().int()).optional(),
+  SendEmail: z.boolean().optional(),
+}).strict();
+
 // ============================================================================
 // TypeScript Interfaces
 // ============================================================================
@@ -148,6 +208,18 @@ export interface MindbodyAppointment {
   }>;
 }
 
+export type AppointmentExecute = z.infer<typeof AppointmentExecuteSchema>;
+export type AddAppointmentRequest = z.infer<typeof AddAppointmentRequestSchema>;
+export type UpdateAppointmentRequest = z.infer<typeof UpdateAppointmentRequestSchema>;
+
+/**
+ * Response of /appointment/addappointment and /appointment/updateappointment;
+ * with Test set, Appointment is what would have been written
+ */
+export interface AppointmentWriteResponse {
+  Appointment: MindbodyAppointment;
+}
+
 export interface Appointment {
   id: string;
   startDateTime: string;
@@ -0,0 +1,57 @@
+// ============================================================================
+// TypeScript Interfaces
+// ============================================================================
+
+/**
+ * Key points:
+ * - Every non-GET, non-Test request is rated by ApprovalGate.assess
+ *   (services/approvalGate.ts); ratings at or above
+ *   APPROVAL_RISK_THRESHOLD are staged instead of sent
+ * - A staged action runs only through approve_action with its token, and
+ *   only with the exact method, endpoint, params, body and request options
+ *   (undo target, acting client, idempotency key) it was staged with
+ * - A pending action whose expiresAt has passed can no longer be approved
+ * - Approval claims the action (status "executing") before the request is
+ *   sent, so a token runs its write at most once
+ */
+export type RiskLevel = "low" | "medium" | "high";
+
+export type PendingActionStatus = "pending" | "executing" | "executed" | "failed";
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  reasons: string[];
+  recordCount: number;
+}
+
+/**
+ * The write a pending action will send once approved
+ */
+export interface GatedRequest {
+  method: string;
+  endpoint: string;
+  params?: Record<string, unknown>;
+  body?: unknown;
+  /** Request options replayed with it (see MindbodyRequestOptions) */
+  undoOf?: number;
+  actingClientId?: string;
+  idempotencyKey?: string;
+}
+
+export interface PendingAction extends Required<Pick<GatedRequest, "method" | "endpoint">> {
+  id: number;
+  token: string;
+  params: Record<string, unknown> | null;
+  body: unknown;
+  undoOf: number | null;
+  actingClientId: string | null;
+  idempotencyKey: string | null;
+  riskLevel: RiskLevel;
+  reasons: string[];
+  recordCount: number;
+  status: PendingActionStatus;
+  error: string | null;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
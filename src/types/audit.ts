@@ -0,0 +1,33 @@
+// ============================================================================
+// TypeScript Interfaces
+// ============================================================================
+
+/**
+ * Key points:
+ * - Every non-GET request is journaled; entity fields are only known for
+ *   the endpoints in AUDITED_ENTITIES (services/auditJournal.ts)
+ * - beforeSource says where the snapshot came from: "live" (fetched just
+ *   before the write), "cache" (the local mirror) or null (none found)
+ * - test marks Mindbody Test-mode calls, which change nothing
+ */
+export type AuditEntityType = "client" | "appointment";
+
+export type AuditStatus = "pending" | "success" | "error";
+
+export interface AuditEntry {
+  id: number;
+  endpoint: string;
+  entityType: AuditEntityType | null;
+  entityId: string | null;
+  beforeState: unknown;
+  beforeSource: "live" | "cache" | null;
+  requestBody: unknown;
+  responseBody: unknown;
+  status: AuditStatus;
+  error: string | null;
+  test: boolean;
+  undoOf: number | null;
+  undoneBy: number | null;
+  createdAt: string;
+  completedAt: string | null;
+}
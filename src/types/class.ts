@@ -0,0 +1,290 @@
+import { z } from "zod";
+
+// ============================================================================
+// Runtime Validation Schemas (Zod)
+// ============================================================================
+
+const PaginationResponseSchema = z.object({
+  RequestedLimit: z.number(),
+  RequestedOffset: z.number(),
+  PageSize: z.number(),
+  TotalResults: z.number(),
+});
+
+/**
+ * Zod schema for MinBody API ClassDescription
+ */
+export const MindbodyClassDescriptionSchema = z.object({
+  Id: z.number(),
+  Name: z.string().optional(),
+  Description: z.string().optional(),
+  Active: z.boolean().optional(),
+  ImageURL: z.string().nullable().optional(),
+  LastUpdated: z.string().optional(),
+  Notes: z.string().nullable().optional(),
+  Prereq: z.string().nullable().optional(),
+  Category: z.string().nullable().optional(),
+  CategoryId: z.number().nullable().optional(),
+  Subcategory: z.string().nullable().optional(),
+  SubcategoryId: z.number().nullable().optional(),
+  Program: z.object({
+    Id: z.number(),
+    Name: z.string().optional(),
+  }).optional(),
+  SessionType: z.object({
+    Id: z.number(),
+    Name: z.string().optional(),
+  }).optional(),
+});
+
+/**
+ * Zod schema for MinBody API Visit (a client's booking in a class)
+ */
+export const MindbodyVisitSchema = z.object({
+  Id: z.number(),
+  ClassId: z.number().optional(),
+  ClientId: z.string().optional(),
+  StartDateTime: z.string().optional(),
+  EndDateTime: z.string().optional(),
+  LastModifiedDateTime: z.string().optional(),
+  LateCancelled: z.boolean().optional(),
+  LocationId: z.number().optional(),
+  MakeUp: z.boolean().optional(),
+  Missed: z.boolean().optional(),
+  Name: z.string().optional(),
+  ServiceId: z.number().nullable().optional(),
+  ServiceName: z.string().nullable().optional(),
+  SignedIn: z.boolean().optional(),
+  StaffId: z.number().optional(),
+  WebSignup: z.boolean().optional(),
+  Action: z.string().optional(),
+});
+
+/**
+ * Zod schema for MinBody API Class (a scheduled class instance)
+ */
+export const MindbodyClassSchema = z.object({
+  Id: z.number(),
+  ClassScheduleId: z.number().optional(),
+  StartDateTime: z.string(),
+  EndDateTime: z.string(),
+  LastModifiedDateTime: z.string().optional(),
+  ClassDescription: MindbodyClassDescriptionSchema.optional(),
+  Staff: z.object({
+    Id: z.number(),
+    FirstName: z.string().optional(),
+    LastName: z.string().optional(),
+    DisplayName: z.string().nullable().optional(),
+  }).optional(),
+  Location: z.object({
+    Id: z.number(),
+    Name: z.string().optional(),
+  }).optional(),
+  MaxCapacity: z.number().optional(),
+  WebCapacity: z.number().optional(),
+  TotalBooked: z.number().optional(),
+  TotalSignedIn: z.number().optional(),
+  TotalBookedWaitlist: z.number().optional(),
+  WebBooked: z.number().optional(),
+  WaitListSize: z.number().optional(),
+  IsCanceled: z.boolean().optional(),
+  Substitute: z.boolean().optional(),
+  Active: z.boolean().optional(),
+  IsAvailable: z.boolean().optional(),
+  IsWaitlistAvailable: z.boolean().optional(),
+  BookingStatus: z.string().optional(),
+  ClassNotes: z.string().nullable().optional(),
+  Visits: z.array(MindbodyVisitSchema).optional(),
+});
+
+/**
+ * Zod schema for MinBody API WaitlistEntry
+ */
+export const MindbodyWaitlistEntrySchema = z.object({
+  Id: z.number(),
+  ClassId: z.number().optional(),
+  ClassDate: z.string().optional(),
+  RequestDateTime: z.string().optional(),
+  EnrollmentDateForward: z.string().nullable().optional(),
+  VisitRefNo: z.number().nullable().optional(),
+  Web: z.boolean().optional(),
+  Client: z.object({
+    Id: z.string(),
+    FirstName: z.string().optional(),
+    LastName: z.string().optional(),
+  }).passthrough().optional(),
+});
+
+export const PaginatedClassResponseSchema = z.object({
+  Classes: z.array(MindbodyClassSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+export const PaginatedClassDescriptionResponseSchema = z.object({
+  ClassDescriptions: z.array(MindbodyClassDescriptionSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+export const ClassVisitsResponseSchema = z.object({
+  Class: MindbodyClassSchema,
+});
+
+export const PaginatedWaitlistEntryResponseSchema = z.object({
+  WaitlistEntries: z.array(MindbodyWaitlistEntrySchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+// ============================================================================
+// TypeScript Interfaces
+// ============================================================================
+
+/**
+ * MinBody API class types (Official Schema)
+ *
+ * Key points:
+ * - Class, ClassDescription, Staff and Location IDs are NUMBERS
+ * - Visit IDs are int64 NUMBERS; ClientId is a STRING (RSSID format)
+ * - Visits are reliably populated only by /class/classvisits
+ */
+export type MindbodyClassDescription = z.infer<typeof MindbodyClassDescriptionSchema>;
+export type MindbodyVisit = z.infer<typeof MindbodyVisitSchema>;
+export type MindbodyClass = z.infer<typeof MindbodyClassSchema>;
+export type MindbodyWaitlistEntry = z.infer<typeof MindbodyWaitlistEntrySchema>;
+
+export type PaginatedClassResponse = z.infer<typeof PaginatedClassResponseSchema>;
+export type PaginatedClassDescriptionResponse = z.infer<typeof PaginatedClassDescriptionResponseSchema>;
+export type ClassVisitsResponse = z.infer<typeof ClassVisitsResponseSchema>;
+export type PaginatedWaitlistEntryResponse = z.infer<typeof PaginatedWaitlistEntryResponseSchema>;
+
+export interface ClassRecord {
+  id: string;
+  classScheduleId: string | null;
+  classDescriptionId: string | null;
+  name: string | null;
+  startDateTime: string;
+  endDateTime: string;
+  staffId: string | null;
+  locationId: string | null;
+  isCanceled: boolean;
+  maxCapacity: number | null;
+  totalBooked: number | null;
+  rawData: MindbodyClass;
+  lastSyncedAt: string;
+}
+
+export interface ClassVisit {
+  id: string;
+  classId: string | null;
+  clientId: string | null;
+  startDateTime: string | null;
+  signedIn: boolean;
+  lateCancelled: boolean;
+  missed: boolean;
+  serviceId: string | null;
+  rawData: MindbodyVisit;
+  lastSyncedAt: string;
+}
+
+export const GetClassesParamsSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+  classDescriptionIds: z.array(z.string()).optional(),
+  staffIds: z.array(z.string()).optional(),
+  locationIds: z.array(z.string()).optional(),
+  hideCanceledClasses: z.boolean().optional(),
+  limit: z.number().min(1).max(200).default(100),
+  offset: z.number().min(0).default(0),
+  force: z.boolean().default(false),
+});
+
+export type GetClassesParams = z.infer<typeof GetClassesParamsSchema>;
+
+export function transformClass(mbClass: MindbodyClass): ClassRecord {
+  return {
+    id: mbClass.Id.toString(),
+    classScheduleId: mbClass.ClassScheduleId?.toString() ?? null,
+    classDescriptionId: mbClass.ClassDescription?.Id.toString() ?? null,
+    name: mbClass.ClassDescription?.Name ?? null,
+    startDateTime: mbClass.StartDateTime,
+    endDateTime: mbClass.EndDateTime,
+    staffId: mbClass.Staff?.Id.toString() ?? null,
+    locationId: mbClass.Location?.Id.toString() ?? null,
+    isCanceled: mbClass.IsCanceled ?? false,
+    maxCapacity: mbClass.MaxCapacity ?? null,
+    totalBooked: mbClass.TotalBooked ?? null,
+    rawData: mbClass,
+    lastSyncedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Transform a visit; classId falls back to the class it was fetched with,
+ * since some sites omit ClassId on nested visits
+ */
+export function transformClassVisit(mbVisit: MindbodyVisit, classId?: string): ClassVisit {
+  return {
+    id: mbVisit.Id.toString(),
+    classId: mbVisit.ClassId?.toString() ?? classId ?? null,
+    clientId: mbVisit.ClientId ?? null,
+    startDateTime: mbVisit.StartDateTime ?? null,
+    signedIn: mbVisit.SignedIn ?? false,
+    lateCancelled: mbVisit.LateCancelled ?? false,
+    missed: mbVisit.Missed ?? false,
+    serviceId: mbVisit.ServiceId?.toString() ?? null,
+    rawData: mbVisit,
+    lastSyncedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Runtime Validation Helpers
+// ============================================================================
+
+/**
+ * Validate a class schedule response from the MinBody API
+ *
+ * Logs and returns false on mismatch so callers can flag schema changes
+ * without failing the sync.
+ */
+export function validateClassResponse(
+  response: unknown,
+  options: { throwOnError?: boolean; logErrors?: boolean } = {}
+): response is PaginatedClassResponse {
+  const { throwOnError = false, logErrors = true } = options;
+
+  try {
+    PaginatedClassResponseSchema.parse(response);
+    return true;
+  } catch (error) {
+    if (logErrors) {
+      console.error("[MinBody API Validation Error] Class response schema mismatch:", error);
+    }
+    if (throwOnError) {
+      throw error;
+    }
+    return false;
+  }
+}
+
+/**
+ * Validate a class visits response from the MinBody API
+ */
+export function validateClassVisitsResponse(
+  response: unknown,
+  options: { throwOnError?: boolean; logErrors?: boolean } = {}
+): response is ClassVisitsResponse {
+  const { throwOnError = false, logErrors = true } = options;
+
+  try {
+    ClassVisitsResponseSchema.parse(response);
+    return true;
+  } catch (error) {
+    if (logErrors) {
+      console.error("[MinBody API Validation Error] Class visits response schema mismatch:", error);
+    }
+    if (throwOnError) {
+      throw error;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+// ============================================================================
+// Runtime Validation Schemas (Zod)
+// ============================================================================
+
+/**
+ * Zod schema for MinBody API AddClientRequest
+ *
+ * Only FirstName and LastName are always required; a site can make other
+ * fields mandatory (GetRequiredClientFields), so unknown keys pass through
+ * for Mindbody to validate. Test is set from the dryRun flag.
+ */
+export const AddClientRequestSchema = z.object({
+  FirstName: z.string().trim().min(1),
+  LastName: z.string().trim().min(1),
+  MiddleName: z.string().optional(),
+  Email: z.string().email().optional(),
+  MobilePhone: z.string().optional(),
+  HomePhone: z.string().optional(),
+  WorkPhone: z.string().optional(),
+  BirthDate: z.string().optional(),
+  Gender: z.string().optional(),
+  AddressLine1: z.string().optional(),
+  AddressLine2: z.string().optional(),
+  City: z.string().optional(),
+  State: z.string().optional(),
+  PostalCode: z.string().optional(),
+  Country: z.string().optional(),
+  ReferredBy: z.string().optional(),
+  IsProspect: z.boolean().optional(),
+  SendAccountEmails: z.boolean().optional(),
+  SendPromotionalEmails: z.boolean().optional(),
+}).passthrough();
+
+// ============================================================================
+// TypeScript Interfaces
+// ============================================================================
+
+/**
+ * Key points:
+ * - Client IDs are STRINGS (RSSID) in the API and in SQLite
+ * - Phones are not columns on `clients`; they are read from raw_data
+ *   (MobilePhone, HomePhone, WorkPhone)
+ */
+export type AddClientRequest = z.infer<typeof AddClientRequestSchema>;
+
+export type ClientMatchKey = "email" | "name" | "phone";
+
+/**
+ * What a new client is checked against before it is created
+ */
+export interface ClientMatchProbe {
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  phones?: Array<string | null | undefined>;
+}
+
+/**
+ * A cached client that shares at least one match key with a probe,
+ * strongest matches first
+ */
+export interface ClientDuplicateCandidate {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  status: string | null;
+  phones: string[];
+  matchedOn: ClientMatchKey[];
+}
+
+const PHONE_FIELDS = ["MobilePhone", "HomePhone", "WorkPhone"] as const;
+
+/**
+ * Shortest digit string treated as a phone number; anything shorter is
+ * too likely to collide
+ */
+const MIN_PHONE_DIGITS = 7;
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized ? normalized : null;
+}
+
+/**
+ * "first last", lowercased with accents and punctuation removed, so
+ * "José  O'Neil" and "jose oneil" compare equal
+ */
+export function normalizeName(
+  firstName: string | null | undefined,
+  lastName: string | null | undefined
+): string | null {
+  const part = (value: string | null | undefined) =>
+    (value ?? "")
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+
+  const first = part(firstName);
+  const last = part(lastName);
+  return first && last ? `${first} ${last}` : null;
+}
+
+/**
+ * Digits only, keeping the last ten so a country code prefix still
+ * matches a local number
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-10) : null;
+}
+
+/**
+ * Non-empty phone numbers on a raw Mindbody client payload
+ */
+export function clientPhones(rawData: unknown): string[] {
+  if (!rawData || typeof rawData !== "object") {
+    return [];
+  }
+  const record = rawData as Record<string, unknown>;
+  return PHONE_FIELDS
+    .map((field) => record[field])
+    .filter((phone): phone is string => typeof phone === "string" && phone.trim() !== "");
+}
@@ -0,0 +1,211 @@
+import { z } from "zod";
+
+// ============================================================================
+// Runtime Validation Schemas (Zod)
+// ============================================================================
+
+const PaginationResponseSchema = z.object({
+  RequestedLimit: z.number(),
+  RequestedOffset: z.number(),
+  PageSize: z.number(),
+  TotalResults: z.number(),
+});
+
+/**
+ * Zod schema for MinBody API ClientContract (a client's membership or
+ * autopay agreement)
+ */
+export const ClientContractSchema = z.object({
+  Id: z.number(),
+  ContractID: z.number().optional(),
+  ContractName: z.string().nullable().optional(),
+  AgreementDate: z.string().nullable().optional(),
+  StartDate: z.string().nullable().optional(),
+  EndDate: z.string().nullable().optional(),
+  TerminationDate: z.string().nullable().optional(),
+  AutopayStatus: z.string().nullable().optional(),
+  AutoRenewing: z.boolean().optional(),
+  IsMonthToMonth: z.boolean().optional(),
+  NormalAutoPay: z.number().nullable().optional(),
+  PayerClientId: z.number().nullable().optional(),
+  OriginationLocationId: z.number().nullable().optional(),
+  SiteId: z.number().optional(),
+});
+
+/**
+ * Zod schema for MinBody API ClientService (a pricing option a client
+ * owns, with its remaining session count)
+ */
+export const ClientServiceSchema = z.object({
+  Id: z.number(),
+  ClientID: z.string().optional(),
+  ProductId: z.number().nullable().optional(),
+  Name: z.string().nullable().optional(),
+  Program: z.object({
+    Id: z.number(),
+    Name: z.string().optional(),
+  }).passthrough().nullable().optional(),
+  PaymentDate: z.string().nullable().optional(),
+  ActiveDate: z.string().nullable().optional(),
+  ExpirationDate: z.string().nullable().optional(),
+  Count: z.number().nullable().optional(),
+  Remaining: z.number().nullable().optional(),
+  Current: z.boolean().optional(),
+  Returned: z.boolean().optional(),
+  SiteId: z.number().optional(),
+});
+
+/**
+ * Zod schema for MinBody API Contract (a contract template sold at a location)
+ */
+export const MindbodyContractSchema = z.object({
+  Id: z.number(),
+  Name: z.string().optional(),
+  Description: z.string().nullable().optional(),
+  AssignsMembershipId: z.number().nullable().optional(),
+  AssignsMembershipName: z.string().nullable().optional(),
+  SoldOnline: z.boolean().optional(),
+  AutopayEnabled: z.boolean().optional(),
+  NumberOfAutopays: z.number().nullable().optional(),
+  RecurringPaymentAmountTotal: z.number().nullable().optional(),
+  TotalContractAmountTotal: z.number().nullable().optional(),
+});
+
+/**
+ * Zod schema for MinBody API Service (a pricing option for sale). Unlike
+ * most catalog IDs, Service.Id is a STRING.
+ */
+export const MindbodyServiceSchema = z.object({
+  Id: z.string(),
+  Name: z.string().optional(),
+  ProgramId: z.number().nullable().optional(),
+  ProductId: z.number().nullable().optional(),
+  Price: z.number().nullable().optional(),
+  OnlinePrice: z.number().nullable().optional(),
+  Count: z.number().nullable().optional(),
+  Type: z.string().nullable().optional(),
+  ExpirationType: z.string().nullable().optional(),
+  ExpirationUnit: z.string().nullable().optional(),
+  ExpirationLength: z.number().nullable().optional(),
+  MembershipId: z.number().nullable().optional(),
+  Discontinued: z.boolean().optional(),
+});
+
+export const PaginatedClientContractResponseSchema = z.object({
+  Contracts: z.array(ClientContractSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+export const PaginatedClientServiceResponseSchema = z.object({
+  ClientServices: z.array(ClientServiceSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+export const PaginatedContractResponseSchema = z.object({
+  Contracts: z.array(MindbodyContractSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+export const PaginatedServiceResponseSchema = z.object({
+  Services: z.array(MindbodyServiceSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+// ============================================================================
+// TypeScript Interfaces
+// ============================================================================
+
+/**
+ * Key points:
+ * - /client/clientcontracts takes a single client ID per call;
+ *   /client/clientservices accepts a list
+ * - Both return the client's full history, so stored rows are replaced
+ *   per client on each sync
+ */
+export type ClientContract = z.infer<typeof ClientContractSchema>;
+export type ClientService = z.infer<typeof ClientServiceSchema>;
+export type MindbodyContract = z.infer<typeof MindbodyContractSchema>;
+export type MindbodyService = z.infer<typeof MindbodyServiceSchema>;
+
+export type PaginatedClientContractResponse = z.infer<typeof PaginatedClientContractResponseSchema>;
+export type PaginatedClientServiceResponse = z.infer<typeof PaginatedClientServiceResponseSchema>;
+export type PaginatedContractResponse = z.infer<typeof PaginatedContractResponseSchema>;
+export type PaginatedServiceResponse = z.infer<typeof PaginatedServiceResponseSchema>;
+
+export interface ClientContractRecord {
+  id: string;
+  clientId: string;
+  contractId: string | null;
+  name: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  terminationDate: string | null;
+  autopayStatus: string | null;
+  autoRenewing: boolean;
+  rawData: ClientContract;
+}
+
+export interface ClientServiceRecord {
+  id: string;
+  clientId: string;
+  productId: string | null;
+  name: string | null;
+  programId: string | null;
+  activeDate: string | null;
+  expirationDate: string | null;
+  count: number | null;
+  remaining: number | null;
+  current: boolean;
+  returned: boolean;
+  rawData: ClientService;
+}
+
+/**
+ * A client's active contracts and pricing options, with the visits left
+ * across those options
+ */
+export interface ClientMembershipSummary {
+  clientId: string;
+  firstName: string | null;
+  lastName: string | null;
+  activeContracts: ClientContractRecord[];
+  activeServices: ClientServiceRecord[];
+  remainingVisits: number;
+}
+
+export function transformClientContract(contract: ClientContract, clientId: string): ClientContractRecord {
+  return {
+    id: contract.Id.toString(),
+    clientId,
+    contractId: contract.ContractID?.toString() ?? null,
+    name: contract.ContractName ?? null,
+    startDate: contract.StartDate ?? null,
+    endDate: contract.EndDate ?? null,
+    terminationDate: contract.TerminationDate ?? null,
+    autopayStatus: contract.AutopayStatus ?? null,
+    autoRenewing: contract.AutoRenewing ?? false,
+    rawData: contract,
+  };
+}
+
+/**
+ * Transform a client service; clientId is the owning client, which callers
+ * resolve from ClientID (or the request) since single-client responses may
+ * omit it
+ */
+export function transformClientService(service: ClientService, clientId: string): ClientServiceRecord {
+  return {
+    id: service.Id.toString(),
+    clientId,
+    productId: service.ProductId?.toString() ?? null,
+    name: service.Name ?? null,
+    programId: service.Program?.Id.toString() ?? null,
+    activeDate: service.ActiveDate ?? null,
+    expirationDate: service.ExpirationDate ?? null,
+    count: service.Count ?? null,
+    remaining: service.Remaining ?? null,
+    current: service.Current ?? false,
+    returned: service.Returned ?? false,
+    rawData: service,
+  };
+}
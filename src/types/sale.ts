@@ -0,0 +1,225 @@
+import { z } from "zod";
+import type { MindbodySale } from "../services/mindbody.js";
+
+// ============================================================================
+// Runtime Validation Schemas (Zod)
+// ============================================================================
+
+const PaginationResponseSchema = z.object({
+  RequestedLimit: z.number(),
+  RequestedOffset: z.number(),
+  PageSize: z.number(),
+  TotalResults: z.number(),
+});
+
+/**
+ * Zod schema for MinBody API PurchasedItem (one line of a sale)
+ */
+export const PurchasedItemSchema = z.object({
+  SaleDetailId: z.number().optional(),
+  Id: z.number().optional(),
+  IsService: z.boolean().optional(),
+  BarcodeId: z.string().nullable().optional(),
+  Description: z.string().nullable().optional(),
+  ContractId: z.number().nullable().optional(),
+  CategoryId: z.number().nullable().optional(),
+  SubCategoryId: z.number().nullable().optional(),
+  UnitPrice: z.number().nullable().optional(),
+  Quantity: z.number().nullable().optional(),
+  DiscountPercent: z.number().nullable().optional(),
+  DiscountAmount: z.number().nullable().optional(),
+  Tax1: z.number().nullable().optional(),
+  Tax2: z.number().nullable().optional(),
+  Tax3: z.number().nullable().optional(),
+  Tax4: z.number().nullable().optional(),
+  Tax5: z.number().nullable().optional(),
+  TaxAmount: z.number().nullable().optional(),
+  TotalAmount: z.number().nullable().optional(),
+  Notes: z.string().nullable().optional(),
+  Returned: z.boolean().optional(),
+  PaymentRefId: z.number().nullable().optional(),
+});
+
+/**
+ * Zod schema for MinBody API SalePayment
+ */
+export const SalePaymentSchema = z.object({
+  Id: z.number().optional(),
+  Amount: z.number().nullable().optional(),
+  Method: z.number().nullable().optional(),
+  Type: z.string().nullable().optional(),
+  Notes: z.string().nullable().optional(),
+  TransactionId: z.number().nullable().optional(),
+});
+
+/**
+ * Zod schema for MinBody API Transaction (a card or ACH payment attempt)
+ */
+export const MindbodyTransactionSchema = z.object({
+  TransactionId: z.number(),
+  SaleId: z.number().nullable().optional(),
+  ClientId: z.number().nullable().optional(),
+  Amount: z.number().nullable().optional(),
+  Settled: z.boolean().optional(),
+  Status: z.string().nullable().optional(),
+  TransactionTime: z.string().nullable().optional(),
+  AuthTime: z.string().nullable().optional(),
+  LocationId: z.number().nullable().optional(),
+  MerchantId: z.string().nullable().optional(),
+  TerminalId: z.string().nullable().optional(),
+  CardType: z.string().nullable().optional(),
+  CCLastFour: z.string().nullable().optional(),
+  CCSwiped: z.boolean().optional(),
+  ACHLastFour: z.string().nullable().optional(),
+});
+
+export const PaginatedTransactionResponseSchema = z.object({
+  Transactions: z.array(MindbodyTransactionSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+// ============================================================================
+// TypeScript Interfaces
+// ============================================================================
+
+/**
+ * Key points:
+ * - PurchasedItems and Payments arrive nested in each /sale/sales result;
+ *   they are flattened into sale_items and sale_payments by line number
+ * - Transaction ClientId is an int here, unlike the string Sale ClientId
+ */
+export type PurchasedItem = z.infer<typeof PurchasedItemSchema>;
+export type SalePayment = z.infer<typeof SalePaymentSchema>;
+export type MindbodyTransaction = z.infer<typeof MindbodyTransactionSchema>;
+
+export type PaginatedTransactionResponse = z.infer<typeof PaginatedTransactionResponseSchema>;
+
+export interface SaleItemRecord {
+  saleId: string;
+  lineNumber: number;
+  itemId: string | null;
+  description: string | null;
+  isService: boolean;
+  quantity: number | null;
+  unitPrice: number | null;
+  discountAmount: number | null;
+  taxAmount: number | null;
+  totalAmount: number | null;
+  returned: boolean;
+  rawData: PurchasedItem;
+}
+
+export interface SalePaymentRecord {
+  saleId: string;
+  lineNumber: number;
+  paymentId: string | null;
+  amount: number | null;
+  method: string | null;
+  type: string | null;
+  transactionId: string | null;
+  rawData: SalePayment;
+}
+
+export interface SaleTransactionRecord {
+  id: string;
+  saleId: string | null;
+  clientId: string | null;
+  amount: number | null;
+  settled: boolean;
+  status: string | null;
+  transactionTime: string | null;
+  locationId: string | null;
+  cardType: string | null;
+  rawData: MindbodyTransaction;
+}
+
+/**
+ * Line items and payments of one sale, replaced together on each sync
+ */
+export interface SaleDetail {
+  saleId: string;
+  items: SaleItemRecord[];
+  payments: SalePaymentRecord[];
+}
+
+/**
+ * One sale's line items checked against its stored total
+ *
+ * status is "no_total" when the sale has no TotalAmount and "no_items"
+ * when no line items were stored for it.
+ */
+export interface SaleReconciliation {
+  saleId: string;
+  saleDate: string;
+  clientId: string | null;
+  totalAmount: number | null;
+  itemCount: number;
+  itemsTotal: number;
+  taxTotal: number;
+  paymentCount: number;
+  paymentsTotal: number;
+  difference: number | null;
+  status: "matched" | "mismatch" | "no_items" | "no_total";
+}
+
+/**
+ * Sum of PurchasedItem.TaxAmount, falling back to Tax1-Tax5 when a site
+ * only reports the breakdown
+ */
+function itemTax(item: PurchasedItem): number | null {
+  if (item.TaxAmount !== undefined && item.TaxAmount !== null) {
+    return item.TaxAmount;
+  }
+  const parts = [item.Tax1, item.Tax2, item.Tax3, item.Tax4, item.Tax5]
+    .filter((tax): tax is number => typeof tax === "number");
+  return parts.length > 0 ? parts.reduce((sum, tax) => sum + tax, 0) : null;
+}
+
+export function transformSaleDetail(sale: MindbodySale): SaleDetail {
+  const saleId = String(sale.Id);
+  const items = sale.PurchasedItems ?? [];
+  const payments = sale.Payments ?? [];
+
+  return {
+    saleId,
+    items: items.map((item, index) => ({
+      saleId,
+      lineNumber: index + 1,
+      itemId: item.Id?.toString() ?? null,
+      description: item.Description ?? null,
+      isService: item.IsService ?? false,
+      quantity: item.Quantity ?? null,
+      unitPrice: item.UnitPrice ?? null,
+      discountAmount: item.DiscountAmount ?? null,
+      taxAmount: itemTax(item),
+      totalAmount: item.TotalAmount ?? null,
+      returned: item.Returned ?? false,
+      rawData: item,
+    })),
+    payments: payments.map((payment, index) => ({
+      saleId,
+      lineNumber: index + 1,
+      paymentId: payment.Id?.toString() ?? null,
+      amount: payment.Amount ?? null,
+      method: payment.Method?.toString() ?? null,
+      type: payment.Type ?? null,
+      transactionId: payment.TransactionId?.toString() ?? null,
+      rawData: payment,
+    })),
+  };
+}
+
+export function transformTransaction(transaction: MindbodyTransaction): SaleTransactionRecord {
+  return {
+    id: transaction.TransactionId.toString(),
+    saleId: transaction.SaleId?.toString() ?? null,
+    clientId: transaction.ClientId?.toString() ?? null,
+    amount: transaction.Amount ?? null,
+    settled: transaction.Settled ?? false,
+    status: transaction.Status ?? null,
+    transactionTime: transaction.TransactionTime ?? null,
+    locationId: transaction.LocationId?.toString() ?? null,
+    cardType: transaction.CardType ?? null,
+    rawData: transaction,
+  };
+}
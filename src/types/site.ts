@@ -0,0 +1,177 @@
+import { z } from "zod";
+
+// ============================================================================
+// Runtime Validation Schemas (Zod)
+// ============================================================================
+
+const PaginationResponseSchema = z.object({
+  RequestedLimit: z.number(),
+  RequestedOffset: z.number(),
+  PageSize: z.number(),
+  TotalResults: z.number(),
+});
+
+/**
+ * Zod schema for MinBody API Site
+ */
+export const MindbodySiteSchema = z.object({
+  Id: z.number(),
+  Name: z.string().optional(),
+  Description: z.string().nullable().optional(),
+  ContactEmail: z.string().nullable().optional(),
+  LogoUrl: z.string().nullable().optional(),
+  PricingLevel: z.string().nullable().optional(),
+  CurrencyIsoCode: z.string().nullable().optional(),
+  CountryCode: z.string().nullable().optional(),
+  TimeZone: z.string().nullable().optional(),
+  TaxInclusivePrices: z.boolean().optional(),
+  PerStaffPricing: z.boolean().optional(),
+});
+
+/**
+ * Zod schema for MinBody API Location
+ */
+export const MindbodyLocationSchema = z.object({
+  Id: z.number(),
+  SiteID: z.number().optional(),
+  Name: z.string().optional(),
+  Description: z.string().nullable().optional(),
+  Address: z.string().nullable().optional(),
+  Address2: z.string().nullable().optional(),
+  City: z.string().nullable().optional(),
+  StateProvCode: z.string().nullable().optional(),
+  PostalCode: z.string().nullable().optional(),
+  Phone: z.string().nullable().optional(),
+  Latitude: z.number().nullable().optional(),
+  Longitude: z.number().nullable().optional(),
+  HasClasses: z.boolean().optional(),
+  Tax1: z.number().nullable().optional(),
+  Tax2: z.number().nullable().optional(),
+  Tax3: z.number().nullable().optional(),
+  Tax4: z.number().nullable().optional(),
+  Tax5: z.number().nullable().optional(),
+});
+
+/**
+ * Zod schema for MinBody API Program (a service category such as
+ * "Hair" or "Yoga Classes")
+ */
+export const MindbodyProgramSchema = z.object({
+  Id: z.number(),
+  Name: z.string().optional(),
+  ScheduleType: z.string().optional(),
+  CancelOffset: z.number().nullable().optional(),
+  ContentFormats: z.array(z.string()).nullable().optional(),
+});
+
+/**
+ * Zod schema for MinBody API SessionType
+ */
+export const MindbodySessionTypeSchema = z.object({
+  Id: z.number(),
+  Name: z.string().optional(),
+  Type: z.string().optional(),
+  ProgramId: z.number().optional(),
+  DefaultTimeLength: z.number().nullable().optional(),
+  StaffTimeLength: z.number().nullable().optional(),
+  NumDeducted: z.number().optional(),
+  Category: z.string().nullable().optional(),
+  CategoryId: z.number().nullable().optional(),
+  Subcategory: z.string().nullable().optional(),
+  SubcategoryId: z.number().nullable().optional(),
+  OnlineDescription: z.string().nullable().optional(),
+  AvailableForAddOn: z.boolean().optional(),
+});
+
+/**
+ * Zod schema for MinBody API Resource (a room or piece of equipment)
+ */
+export const MindbodyResourceSchema = z.object({
+  Id: z.number(),
+  Name: z.string().optional(),
+});
+
+export const PaginatedSiteResponseSchema = z.object({
+  Sites: z.array(MindbodySiteSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+export const PaginatedLocationResponseSchema = z.object({
+  Locations: z.array(MindbodyLocationSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+export const PaginatedProgramResponseSchema = z.object({
+  Programs: z.array(MindbodyProgramSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+export const PaginatedSessionTypeResponseSchema = z.object({
+  SessionTypes: z.array(MindbodySessionTypeSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+/**
+ * The spec leaves /site/resources untyped; live responses follow the usual
+ * paginated shape
+ */
+export const PaginatedResourceResponseSchema = z.object({
+  Resources: z.array(MindbodyResourceSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+// ============================================================================
+// TypeScript Interfaces
+// ============================================================================
+
+/**
+ * Key points:
+ * - Every reference ID is a NUMBER in the API and TEXT in SQLite, matching
+ *   appointments.location_id, appointments.session_type_id and
+ *   bookable_items.program_id
+ * - Reference lists are small and complete, so they are replaced wholesale
+ *   on each refresh
+ */
+export type MindbodySite = z.infer<typeof MindbodySiteSchema>;
+export type MindbodyLocation = z.infer<typeof MindbodyLocationSchema>;
+export type MindbodyProgram = z.infer<typeof MindbodyProgramSchema>;
+export type MindbodySessionType = z.infer<typeof MindbodySessionTypeSchema>;
+export type MindbodyResource = z.infer<typeof MindbodyResourceSchema>;
+
+export type PaginatedSiteResponse = z.infer<typeof PaginatedSiteResponseSchema>;
+export type PaginatedLocationResponse = z.infer<typeof PaginatedLocationResponseSchema>;
+export type PaginatedProgramResponse = z.infer<typeof PaginatedProgramResponseSchema>;
+export type PaginatedSessionTypeResponse = z.infer<typeof PaginatedSessionTypeResponseSchema>;
+export type PaginatedResourceResponse = z.infer<typeof PaginatedResourceResponseSchema>;
+
+/**
+ * Reference lists, named after their /site/{kind} endpoint
+ */
+export const SITE_REFERENCE_KINDS = ["sites", "locations", "programs", "sessiontypes", "resources"] as const;
+
+export type SiteReferenceKind = (typeof SITE_REFERENCE_KINDS)[number];
+
+export type SiteReferenceItem =
+  | MindbodySite
+  | MindbodyLocation
+  | MindbodyProgram
+  | MindbodySessionType
+  | MindbodyResource;
+
+export interface SiteReferenceRecord {
+  id: string;
+  name: string | null;
+  rawData: SiteReferenceItem;
+}
+
+export function isSiteReferenceKind(value: string): value is SiteReferenceKind {
+  return (SITE_REFERENCE_KINDS as readonly string[]).includes(value);
+}
+
+export function transformSiteReference(item: SiteReferenceItem): SiteReferenceRecord {
+  return {
+    id: item.Id.toString(),
+    name: item.Name ?? null,
+    rawData: item,
+  };
+}
@@ -0,0 +1,195 @@
+import { z } from "zod";
+
+// ============================================================================
+// Runtime Validation Schemas (Zod)
+// ============================================================================
+
+const PaginationResponseSchema = z.object({
+  RequestedLimit: z.number(),
+  RequestedOffset: z.number(),
+  PageSize: z.number(),
+  TotalResults: z.number(),
+});
+
+/**
+ * Zod schema for MinBody API Staff
+ *
+ * Covers the scalar fields of `Staff` in api-specs/mindbody-api-types.ts;
+ * nested schedules (Appointments, Availabilities, Unavailabilities) are
+ * left to the raw payload.
+ */
+export const MindbodyStaffSchema = z.object({
+  Id: z.number(),
+  FirstName: z.string().optional(),
+  LastName: z.string().optional(),
+  DisplayName: z.string().nullable().optional(),
+  Name: z.string().optional(),
+  Email: z.string().nullable().optional(),
+  MobilePhone: z.string().nullable().optional(),
+  HomePhone: z.string().nullable().optional(),
+  WorkPhone: z.string().nullable().optional(),
+  Address: z.string().nullable().optional(),
+  City: z.string().nullable().optional(),
+  State: z.string().nullable().optional(),
+  PostalCode: z.string().nullable().optional(),
+  Country: z.string().nullable().optional(),
+  Bio: z.string().nullable().optional(),
+  ImageUrl: z.string().nullable().optional(),
+  EmpID: z.string().nullable().optional(),
+  IsMale: z.boolean().optional(),
+  AppointmentInstructor: z.boolean().optional(),
+  ClassTeacher: z.boolean().optional(),
+  ClassAssistant: z.boolean().optional(),
+  ClassAssistant2: z.boolean().optional(),
+  IndependentContractor: z.boolean().optional(),
+  AlwaysAllowDoubleBooking: z.boolean().optional(),
+  SortOrder: z.number().optional(),
+  EmploymentStart: z.string().nullable().optional(),
+  EmploymentEnd: z.string().nullable().optional(),
+  ProviderIDs: z.array(z.string()).nullable().optional(),
+});
+
+/**
+ * Zod schema for MinBody API StaffPermissionGroup
+ */
+export const StaffPermissionGroupSchema = z.object({
+  PermissionGroupName: z.string().optional(),
+  IpRestricted: z.boolean().optional(),
+  AllowedPermissions: z.array(z.string()).optional(),
+  DeniedPermissions: z.array(z.string()).optional(),
+});
+
+/**
+ * Zod schema for MinBody API StaffSessionType (a session type a staff
+ * member can perform, with their pay rate and timings)
+ */
+export const StaffSessionTypeSchema = z.object({
+  Id: z.number(),
+  StaffId: z.number().optional(),
+  Name: z.string().optional(),
+  Type: z.string().optional(),
+  ProgramId: z.number().optional(),
+  Category: z.string().nullable().optional(),
+  CategoryId: z.number().nullable().optional(),
+  Subcategory: z.string().nullable().optional(),
+  SubcategoryId: z.number().nullable().optional(),
+  NumDeducted: z.number().optional(),
+  TimeLength: z.number().nullable().optional(),
+  PrepTime: z.number().nullable().optional(),
+  FinishTime: z.number().nullable().optional(),
+  PayRateType: z.string().nullable().optional(),
+  PayRateAmount: z.number().nullable().optional(),
+});
+
+export const PaginatedStaffResponseSchema = z.object({
+  StaffMembers: z.array(MindbodyStaffSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+export const StaffPermissionsResponseSchema = z.object({
+  UserGroup: StaffPermissionGroupSchema,
+});
+
+export const PaginatedStaffSessionTypeResponseSchema = z.object({
+  StaffSessionTypes: z.array(StaffSessionTypeSchema),
+  PaginationResponse: PaginationResponseSchema.optional(),
+});
+
+// ============================================================================
+// TypeScript Interfaces
+// ============================================================================
+
+/**
+ * Key points:
+ * - Staff IDs are NUMBERS in the API and TEXT in SQLite, matching
+ *   appointments.staff_id and classes.staff_id
+ * - /staff/staffpermissions and /staff/sessiontypes take one staff ID each
+ */
+export type MindbodyStaff = z.infer<typeof MindbodyStaffSchema>;
+export type StaffPermissionGroup = z.infer<typeof StaffPermissionGroupSchema>;
+export type StaffSessionType = z.infer<typeof StaffSessionTypeSchema>;
+
+export type PaginatedStaffResponse = z.infer<typeof PaginatedStaffResponseSchema>;
+export type StaffPermissionsResponse = z.infer<typeof StaffPermissionsResponseSchema>;
+export type PaginatedStaffSessionTypeResponse = z.infer<typeof PaginatedStaffSessionTypeResponseSchema>;
+
+export interface StaffRecord {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  displayName: string | null;
+  email: string | null;
+  mobilePhone: string | null;
+  appointmentInstructor: boolean;
+  classTeacher: boolean;
+  sortOrder: number | null;
+  rawData: MindbodyStaff;
+  lastSyncedAt: string;
+}
+
+export interface StaffSessionTypeRecord {
+  staffId: string;
+  sessionTypeId: string;
+  name: string | null;
+  programId: string | null;
+  timeLength: number | null;
+  payRateType: string | null;
+  payRateAmount: number | null;
+  rawData: StaffSessionType;
+}
+
+export function transformStaff(mbStaff: MindbodyStaff): StaffRecord {
+  return {
+    id: mbStaff.Id.toString(),
+    firstName: mbStaff.FirstName ?? null,
+    lastName: mbStaff.LastName ?? null,
+    displayName: mbStaff.DisplayName ?? mbStaff.Name ?? null,
+    email: mbStaff.Email ?? null,
+    mobilePhone: mbStaff.MobilePhone ?? null,
+    appointmentInstructor: mbStaff.AppointmentInstructor ?? false,
+    classTeacher: mbStaff.ClassTeacher ?? false,
+    sortOrder: mbStaff.SortOrder ?? null,
+    rawData: mbStaff,
+    lastSyncedAt: new Date().toISOString(),
+  };
+}
+
+export function transformStaffSessionType(sessionType: StaffSessionType, staffId: string): StaffSessionTypeRecord {
+  return {
+    staffId: sessionType.StaffId?.toString() ?? staffId,
+    sessionTypeId: sessionType.Id.toString(),
+    name: sessionType.Name ?? null,
+    programId: sessionType.ProgramId?.toString() ?? null,
+    timeLength: sessionType.TimeLength ?? null,
+    payRateType: sessionType.PayRateType ?? null,
+    payRateAmount: sessionType.PayRateAmount ?? null,
+    rawData: sessionType,
+  };
+}
+
+// ============================================================================
+// Runtime Validation Helpers
+// ============================================================================
+
+/**
+ * Validate a staff directory response from the MinBody API
+ */
+export function validateStaffResponse(
+  response: unknown,
+  options: { throwOnError?: boolean; logErrors?: boolean } = {}
+): response is PaginatedStaffResponse {
+  const { throwOnError = false, logErrors = true } = options;
+
+  try {
+    PaginatedStaffResponseSchema.parse(response);
+    return true;
+  } catch (error) {
+    if (logErrors) {
+      console.error("[MinBody API Validation Error] Staff response schema mismatch:", error);
+    }
+    if (throwOnError) {
+      throw error;
+    }
+    return false;
+  }
+}